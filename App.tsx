@@ -1,35 +1,223 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Upload, FileSpreadsheet, Download, RefreshCw, Play, AlertCircle, FileText, BookOpen, Zap, RotateCcw } from 'lucide-react';
-import { AppStatus, LogEntry } from './types';
-import { initPyodide, extractA1AndColumns, runPythonTransformation } from './services/pyodideService';
-import { generateExcelEditCode } from './services/geminiService';
+import { Upload, FileSpreadsheet, Download, RefreshCw, AlertCircle, FileText, BookOpen, Zap, RotateCcw, Wrench, ShieldCheck, Check, X, Play, Timer, Square, Files, Archive, FileOutput, ListOrdered, Paintbrush, ClipboardList, WifiOff } from 'lucide-react';
+import { AppStatus, LogEntry, LogMeta, CodeAttempt } from './types';
+import { initPyodide, convertOutputs, InputMount, OutputFile, PythonExecutionError, ExecutionCancelledError, DEFAULT_RUN_TIMEOUT_MS, appendChangeLogSheet, runHelperTests } from './services/pyodideService';
+import { WorkbookDiff, HelperTestReport, AssertionResult, OUTPUT_PATH } from './services/pyodideProtocol';
+import { Recipe, loadRecipes, saveRecipe, deleteRecipe, createRecipe, exportRecipes, importRecipes } from './services/recipes';
+import { GenerationCancelledError } from './services/geminiService';
+import { createPipeline, Pipeline, PipelineEvent, PipelineResult, PlanReviewRequest, PlanDecision, RunRejectedError, QuotaExceededError, StageRun, CompletedRun, toInstruction } from './services/pipeline';
+import { PlanAnswer, planComment } from './services/taskPlan';
+import { RunMetrics, createRunMetrics } from './services/runMetrics';
+import { formatAssertionResult } from './services/assertions';
+import { BootStep } from './services/pyodideRuntime';
+import { registerServiceWorker } from './services/offline';
+import { PrivacySettings, RedactionVault, OutboundPayload, AuditEntry, loadPrivacySettings, savePrivacySettings, createRedactionVault, formatPayloadSummary, auditPayload } from './services/privacy';
 import { Terminal } from './components/Terminal';
+import { CodePanel } from './components/CodePanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SafetyPolicyPanel } from './components/SafetyPolicyPanel';
+import { HelperPanel } from './components/HelperPanel';
+import { PlanReview } from './components/PlanReview';
+import { AssertionChecklist } from './components/AssertionChecklist';
+import { PrivacyPanel } from './components/PrivacyPanel';
+import { PayloadReview } from './components/PayloadReview';
+import { RecipePanel } from './components/RecipePanel';
+import { BatchPanel } from './components/BatchPanel';
+import { BatchJob, createBatchJob, runBatchJob, collectBatchOutputs } from './services/batch';
+import { PickedFile } from './utils/fileSystem';
+import { HistoryPanel } from './components/HistoryPanel';
+import { PreviewPanel } from './components/PreviewPanel';
+import { RunSummary } from './components/RunSummary';
+import { UsagePanel } from './components/UsagePanel';
+import { UsageSettings, UsageSnapshot, UsageEvent, loadUsageSettings, saveUsageSettings, getUsageStore, remainingCalls, isOverLimit } from './services/usage';
+import { JobRecord, JobStatus, StoredFile, loadJobs, saveJob, deleteJob, jobRecipe, formatJobLogs } from './services/jobHistory';
+import { sha256Hex } from './utils/hash';
+import { SafetyPolicy, loadSafetyPolicy, saveSafetyPolicy, formatViolation } from './services/safetyPolicy';
+import { LlmSettings, loadLlmSettings, saveLlmSettings, describeLlm } from './services/llm';
+import { DiffReport, CHANGE_KIND_LABELS } from './components/DiffReport';
+import { diffLines } from './utils/codeDiff';
+import { downloadBlob, baseName, outputDownloadName } from './utils/download';
+import { zipBlobs } from './utils/zip';
+import { csvBlob } from './utils/csv';
+import { InstructionPlan, INSTRUCTION_SOURCE_LABELS, stageLabel } from './services/instructions';
+import { OutputFormatChoice, CsvEncoding, INPUT_ACCEPT, detectInputFormat, OUTPUT_FORMAT_LABELS, CSV_ENCODING_LABELS, resolveOutputFormat, replaceExtension } from './services/fileFormats';
 
-const MAX_DAILY_USES = 50; 
-const STORAGE_KEY = 'excel_autopilot_usage_v5';
+const REPAIR_ROUNDS_KEY = 'excel_autopilot_repair_rounds';
+const DEFAULT_REPAIR_ROUNDS = 3;
+const REPAIR_ROUND_OPTIONS = [0, 1, 2, 3, 5];
+const REVIEW_MODE_KEY = 'excel_autopilot_review_mode';
+const PRESERVE_MODE_KEY = 'excel_autopilot_preserve_mode';
+const PLAN_MODE_KEY = 'excel_autopilot_plan_mode';
+
+const RUN_TIMEOUT_KEY = 'excel_autopilot_run_timeout';
+const RUN_TIMEOUT_OPTIONS = [30_000, 60_000, 120_000, 300_000];
+const OUTPUT_FORMAT_KEY = 'excel_autopilot_output_format';
+const CSV_ENCODING_KEY = 'excel_autopilot_csv_encoding';
+
+const loadOutputFormat = (): OutputFormatChoice => {
+  try {
+    const stored = localStorage.getItem(OUTPUT_FORMAT_KEY);
+    return stored && stored in OUTPUT_FORMAT_LABELS ? stored as OutputFormatChoice : 'auto';
+  } catch (e) {
+    return 'auto';
+  }
+};
+
+const loadCsvEncoding = (): CsvEncoding => {
+  try {
+    const stored = localStorage.getItem(CSV_ENCODING_KEY);
+    return stored && stored in CSV_ENCODING_LABELS ? stored as CsvEncoding : 'utf-8-sig';
+  } catch (e) {
+    return 'utf-8-sig';
+  }
+};
+
+// 利用者の確認待ちの作業計画。resolve で処理を再開する
+interface PlanReviewState extends PlanReviewRequest {
+  resolve: (decision: PlanDecision) => void;
+}
+
+// 実行中のジョブ（完了・失敗・中止の時点で履歴に記録する）
+interface ActiveJob {
+  id: string;
+  startedAt: number;
+  files: File[];
+  primaryIndex: number;
+  recipeName?: string;
+}
+
+// 手順ごとに最後の試行のコードを取り出す
+const latestAttempts = (attempts: CodeAttempt[]): CodeAttempt[] => {
+  const byStage = new Map<number, CodeAttempt>();
+  attempts.forEach(a => byStage.set(a.stage ?? 0, a));
+  return [...byStage.entries()].sort(([a], [b]) => a - b).map(([, attempt]) => attempt);
+};
+
+const loadRunTimeout = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(RUN_TIMEOUT_KEY));
+    return RUN_TIMEOUT_OPTIONS.includes(stored) ? stored : DEFAULT_RUN_TIMEOUT_MS;
+  } catch (e) {
+    return DEFAULT_RUN_TIMEOUT_MS;
+  }
+};
+
+const loadRepairRounds = (): number => {
+  try {
+    const stored = localStorage.getItem(REPAIR_ROUNDS_KEY);
+    const rounds = Number(stored);
+    return stored !== null && REPAIR_ROUND_OPTIONS.includes(rounds) ? rounds : DEFAULT_REPAIR_ROUNDS;
+  } catch (e) {
+    return DEFAULT_REPAIR_ROUNDS;
+  }
+};
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
+  const [status, setStatusState] = useState<AppStatus>(AppStatus.IDLE);
+  // ログに記録する処理段階。非同期処理の途中でも最新の値を参照できるように ref にも保持する
+  const statusRef = useRef<AppStatus>(AppStatus.IDLE);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [inputFile, setInputFile] = useState<File | null>(null);
-  const [a1Instruction, setA1Instruction] = useState<string>("");
-  const [generatedCode, setGeneratedCode] = useState<string>("");
-  const [outputBlob, setOutputBlob] = useState<Blob | null>(null);
+  const [inputMounts, setInputMounts] = useState<InputMount[]>([]);
+  // 複数ファイル選択時、指示を読み取るメインファイルの選択待ち
+  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
+  const [primaryIndex, setPrimaryIndex] = useState<number>(0);
+  const [instructionPlan, setInstructionPlan] = useState<InstructionPlan | null>(null);
+  const [stage, setStage] = useState<StageRun | null>(null);
+  // 入力欄の指示はファイル内の指示より優先される（CSV の場合は必須）
+  const [promptInstruction, setPromptInstruction] = useState<string>("");
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [activeRecipe, setActiveRecipe] = useState<Recipe | null>(null);
+  const [completedRun, setCompletedRun] = useState<CompletedRun | null>(null);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchPhase, setBatchPhase] = useState<'idle' | 'sampling' | 'running'>('idle');
+  // レシピなしの一括処理で、コードの生成に使う1件目のジョブ
+  const [batchSampleId, setBatchSampleId] = useState<string | null>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [jobHistory, setJobHistory] = useState<JobRecord[]>([]);
+  // 再試行・再実行のため、正規化前の元のファイルを保持する
+  const [sourceFiles, setSourceFiles] = useState<{ files: File[]; primaryIndex: number } | null>(null);
+  const jobRef = useRef<ActiveJob | null>(null);
+  const jobLogsRef = useRef<LogEntry[]>([]);
+  const metricsRef = useRef<RunMetrics | null>(null);
+  const bootMsRef = useRef<number>(0);
+  const [runSummary, setRunSummary] = useState<RunMetrics | null>(null);
+  const [outputFormat, setOutputFormat] = useState<OutputFormatChoice>(loadOutputFormat);
+  const [csvEncoding, setCsvEncoding] = useState<CsvEncoding>(loadCsvEncoding);
+  const [codeAttempts, setCodeAttempts] = useState<CodeAttempt[]>([]);
+  const [maxRepairRounds, setMaxRepairRounds] = useState<number>(loadRepairRounds);
+  const [reviewMode, setReviewMode] = useState<boolean>(() => {
+    try { return localStorage.getItem(REVIEW_MODE_KEY) === '1'; } catch (e) { return false; }
+  });
+  const [runTimeoutMs, setRunTimeoutMs] = useState<number>(loadRunTimeout);
+  const [preserveFormatting, setPreserveFormatting] = useState<boolean>(() => {
+    try { return localStorage.getItem(PRESERVE_MODE_KEY) === '1'; } catch (e) { return false; }
+  });
+  // 既定で有効。無効にした場合のみ '0' を保存する
+  const [planMode, setPlanMode] = useState<boolean>(() => {
+    try { return localStorage.getItem(PLAN_MODE_KEY) !== '0'; } catch (e) { return true; }
+  });
+  const [planReview, setPlanReview] = useState<PlanReviewState | null>(null);
+  // レビューモードでコードの承認待ち。実行するコード、または却下の場合は null を渡して処理を再開する
+  const [pendingApproval, setPendingApproval] = useState<((code: string | null) => void) | null>(null);
+  // 自動修復で解消できなかった検証の失敗。確認するまでダウンロードを保留する
+  const [failedChecks, setFailedChecks] = useState<AssertionResult[]>([]);
+  const [downloadUnlocked, setDownloadUnlocked] = useState<boolean>(false);
+  const [draftCode, setDraftCode] = useState<string>("");
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [safetyPolicy, setSafetyPolicy] = useState<SafetyPolicy>(loadSafetyPolicy);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(loadPrivacySettings);
+  // 置き換えの対応表はジョブごとに作り直し、ブラウザの外には出さない
+  const vaultRef = useRef<RedactionVault>(createRedactionVault());
+  const [auditTrail, setAuditTrail] = useState<AuditEntry[]>([]);
+  // 送信前の確認待ち（「送信のたびに内容を確認する」が有効な場合）
+  const [pendingPayload, setPendingPayload] = useState<{ payload: OutboundPayload; resolve: (send: boolean) => void } | null>(null);
+  const [outputs, setOutputs] = useState<OutputFile[]>([]);
+  const [workbookDiff, setWorkbookDiff] = useState<WorkbookDiff | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [remainingUses, setRemainingUses] = useState<number>(MAX_DAILY_USES);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [usageError, setUsageError] = useState<string | null>(null);
+  const [bootStep, setBootStep] = useState<BootStep | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
+  // 新しいビルドが待機中の場合、切り替えて再読み込みする関数
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const setStatus = (next: AppStatus) => {
+    statusRef.current = next;
+    setStatusState(next);
+  };
 
-  const addLog = (message: string, type: LogEntry['type'] = 'info') => {
-    setLogs(prev => [...prev, { timestamp: new Date(), message, type }]);
+  const addLog = (message: string, type: LogEntry['type'] = 'info', meta: LogMeta = {}) => {
+    const entry: LogEntry = {
+      timestamp: new Date(),
+      message,
+      type,
+      source: meta.source ?? 'app',
+      stage: statusRef.current,
+      jobId: jobRef.current?.id,
+      payload: meta.payload,
+    };
+    setLogs(prev => [...prev, entry]);
+    if (jobRef.current) jobLogsRef.current.push(entry);
   };
 
   useEffect(() => {
     const boot = async () => {
       try {
         setStatus(AppStatus.BOOTING_PYTHON);
-        addLog("Python環境(Pyodide)を初期化中...", 'info');
-        await initPyodide((msg) => addLog(msg, 'info'));
+        addLog("Python環境(Pyodide)を初期化中...", 'info', { source: 'pyodide' });
+        const bootStarted = performance.now();
+        await initPyodide((msg, step) => {
+          addLog(msg, 'info', { source: 'pyodide' });
+          if (step) setBootStep(step);
+        });
+        bootMsRef.current = performance.now() - bootStarted;
+        setBootStep(null);
         setStatus(AppStatus.IDLE);
         addLog("システム準備完了。Excelファイルをアップロードしてください。", 'success');
       } catch (e: any) {
@@ -41,143 +229,709 @@ const App: React.FC = () => {
     boot();
   }, []);
 
+  // AI の呼び出し以外（レシピ・履歴の再実行を含む）はオフラインでも動作する
   useEffect(() => {
-    const today = new Date().toDateString();
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    registerServiceWorker((apply) => setApplyUpdate(() => apply));
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const refreshRecipes = async () => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const { date, count } = JSON.parse(stored);
-        if (date === today) {
-          setRemainingUses(Math.max(0, MAX_DAILY_USES - count));
-        } else {
-          localStorage.setItem(STORAGE_KEY, JSON.stringify({ date: today, count: 0 }));
-          setRemainingUses(MAX_DAILY_USES);
-        }
-      } else {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify({ date: today, count: 0 }));
-        setRemainingUses(MAX_DAILY_USES);
-      }
-    } catch (e) {
-      setRemainingUses(MAX_DAILY_USES);
+      setRecipes(await loadRecipes());
+    } catch (e: any) {
+      addLog(`レシピの読み込みに失敗しました: ${e.message}`, 'warning');
     }
+  };
+
+  const refreshJobHistory = async () => {
+    try {
+      setJobHistory(await loadJobs());
+    } catch (e: any) {
+      addLog(`実行履歴の読み込みに失敗しました: ${e.message}`, 'warning');
+    }
+  };
+
+  useEffect(() => {
+    refreshRecipes();
+    refreshJobHistory();
   }, []);
 
-  const consumeUsage = () => {
-    const today = new Date().toDateString();
-    const currentUsed = MAX_DAILY_USES - remainingUses;
-    const newUsed = currentUsed + 1;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({ date: today, count: newUsed }));
-    setRemainingUses(Math.max(0, MAX_DAILY_USES - newUsed));
+  // 取得できなかった場合は null を返す
+  const refreshUsage = async (settings: UsageSettings = usageSettings): Promise<UsageSnapshot | null> => {
+    try {
+      const snapshot = await getUsageStore(settings).getSnapshot();
+      setUsage(snapshot);
+      setUsageError(null);
+      return snapshot;
+    } catch (e: any) {
+      setUsageError(`使用量を取得できませんでした: ${e.message}`);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    refreshUsage(usageSettings);
+  }, [usageSettings]);
+
+  // 成功した生成・修復の呼び出しのみ記録する。記録に失敗しても処理は続ける
+  const recordUsage = async (event: UsageEvent) => {
+    try {
+      setUsage(await getUsageStore(usageSettings).record(event));
+    } catch (e: any) {
+      addLog(`使用量の記録に失敗しました: ${e.message}`, 'warning');
+    }
+  };
+
+  const handleUsageSettingsChange = (settings: UsageSettings) => {
+    setUsageSettings(settings);
+    saveUsageSettings(settings);
+  };
+
+  // 生成を始めてよいか。HTTP ストアに接続できない場合は上限を確認できないため生成しない
+  const checkQuota = async (): Promise<string | null> => {
+    const snapshot = await refreshUsage();
+    if (!snapshot) {
+      return usageSettings.store === 'http' ? "使用量サーバーに接続できないため、コードを生成できません。" : null;
+    }
+    return isOverLimit(snapshot) ? "本日の生成回数の上限に達しました。リセット時刻を過ぎてからお試しください。" : null;
+  };
+
+  const handleLlmSettingsChange = (settings: LlmSettings) => {
+    setLlmSettings(settings);
+    saveLlmSettings(settings);
+  };
+
+  const handleSafetyPolicyChange = (policy: SafetyPolicy) => {
+    setSafetyPolicy(policy);
+    saveSafetyPolicy(policy);
+  };
+
+  const handlePrivacySettingsChange = (settings: PrivacySettings) => {
+    setPrivacySettings(settings);
+    savePrivacySettings(settings);
+  };
+
+  // AI への送信の直前に呼ばれる。確認が有効なら承認を待ち、送信する内容を監査ログに残す
+  const reviewPayload = async (payload: OutboundPayload): Promise<boolean> => {
+    if (privacySettings.confirmBeforeSend) {
+      const send = await new Promise<boolean>(resolve => setPendingPayload({ payload, resolve }));
+      setPendingPayload(null);
+      if (!send) return false;
+    }
+    setAuditTrail(prev => [...prev, { ...payload, sentAt: Date.now() }]);
+    addLog(formatPayloadSummary(payload), 'info', { source: 'llm', payload: { audit: auditPayload(payload) } });
+    return true;
+  };
+
+  const handleRepairRoundsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const rounds = Number(e.target.value);
+    setMaxRepairRounds(rounds);
+    try { localStorage.setItem(REPAIR_ROUNDS_KEY, String(rounds)); } catch (err) {}
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    const files = Array.from(e.target.files ?? []);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (files.length === 1) {
+      processFiles(files, 0);
+    } else if (files.length > 1) {
+      setPendingFiles(files);
+      setPrimaryIndex(0);
     }
   };
 
-  const processFile = async (file: File) => {
-    if (remainingUses <= 0) {
-      setErrorMsg("本日の生成回数の上限に達しました。明日またお試しください。");
+  const beginJob = (files: File[], primaryIndex: number, recipe: Recipe | null) => {
+    jobRef.current = { id: crypto.randomUUID(), startedAt: Date.now(), files, primaryIndex, recipeName: recipe?.name };
+    jobLogsRef.current = [];
+    metricsRef.current = createRunMetrics(bootMsRef.current);
+    setRunSummary(null);
+  };
+
+  const recordJob = async (job: ActiveJob, jobStatus: JobStatus, jobLogs: LogEntry[]) => {
+    try {
+      const inputs = await Promise.all(job.files.map(async file => ({
+        name: file.name, size: file.size, hash: await sha256Hex(file), blob: file,
+      })));
+      await saveJob({
+        id: job.id,
+        startedAt: job.startedAt,
+        durationMs: Date.now() - job.startedAt,
+        status: jobStatus,
+        inputs,
+        primaryIndex: job.primaryIndex,
+        plan: instructionPlan,
+        scripts: jobStatus === 'success' && completedRun ? completedRun.scripts : latestAttempts(codeAttempts).map(a => a.code),
+        taskPlans: jobStatus === 'success' && completedRun ? completedRun.taskPlans : latestAttempts(codeAttempts).map(a => a.plan),
+        assertionSets: jobStatus === 'success' && completedRun ? completedRun.assertionSets : stage ? [...stage.assertionSets, stage.assertions] : [],
+        model: describeLlm(llmSettings),
+        recipeName: job.recipeName,
+        logs: jobLogs,
+        error: jobStatus === 'error' ? errorMsg ?? undefined : undefined,
+        outputs: jobStatus === 'success' ? outputs.map(o => ({ name: o.name, size: o.blob.size, blob: o.blob })) : [],
+      });
+      await refreshJobHistory();
+    } catch (e: any) {
+      addLog(`実行履歴の保存に失敗しました: ${e.message}`, 'warning');
+    }
+  };
+
+  // 完了・失敗・中止（IDLE に戻る）の時点でジョブを履歴に記録する
+  useEffect(() => {
+    const job = jobRef.current;
+    if (!job) return;
+    const jobStatus: JobStatus | null =
+      status === AppStatus.COMPLETED ? 'success' : status === AppStatus.ERROR ? 'error' : status === AppStatus.IDLE ? 'cancelled' : null;
+    if (!jobStatus) return;
+    jobRef.current = null;
+    if (metricsRef.current) setRunSummary({ ...metricsRef.current, finishedAt: Date.now() });
+    metricsRef.current = null;
+    recordJob(job, jobStatus, jobLogsRef.current);
+    jobLogsRef.current = [];
+  }, [status]);
+
+  // recipe を指定した場合（レシピ・履歴からの再実行）は生成を行わない
+  const processFiles = async (files: File[], primary: number, recipe: Recipe | null = activeRecipe) => {
+    // レシピの適用は AI を呼び出さないため、上限に達していても実行できる
+    const quotaError = recipe ? null : await checkQuota();
+    if (quotaError) {
+      setErrorMsg(quotaError);
       setStatus(AppStatus.ERROR);
       return;
     }
 
-    setInputFile(file);
-    setOutputBlob(null);
-    setGeneratedCode("");
-    setA1Instruction("");
+    setPendingFiles(null);
+    setSourceFiles({ files, primaryIndex: primary });
+    beginJob(files, primary, recipe);
+    vaultRef.current = createRedactionVault();
+    setInputFile(files[primary]);
+    setInputMounts([]);
+    setOutputs([]);
+    setWorkbookDiff(null);
+    setCodeAttempts([]);
+    setDraftCode("");
+    setInstructionPlan(null);
+    setStage(null);
+    setPlanReview(null);
+    setPendingApproval(null);
+    setFailedChecks([]);
+    setDownloadUnlocked(false);
+    setCompletedRun(null);
     setErrorMsg(null);
+
+    await runPipeline(pipeline => pipeline.run(files, primary, { instruction: promptInstruction, recipe }));
+  };
+
+  const reportError = (e: any) => {
+    console.error(e);
+    setStatus(AppStatus.ERROR);
     
-    if (fileInputRef.current) fileInputRef.current.value = "";
+    let displayError = e.message;
+    if (typeof displayError === 'string' && displayError.includes('{"error"')) {
+      try {
+        const match = displayError.match(/\{"error":.*\}/);
+        if (match) {
+          const parsed = JSON.parse(match[0]);
+          displayError = parsed.error?.message || displayError;
+        }
+      } catch(err) {}
+    }
+    
+    setErrorMsg(displayError);
+    addLog(displayError, 'error');
+  };
 
-    await startTransformation(file);
+  // 中断・却下はエラーとして扱わず IDLE に戻す（コードを編集して再実行できる）
+  const reportFailure = (e: any) => {
+    if (e instanceof ExecutionCancelledError || e instanceof GenerationCancelledError || e instanceof RunRejectedError) {
+      setStatus(AppStatus.IDLE);
+      addLog(e.message, 'warning');
+      return;
+    }
+    reportError(e);
+  };
+
+  // 処理の進行を画面の状態に反映する
+  const handlePipelineEvent = (event: PipelineEvent) => {
+    switch (event.type) {
+      case 'status':
+        setStatus(event.status);
+        break;
+      case 'log':
+        addLog(event.message, event.level, event.meta);
+        break;
+      case 'inputs':
+        setInputMounts(event.mounts);
+        break;
+      case 'instructions':
+        setInstructionPlan(event.plan);
+        break;
+      case 'stage':
+        setStage(event.stage);
+        break;
+      case 'attemptAdded':
+        setCodeAttempts(prev => event.reset ? [event.attempt] : [...prev, event.attempt]);
+        break;
+      case 'attemptChanged':
+        setCodeAttempts(prev => prev.map(a => a.round === event.round ? { ...a, ...event.changes } : a));
+        break;
+      case 'attemptRemoved':
+        setCodeAttempts(prev => prev.filter(a => a.round !== event.round));
+        break;
+      case 'code':
+        setDraftCode(event.code);
+        break;
+      case 'usage':
+        // モックも記録し、ネットワークなしで使用量の表示と上限を確認できるようにする
+        recordUsage({ kind: event.kind, model: llmSettings.model, usage: event.usage, at: Date.now() });
+        break;
+      case 'checksFailed':
+        setFailedChecks(prev => [...prev, ...event.failures]);
+        break;
+      case 'outputs':
+        setOutputs(event.outputs);
+        setCompletedRun(event.run);
+        break;
+      case 'diff':
+        setWorkbookDiff(event.diff);
+        break;
+    }
   };
 
-  const startTransformation = async (file: File) => {
+  // 計画・コードの確認待ちは resolve を状態に保持し、ボタンの操作で再開する
+  const runPipeline = async (job: (pipeline: Pipeline) => Promise<PipelineResult>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const pipeline = createPipeline({
+      llm: llmSettings,
+      safetyPolicy,
+      privacy: { mode: privacySettings.mode, vault: vaultRef.current },
+      maxRepairRounds,
+      runTimeoutMs,
+      preserveFormatting,
+      signal: controller.signal,
+      metrics: metricsRef.current,
+    }, {
+      onEvent: handlePipelineEvent,
+      onPayload: reviewPayload,
+      beforeModelCall: async () => {
+        const quotaError = await checkQuota();
+        if (quotaError) throw new QuotaExceededError(quotaError);
+      },
+      reviewPlan: planMode ? (review) => new Promise<PlanDecision>(resolve => setPlanReview({ ...review, resolve })) : undefined,
+      approveCode: reviewMode ? () => new Promise<string | null>(resolve => setPendingApproval(() => resolve)) : undefined,
+    });
     try {
-      setStatus(AppStatus.READING_FILE);
-      addLog(`解析開始: ${file.name}`, 'info');
-      
-      const { a1, columns } = await extractA1AndColumns(file);
-      
-      if (!a1 || a1.trim() === "" || a1 === "None") {
-        addLog("警告: A1セルに指示が見つかりませんでした。", 'warning');
-        setA1Instruction("(指示なし)");
-        throw new Error("ExcelファイルのA1セルに指示内容を入力してアップロードしてください。");
-      } else {
-        addLog(`指示を検出: "${a1}"`, 'success');
-        setA1Instruction(a1);
+      await job(pipeline);
+    } catch (e: any) {
+      reportFailure(e);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    setPendingPayload(null);
+    if (abortRef.current) {
+      addLog("実行を中断しています...", 'warning');
+      abortRef.current.abort();
+    }
+  };
+
+  const handleApprove = () => {
+    if (!pendingApproval) return;
+    setPendingApproval(null);
+    pendingApproval(draftCode);
+  };
+
+  const handleReject = () => {
+    if (!pendingApproval) return;
+    setPendingApproval(null);
+    pendingApproval(null);
+  };
+
+  const handlePlanAnswer = (answers: PlanAnswer[]) => {
+    if (!planReview) return;
+    setPlanReview(null);
+    planReview.resolve({ type: 'answer', answers });
+  };
+
+  const handlePlanConfirm = (note: string) => {
+    if (!planReview || planReview.draft.type !== 'plan') return;
+    setPlanReview(null);
+    planReview.resolve({ type: 'confirm', note });
+  };
+
+  const handlePlanReject = () => {
+    if (!planReview) return;
+    setPlanReview(null);
+    planReview.resolve({ type: 'reject' });
+  };
+
+  const handleRerun = () => {
+    const latest = codeAttempts[codeAttempts.length - 1];
+    if (!stage || !latest) return;
+
+    const round = latest.round + 1;
+    const diff = diffLines(latest.code, draftCode);
+    setCodeAttempts(prev => [...prev, { round, code: draftCode, diff, edited: draftCode !== latest.code, stage: latest.stage, plan: latest.plan }]);
+    setOutputs([]);
+    setWorkbookDiff(null);
+    setCompletedRun(null);
+    setErrorMsg(null);
+    setFailedChecks([]);
+    setDownloadUnlocked(false);
+    if (sourceFiles) beginJob(sourceFiles.files, sourceFiles.primaryIndex, stage.recipe ?? null);
+    const isLastStage = stage.index === stage.plan.steps.length - 1;
+    addLog(isLastStage
+      ? `コードを再実行します（AI呼び出し・利用回数の消費なし）。`
+      : `${stageLabel(toInstruction(stage))}コードを再実行します。以降の手順はAIで生成されます。`, 'info');
+    runPipeline(pipeline => pipeline.rerun({ ...stage, firstRound: round }, draftCode));
+  };
+
+  const handleApplyRecipe = (recipe: Recipe | null) => {
+    setActiveRecipe(recipe);
+    if (recipe) addLog(`レシピ「${recipe.name}」を選択しました。ファイルをアップロードすると、AIを呼び出さずに適用します。`, 'info');
+  };
+
+  const handleSaveRecipe = async (name: string) => {
+    if (!completedRun) return;
+    try {
+      const recipe = createRecipe(name, completedRun.plan, completedRun.scripts, completedRun.taskPlans, completedRun.assertionSets, completedRun.profile, completedRun.inputCount, describeLlm(llmSettings));
+      await saveRecipe(recipe);
+      addLog(`レシピ「${recipe.name}」を保存しました。`, 'success');
+      await refreshRecipes();
+    } catch (e: any) {
+      addLog(`レシピの保存に失敗しました: ${e.message}`, 'error');
+    }
+  };
+
+  const handleDeleteRecipe = async (recipe: Recipe) => {
+    if (!window.confirm(`レシピ「${recipe.name}」を削除しますか？`)) return;
+    try {
+      await deleteRecipe(recipe.id);
+      if (activeRecipe?.id === recipe.id) setActiveRecipe(null);
+      addLog(`レシピ「${recipe.name}」を削除しました。`, 'info');
+      await refreshRecipes();
+    } catch (e: any) {
+      addLog(`レシピの削除に失敗しました: ${e.message}`, 'error');
+    }
+  };
+
+  const handleExportRecipes = () => {
+    downloadBlob(exportRecipes(recipes), `excel_autopilot_recipes_${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImportRecipes = async (file: File) => {
+    try {
+      const imported = await importRecipes(await file.text());
+      addLog(`${imported.length} 件のレシピを読み込みました。`, 'success');
+      await refreshRecipes();
+    } catch (e: any) {
+      addLog(`レシピの読み込みに失敗しました: ${e.message}`, 'error');
+    }
+  };
+
+  const updateBatchJob = (id: string, patch: Partial<BatchJob>) => {
+    setBatchJobs(prev => prev.map(j => j.id === id ? { ...j, ...patch } : j));
+  };
+
+  const handleBatchAddFiles = (picked: PickedFile[]) => {
+    const supported = picked.filter(p => detectInputFormat(p.file.name) !== null);
+    if (supported.length < picked.length) {
+      addLog(`対応していない形式の ${picked.length - supported.length} 個のファイルを除外しました。`, 'warning');
+    }
+    setBatchJobs(prev => [...prev, ...supported.map(p => createBatchJob(p.file, p.relativePath))]);
+  };
+
+  // 1件のファイルの失敗で全体を止めず、残りのファイルの処理を続ける
+  const runBatchQueue = async (recipe: Recipe, jobs: BatchJob[]) => {
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setBatchPhase('running');
+    addLog(`一括処理を開始します（${jobs.length} 件）。`, 'info');
+
+    let succeeded = 0;
+    for (const [index, job] of jobs.entries()) {
+      if (controller.signal.aborted) {
+        updateBatchJob(job.id, { status: 'cancelled' });
+        continue;
+      }
+      const logs: string[] = [];
+      const started = performance.now();
+      updateBatchJob(job.id, { status: 'running', logs, error: undefined });
+      addLog(`[一括 ${index + 1}/${jobs.length}] ${job.relativePath} を処理しています...`, 'info');
+      try {
+        const results = await runBatchJob(job, recipe, (msg) => logs.push(msg), {
+          timeoutMs: runTimeoutMs,
+          signal: controller.signal,
+          policy: safetyPolicy,
+          onViolations: (violations) => violations.forEach(v => logs.push(`[安全性チェック] ${formatViolation(v)}`)),
+        });
+        succeeded++;
+        updateBatchJob(job.id, { status: 'success', outputs: results, logs: [...logs], durationMs: performance.now() - started });
+      } catch (e: any) {
+        const cancelled = e instanceof ExecutionCancelledError;
+        const error = e instanceof PythonExecutionError && e.traceback ? e.traceback : e.message;
+        updateBatchJob(job.id, { status: cancelled ? 'cancelled' : 'error', error, logs: [...logs], durationMs: performance.now() - started });
+        addLog(`[一括 ${index + 1}/${jobs.length}] ${job.relativePath}: ${cancelled ? '中止しました' : `失敗しました - ${e.message}`}`, cancelled ? 'warning' : 'error');
+      }
+    }
+
+    batchAbortRef.current = null;
+    setBatchPhase('idle');
+    addLog(`一括処理が終了しました: 成功 ${succeeded} 件 / 全 ${jobs.length} 件`, succeeded === jobs.length ? 'success' : 'warning');
+  };
+
+  const handleBatchStart = async () => {
+    const pending = batchJobs.filter(j => j.status === 'pending');
+    if (pending.length === 0) return;
+
+    if (activeRecipe) {
+      if (activeRecipe.inputCount > 1) {
+        addLog(`レシピ「${activeRecipe.name}」は複数ファイルを前提としているため、一括処理には使用できません。`, 'error');
+        return;
       }
+      runBatchQueue(activeRecipe, pending);
+      return;
+    }
+
+    // レシピがない場合は1件目のファイルで通常どおり生成・実行し、成功したコードを残りのファイルに適用する
+    const quotaError = await checkQuota();
+    if (quotaError) {
+      addLog(`${quotaError} レシピを選択すると一括処理を実行できます。`, 'error');
+      return;
+    }
+    const sample = pending[0];
+    setBatchPhase('sampling');
+    setBatchSampleId(sample.id);
+    updateBatchJob(sample.id, { status: 'running', logs: ["このファイルでコードを生成・実行しています（詳細はターミナルを参照）。"] });
+    addLog(`一括処理: 1件目のファイル (${sample.relativePath}) でコードを生成します。`, 'info');
+    processFiles([sample.file], 0);
+  };
+
+  useEffect(() => {
+    if (batchPhase !== 'sampling' || !batchSampleId) return;
+
+    if (status === AppStatus.COMPLETED && completedRun && failedChecks.length > 0) {
+      // 検証に失敗したコードは残りのファイルに適用しない。コードを編集して再実行できる
+      updateBatchJob(batchSampleId, { status: 'error', error: `出力の検証に失敗しました: ${failedChecks.map(formatAssertionResult).join(' / ')}` });
+    } else if (status === AppStatus.COMPLETED && completedRun) {
+      updateBatchJob(batchSampleId, { status: 'success', outputs, error: undefined });
+      setBatchSampleId(null);
+      const recipe = createRecipe('一括処理', completedRun.plan, completedRun.scripts, completedRun.taskPlans, completedRun.assertionSets, completedRun.profile, 1, describeLlm(llmSettings));
+      runBatchQueue(recipe, batchJobs.filter(j => j.status === 'pending'));
+    } else if (status === AppStatus.ERROR) {
+      // コードを編集して再実行し、成功すれば残りのファイルの処理に進む
+      updateBatchJob(batchSampleId, { status: 'error', error: errorMsg ?? undefined });
+    } else if (status === AppStatus.IDLE) {
+      updateBatchJob(batchSampleId, { status: 'pending', logs: [] });
+      setBatchSampleId(null);
+      setBatchPhase('idle');
+    }
+  }, [status, completedRun]);
+
+  const handleBatchCancel = () => {
+    if (batchPhase === 'sampling') {
+      abortRef.current?.abort();
+      setBatchJobs(prev => prev.map(j => j.id === batchSampleId ? { ...j, status: 'pending', logs: [], error: undefined } : j));
+      setBatchSampleId(null);
+      setBatchPhase('idle');
+      return;
+    }
+    addLog("一括処理を中止しています...", 'warning');
+    batchAbortRef.current?.abort();
+  };
+
+  const handleBatchDownload = async () => {
+    setIsExporting(true);
+    try {
+      const { entries, summary } = await collectBatchOutputs(batchJobs, outputFormat, csvEncoding, (msg) => addLog(msg, 'warning'));
+      const zip = await zipBlobs([...entries, { name: '集計結果.csv', blob: csvBlob(summary) }]);
+      downloadBlob(zip, `一括処理_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e: any) {
+      addLog(`一括処理の結果の書き出しに失敗しました: ${e.message}`, 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
-      setStatus(AppStatus.GENERATING_CODE);
-      addLog("Gemini 3 Flash に指示を送信中...", 'info');
-      consumeUsage();
+  const handleHistoryDownload = (job: JobRecord, output: StoredFile) => {
+    if (output.blob) downloadBlob(output.blob, outputDownloadName(job.inputs[job.primaryIndex]?.name, output.name));
+  };
 
-      const code = await generateExcelEditCode(a1, columns, (attempt, msg) => {
-        addLog(msg, 'warning');
+  const handleHistoryLogs = (job: JobRecord) => {
+    const name = `${baseName(job.inputs[job.primaryIndex]?.name)}_ログ_${new Date(job.startedAt).toISOString().slice(0, 10)}.txt`;
+    downloadBlob(new Blob([formatJobLogs(job)], { type: 'text/plain;charset=utf-8' }), name);
+  };
+
+  const handleHistoryCopyCode = async (job: JobRecord) => {
+    try {
+      const scripts = job.scripts.map((script, i) => {
+        const taskPlan = job.taskPlans?.[i];
+        return taskPlan ? `${planComment(taskPlan)}\n\n${script}` : script;
       });
-      setGeneratedCode(code);
-      addLog("Pythonコードが生成されました。", 'success');
-      
-      setStatus(AppStatus.EXECUTING_CODE);
-      addLog("Pythonを実行中...", 'info');
-      
-      const resultBlob = await runPythonTransformation(code, file, (msg) => addLog(msg, 'info'));
-      
-      setOutputBlob(resultBlob);
-      setStatus(AppStatus.COMPLETED);
-      addLog("すべての処理が完了しました！", 'success');
+      await navigator.clipboard.writeText(scripts.join('\n\n# ---- 次の手順 ----\n\n'));
+      addLog("履歴のコードをクリップボードにコピーしました。", 'success');
+    } catch (e: any) {
+      addLog(`コードのコピーに失敗しました: ${e.message}`, 'error');
+    }
+  };
+
+  const handleHistoryRerun = (job: JobRecord) => {
+    const files = job.inputs.map(input => new File([input.blob!], input.name));
+    addLog(`履歴のコードを保存された入力ファイルで再実行します（AI呼び出しなし）。`, 'info');
+    processFiles(files, job.primaryIndex, jobRecipe(job));
+  };
 
+  const handleHistoryDelete = async (job: JobRecord) => {
+    try {
+      await deleteJob(job.id);
+      await refreshJobHistory();
     } catch (e: any) {
-      console.error(e);
-      setStatus(AppStatus.ERROR);
-      
-      let displayError = e.message;
-      if (typeof displayError === 'string' && displayError.includes('{"error"')) {
-        try {
-          const match = displayError.match(/\{"error":.*\}/);
-          if (match) {
-            const parsed = JSON.parse(match[0]);
-            displayError = parsed.error?.message || displayError;
-          }
-        } catch(err) {}
-      }
-      
-      setErrorMsg(displayError);
-      addLog(displayError, 'error');
+      addLog(`履歴の削除に失敗しました: ${e.message}`, 'error');
     }
   };
 
+  const handleRunTimeoutChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const timeoutMs = Number(e.target.value);
+    setRunTimeoutMs(timeoutMs);
+    try { localStorage.setItem(RUN_TIMEOUT_KEY, String(timeoutMs)); } catch (err) {}
+  };
+
+  const handleReviewModeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setReviewMode(e.target.checked);
+    try { localStorage.setItem(REVIEW_MODE_KEY, e.target.checked ? '1' : '0'); } catch (err) {}
+  };
+
+  const handleRunHelperTests = async (): Promise<HelperTestReport> => {
+    addLog("Python ヘルパーのセルフテストを実行しています...", 'info', { source: 'pyodide' });
+    const report = await runHelperTests();
+    const failed = report.failures.length;
+    addLog(`Python ヘルパー v${report.version} のセルフテスト: ${report.testsRun} 件中 ${report.testsRun - failed} 件成功`, failed > 0 ? 'error' : 'success', { source: 'python' });
+    report.failures.forEach(f => addLog(`失敗: ${f.test}`, 'error', { source: 'python', payload: { traceback: f.traceback } }));
+    return report;
+  };
+
+  const handlePreserveModeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPreserveFormatting(e.target.checked);
+    try { localStorage.setItem(PRESERVE_MODE_KEY, e.target.checked ? '1' : '0'); } catch (err) {}
+  };
+
+  const handlePlanModeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPlanMode(e.target.checked);
+    try { localStorage.setItem(PLAN_MODE_KEY, e.target.checked ? '1' : '0'); } catch (err) {}
+  };
+
   const handleRetry = () => {
-    if (inputFile) {
+    if (inputMounts.length > 0) {
       setErrorMsg(null);
+      if (sourceFiles) beginJob(sourceFiles.files, sourceFiles.primaryIndex, activeRecipe);
       addLog("処理を再試行しています...", 'info');
-      startTransformation(inputFile);
+      runPipeline(pipeline => pipeline.transform(inputMounts, { instruction: promptInstruction, recipe: activeRecipe }));
     }
   };
 
-  const handleDownload = () => {
-    if (!outputBlob) return;
-    const url = URL.createObjectURL(outputBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    const fileName = inputFile?.name.replace(/\.[^/.]+$/, "") || "output";
-    a.download = `${fileName}_編集済み.xlsx`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleOutputFormatChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const format = e.target.value as OutputFormatChoice;
+    setOutputFormat(format);
+    try { localStorage.setItem(OUTPUT_FORMAT_KEY, format); } catch (err) {}
+  };
+
+  const handleCsvEncodingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const encoding = e.target.value as CsvEncoding;
+    setCsvEncoding(encoding);
+    try { localStorage.setItem(CSV_ENCODING_KEY, encoding); } catch (err) {}
+  };
+
+  // 出力は内部的に xlsx のまま保持し、ダウンロード時に選択された形式へ変換する
+  const primaryFormat = inputMounts[0]?.format ?? 'xlsx';
+  const targetFormat = resolveOutputFormat(outputFormat, primaryFormat);
+  const showCsvEncoding = outputFormat === 'csv' || (outputFormat === 'auto' && primaryFormat === 'csv');
+
+  const prepareDownloads = async (files: OutputFile[]): Promise<OutputFile[] | null> => {
+    if (targetFormat === 'xlsx') return files;
+    setIsExporting(true);
+    addLog(`出力を ${OUTPUT_FORMAT_LABELS[targetFormat]} に変換しています...`, 'info');
+    try {
+      return await convertOutputs(files, targetFormat, {
+        encoding: csvEncoding,
+        vbaSource: targetFormat === 'xlsm' ? inputMounts[0].file : undefined,
+      }, (msg) => addLog(msg, 'warning', { source: 'pyodide' }));
+    } catch (e: any) {
+      addLog(`出力形式の変換に失敗しました: ${e.message}`, 'error');
+      return null;
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownload = async (output: OutputFile) => {
+    const converted = await prepareDownloads([output]);
+    if (!converted) return;
+    downloadBlob(converted[0].blob, outputDownloadName(inputFile?.name, converted[0].name));
+  };
+
+  const handleDownloadZip = async () => {
+    const converted = await prepareDownloads(outputs);
+    if (!converted) return;
+    const zip = await zipBlobs(converted.map(o => ({ name: outputDownloadName(inputFile?.name, o.name), blob: o.blob })));
+    downloadBlob(zip, `${baseName(inputFile?.name)}_出力.zip`);
+  };
+
+  const handleDownloadDiffCsv = () => {
+    if (!workbookDiff) return;
+    const rows = [
+      ['シート', 'セル', '種類', '変更前', '変更後'],
+      ...workbookDiff.changes.map(c => [c.sheet, c.cell, CHANGE_KIND_LABELS[c.kind], c.before, c.after]),
+    ];
+    downloadBlob(csvBlob(rows), `${baseName(inputFile?.name)}_変更履歴.csv`);
+  };
+
+  const handleDownloadWithChangeLog = async () => {
+    const mainOutput = outputs.find(o => o.name === OUTPUT_PATH) ?? outputs[0];
+    if (!mainOutput || !workbookDiff) return;
+    setIsExporting(true);
+    addLog("「変更履歴」シートを追加しています...", 'info');
+    try {
+      const blob = await appendChangeLogSheet(mainOutput.blob, workbookDiff.changes);
+      downloadBlob(blob, outputDownloadName(inputFile?.name, mainOutput.name).replace(/\.xlsx$/, '_変更履歴付き.xlsx'));
+      addLog("変更履歴シート付きのファイルを保存しました。", 'success');
+    } catch (e: any) {
+      addLog(`変更履歴シートの追加に失敗しました: ${e.message}`, 'error');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const isProcessing = [
     AppStatus.BOOTING_PYTHON, 
     AppStatus.READING_FILE, 
     AppStatus.ANALYZING_INSTRUCTION, 
+    AppStatus.PLANNING,
     AppStatus.GENERATING_CODE, 
-    AppStatus.EXECUTING_CODE
+    AppStatus.EXECUTING_CODE,
+    AppStatus.REPAIRING_CODE,
+    AppStatus.VERIFYING_OUTPUT,
+    AppStatus.COMPARING_OUTPUT
   ].includes(status);
 
+  const downloadBlocked = failedChecks.length > 0 && !downloadUnlocked;
+
+  // レシピの適用は利用回数を消費しないため、上限に達していてもアップロードできる
+  // 一括処理中は、1件目のコード修正（再実行）以外の新しいアップロードを受け付けない
+  const quotaExceeded = usage ? isOverLimit(usage) : false;
+  const remainingUses = usage ? remainingCalls(usage) : null;
+  const uploadBlocked = (quotaExceeded && !activeRecipe) || batchPhase !== 'idle';
+
+  // 一度コードが得られたら、同じ入力ファイルに対して編集後のコードを再実行できる
+  const canRerun = stage !== null && codeAttempts.length > 0 && !isProcessing && status !== AppStatus.AWAITING_APPROVAL && status !== AppStatus.AWAITING_PLAN;
+
   // Expanded overload detection to include networking/rpc errors for manual retry trigger
   const isRetryableError = errorMsg?.includes("混み合っています") || 
                           errorMsg?.includes("制限") || 
@@ -199,12 +953,27 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-4">
+          {applyUpdate && (
+            <button
+              onClick={applyUpdate}
+              className="bg-emerald-50 px-4 py-2 rounded-full border border-emerald-300 text-emerald-700 text-sm font-medium flex items-center gap-2 hover:bg-emerald-100"
+            >
+              <RefreshCw className="w-4 h-4" />
+              新しいバージョンがあります（再読み込み）
+            </button>
+          )}
+          {!isOnline && (
+            <div className="bg-white px-4 py-2 rounded-full border border-amber-300 shadow-sm flex items-center gap-2 text-sm text-amber-700" title="レシピ・履歴からの再実行やコードの編集・実行は利用できます">
+              <WifiOff className="w-4 h-4" />
+              オフライン（AIの呼び出しは利用できません）
+            </div>
+          )}
           <div className="bg-white px-4 py-2 rounded-full border border-gray-200 shadow-sm flex items-center gap-2">
-            <Zap className={`w-4 h-4 ${remainingUses > 0 ? 'text-amber-500' : 'text-gray-400'}`} />
+            <Zap className={`w-4 h-4 ${!quotaExceeded ? 'text-amber-500' : 'text-gray-400'}`} />
             <div className="text-sm flex flex-col md:flex-row md:gap-1 leading-tight">
               <span className="text-gray-500 font-medium">本日残り:</span>
-              <span className={`font-bold ${remainingUses > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
-                {remainingUses}/{MAX_DAILY_USES}
+              <span className={`font-bold ${!quotaExceeded ? 'text-emerald-600' : 'text-red-500'}`}>
+                {!usage ? '-' : remainingUses === null ? '無制限' : `${remainingUses}/${usage.limit.calls}`}
               </span>
             </div>
           </div>
@@ -221,7 +990,7 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
               <div className="p-3 bg-gray-50 rounded-lg">
                 <div className="text-emerald-600 font-bold text-xl mb-1">1</div>
-                <div className="text-xs text-gray-600">A1セルに指示を書く</div>
+                <div className="text-xs text-gray-600">指示を書く（入力欄・「指示」シート・A1セル）</div>
               </div>
               <div className="p-3 bg-gray-50 rounded-lg">
                 <div className="text-emerald-600 font-bold text-xl mb-1">2</div>
@@ -234,28 +1003,107 @@ const App: React.FC = () => {
             </div>
           </div>
           
-          <div className={`bg-white rounded-xl shadow-sm border border-gray-200 p-6 ${remainingUses <= 0 ? 'opacity-75 grayscale' : ''}`}>
+          <SettingsPanel settings={llmSettings} onChange={handleLlmSettingsChange} disabled={isProcessing} />
+          <UsagePanel
+            settings={usageSettings}
+            onChange={handleUsageSettingsChange}
+            snapshot={usage}
+            error={usageError}
+            onRefresh={() => refreshUsage()}
+            disabled={isProcessing}
+          />
+          <SafetyPolicyPanel policy={safetyPolicy} onChange={handleSafetyPolicyChange} disabled={isProcessing} />
+          <PrivacyPanel
+            settings={privacySettings}
+            onChange={handlePrivacySettingsChange}
+            auditTrail={auditTrail}
+            redactions={[...vaultRef.current.byValue.values()]}
+            disabled={isProcessing}
+          />
+          <HelperPanel onRunTests={handleRunHelperTests} disabled={isProcessing} />
+          <RecipePanel
+            recipes={recipes}
+            activeRecipeId={activeRecipe?.id ?? null}
+            onApply={handleApplyRecipe}
+            onDelete={handleDeleteRecipe}
+            onExport={handleExportRecipes}
+            onImport={handleImportRecipes}
+            canSave={status === AppStatus.COMPLETED && completedRun !== null && !stage?.recipe}
+            defaultName={`${baseName(inputFile?.name, 'レシピ')} の編集`}
+            onSave={handleSaveRecipe}
+            disabled={isProcessing || batchPhase !== 'idle'}
+          />
+          <BatchPanel
+            jobs={batchJobs}
+            phase={batchPhase}
+            scriptSource={activeRecipe ? `レシピ「${activeRecipe.name}」` : '1件目のファイルで生成したコード'}
+            onAddFiles={handleBatchAddFiles}
+            onClear={() => setBatchJobs([])}
+            onStart={handleBatchStart}
+            onCancel={handleBatchCancel}
+            onDownload={handleBatchDownload}
+            disabled={isProcessing}
+            busy={isExporting}
+          />
+          <HistoryPanel
+            jobs={jobHistory}
+            onDownloadOutput={handleHistoryDownload}
+            onDownloadLogs={handleHistoryLogs}
+            onCopyCode={handleHistoryCopyCode}
+            onRerun={handleHistoryRerun}
+            onDelete={handleHistoryDelete}
+            disabled={isProcessing || batchPhase !== 'idle'}
+          />
+
+          <div className={`bg-white rounded-xl shadow-sm border border-gray-200 p-6 ${uploadBlocked ? 'opacity-75 grayscale' : ''}`}>
             <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
               <Upload className="w-5 h-5 text-emerald-600" />
               ファイルをアップロード
             </h2>
             <div 
-              className={`border-2 border-dashed rounded-lg p-10 text-center transition-all ${remainingUses <= 0 ? 'bg-gray-100 cursor-not-allowed border-gray-300' : isProcessing ? 'bg-gray-50 cursor-wait border-emerald-300' : 'hover:bg-emerald-50 hover:border-emerald-400 border-gray-300 cursor-pointer'}`}
-              onClick={() => !isProcessing && remainingUses > 0 && fileInputRef.current?.click()}
+              className={`border-2 border-dashed rounded-lg p-10 text-center transition-all ${uploadBlocked ? 'bg-gray-100 cursor-not-allowed border-gray-300' : isProcessing ? 'bg-gray-50 cursor-wait border-emerald-300' : 'hover:bg-emerald-50 hover:border-emerald-400 border-gray-300 cursor-pointer'}`}
+              onClick={() => !isProcessing && !uploadBlocked && fileInputRef.current?.click()}
             >
-              <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".xlsx" className="hidden" disabled={isProcessing || remainingUses <= 0} />
-              {isProcessing ? (
+              <input type="file" ref={fileInputRef} onChange={handleFileChange} accept={INPUT_ACCEPT} multiple className="hidden" disabled={isProcessing || uploadBlocked} />
+              {status === AppStatus.BOOTING_PYTHON ? (
+                <div className="flex flex-col items-center">
+                  <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin mb-3" />
+                  <span className="text-emerald-600 font-bold">Python環境を準備中...</span>
+                  {bootStep && (
+                    <div className="w-full max-w-[250px] mt-3 flex flex-col gap-1">
+                      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(bootStep.index + 1) / bootStep.total * 100}%` }} />
+                      </div>
+                      <span className="text-xs text-gray-500">{bootStep.index + 1}/{bootStep.total} {bootStep.label}</span>
+                    </div>
+                  )}
+                  <span className="text-xs text-gray-400 mt-2 text-center max-w-[250px]">初回はPython実行環境をダウンロードします。2回目以降はブラウザのキャッシュから読み込みます。</span>
+                </div>
+              ) : isProcessing ? (
                 <div className="flex flex-col items-center">
                   <RefreshCw className="w-12 h-12 text-emerald-500 animate-spin mb-3" />
                   <span className="text-emerald-600 font-bold">AI処理中...</span>
                   <span className="text-xs text-gray-400 mt-2 text-center max-w-[250px]">
-                    サーバーの負荷状況により時間がかかる場合があります。しばらくお待ちください。
+                    {status === AppStatus.PLANNING
+                      ? '作業計画を作成しています。確認後にコードを生成します。'
+                      : status === AppStatus.GENERATING_CODE || status === AppStatus.REPAIRING_CODE
+                      ? '受信中のコードはコードパネルに表示されます。'
+                      : 'サーバーの負荷状況により時間がかかる場合があります。しばらくお待ちください。'}
                   </span>
+                  {(status === AppStatus.EXECUTING_CODE || status === AppStatus.PLANNING || status === AppStatus.GENERATING_CODE || status === AppStatus.REPAIRING_CODE) && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleCancel(); }}
+                      className="mt-4 flex items-center gap-2 bg-white border border-red-300 text-red-600 hover:bg-red-50 text-sm font-bold py-1.5 px-4 rounded-lg shadow-sm transition-all active:scale-[0.98]"
+                    >
+                      <Square className="w-3.5 h-3.5 fill-red-600" />
+                      {status === AppStatus.EXECUTING_CODE ? '実行をキャンセル' : '生成をキャンセル'}
+                    </button>
+                  )}
                 </div>
-              ) : remainingUses <= 0 ? (
+              ) : uploadBlocked ? (
                 <div className="flex flex-col items-center">
                   <AlertCircle className="w-12 h-12 text-red-400 mb-2" />
-                  <span className="text-gray-600 font-medium">利用上限に達しました</span>
+                  <span className="text-gray-600 font-medium">{batchPhase !== 'idle' ? '一括処理の実行中です' : '利用上限に達しました'}</span>
                 </div>
               ) : (
                 <div className="flex flex-col items-center">
@@ -263,17 +1111,165 @@ const App: React.FC = () => {
                     <FileSpreadsheet className="w-8 h-8 text-emerald-600" />
                   </div>
                   <span className="text-gray-700 font-bold">クリックして Excelファイル を選択</span>
-                  <span className="text-xs text-gray-400 mt-2">対応形式: .xlsx (A1セルに日本語の指示を入力してください)</span>
+                  <span className="text-xs text-gray-400 mt-2">対応形式: .xlsx / .xlsm / .xls / .csv </span>
+                  <span className="text-xs text-gray-400">指示は下の入力欄、「指示」シート、A1セルのコメント、A1セルの順に読み取ります</span>
+                  <span className="text-xs text-gray-400">複数ファイルを選択すると、照合・統合などの処理ができます</span>
                 </div>
               )}
             </div>
+            {activeRecipe && (
+              <div className="mt-4 flex items-center justify-between gap-2 bg-emerald-50 border border-emerald-200 rounded px-3 py-2 text-xs text-emerald-800">
+                <span className="truncate">レシピ「{activeRecipe.name}」を適用します（AI呼び出し・利用回数の消費なし）</span>
+                <button onClick={() => setActiveRecipe(null)} disabled={isProcessing} className="flex items-center gap-1 shrink-0 text-emerald-700 hover:text-emerald-900">
+                  <X className="w-3 h-3" />
+                  解除
+                </button>
+              </div>
+            )}
+            <label className="mt-4 flex flex-col gap-1 text-xs text-gray-500">
+              指示（入力するとファイル内の指示より優先されます。CSVファイルの場合は必須）
+              <textarea
+                value={promptInstruction}
+                onChange={(e) => setPromptInstruction(e.target.value)}
+                disabled={isProcessing}
+                rows={3}
+                placeholder={"例: 金額列を税込に変換し、部署ごとの合計行を追加してください\n番号付きで複数行書くと、手順ごとに順番に実行します（1. … 2. …）"}
+                className="border border-gray-300 rounded px-2 py-1.5 text-sm text-gray-800 bg-white resize-y"
+              />
+            </label>
+            <div className="mt-4 flex flex-wrap items-center justify-end gap-4 text-xs text-gray-500">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={reviewMode}
+                  onChange={handleReviewModeChange}
+                  disabled={isProcessing}
+                  className="accent-emerald-600"
+                />
+                <ShieldCheck className="w-3.5 h-3.5 text-emerald-600" />
+                実行前にコードをレビュー
+              </label>
+              <label className="flex items-center gap-2" title="pandas で書き直さず、openpyxl でブックを開いたまま編集させます（書式・数式・グラフ・入力規則を保持）">
+                <input
+                  type="checkbox"
+                  checked={preserveFormatting}
+                  onChange={handlePreserveModeChange}
+                  disabled={isProcessing}
+                  className="accent-emerald-600"
+                />
+                <Paintbrush className="w-3.5 h-3.5 text-emerald-600" />
+                書式を保持して編集
+              </label>
+              <label className="flex items-center gap-2" title="AI が作業手順・対象の列・出力の形を示し、指示が曖昧な場合は質問します。確認後にコードを生成します">
+                <input
+                  type="checkbox"
+                  checked={planMode}
+                  onChange={handlePlanModeChange}
+                  disabled={isProcessing}
+                  className="accent-emerald-600"
+                />
+                <ClipboardList className="w-3.5 h-3.5 text-emerald-600" />
+                生成前に計画を確認
+              </label>
+              <label className="flex items-center gap-2">
+                <Wrench className="w-3.5 h-3.5 text-emerald-600" />
+                実行エラー時の自動修復:
+                <select
+                  value={maxRepairRounds}
+                  onChange={handleRepairRoundsChange}
+                  disabled={isProcessing}
+                  className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                >
+                  {REPAIR_ROUND_OPTIONS.map(n => (
+                    <option key={n} value={n}>{n === 0 ? '無効' : `最大 ${n} 回`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <Timer className="w-3.5 h-3.5 text-emerald-600" />
+                実行タイムアウト:
+                <select
+                  value={runTimeoutMs}
+                  onChange={handleRunTimeoutChange}
+                  disabled={isProcessing}
+                  className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                >
+                  {RUN_TIMEOUT_OPTIONS.map(ms => (
+                    <option key={ms} value={ms}>{ms / 1000} 秒</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <FileOutput className="w-3.5 h-3.5 text-emerald-600" />
+                出力形式:
+                <select
+                  value={outputFormat}
+                  onChange={handleOutputFormatChange}
+                  disabled={isExporting}
+                  className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                >
+                  {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormatChoice[]).map(format => (
+                    <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </label>
+              {showCsvEncoding && (
+                <label className="flex items-center gap-2">
+                  文字コード:
+                  <select
+                    value={csvEncoding}
+                    onChange={handleCsvEncodingChange}
+                    disabled={isExporting}
+                    className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                  >
+                    {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map(encoding => (
+                      <option key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
           </div>
 
-          {(a1Instruction || status === AppStatus.ERROR) && (
+          {pendingFiles && (
+            <div className="bg-white rounded-xl shadow-sm border border-emerald-200 p-6 flex flex-col gap-4">
+              <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+                <Files className="w-5 h-5 text-emerald-600" />
+                {pendingFiles.length} 個のファイルが選択されました
+              </h2>
+              <p className="text-xs text-gray-500">指示を読み取るメインファイルを選択してください。各ファイルは input_1.xlsx〜input_{pendingFiles.length}.xlsx として処理されます。</p>
+              <div className="flex flex-col gap-1">
+                {pendingFiles.map((file, index) => (
+                  <label key={index} className={`flex items-center gap-3 px-3 py-2 rounded border text-sm cursor-pointer ${index === primaryIndex ? 'border-emerald-400 bg-emerald-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                    <input type="radio" name="primary-file" checked={index === primaryIndex} onChange={() => setPrimaryIndex(index)} className="accent-emerald-600" />
+                    <span className="font-mono text-xs text-gray-400">input_{index + 1}.xlsx</span>
+                    <span className="truncate text-gray-700">{file.name}</span>
+                  </label>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={() => setPendingFiles(null)} className="flex items-center justify-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98]">
+                  <X className="w-4 h-4" />
+                  キャンセル
+                </button>
+                <button onClick={() => processFiles(pendingFiles, primaryIndex)} disabled={isProcessing} className="flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg shadow transition-all active:scale-[0.98] disabled:opacity-50">
+                  <Play className="w-4 h-4" />
+                  処理を開始
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(instructionPlan || status === AppStatus.ERROR) && (
             <div className={`bg-white rounded-xl shadow-sm border p-6 animate-in fade-in duration-300 ${status === AppStatus.ERROR ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}>
               <h2 className={`text-lg font-semibold mb-3 flex items-center gap-2 ${status === AppStatus.ERROR ? 'text-red-700' : 'text-gray-800'}`}>
                 {status === AppStatus.ERROR ? <AlertCircle className="w-5 h-5"/> : <FileText className="w-5 h-5 text-emerald-600" />}
                 {status === AppStatus.ERROR ? "エラーが発生しました" : "検出された指示"}
+                {status !== AppStatus.ERROR && instructionPlan && (
+                  <span className="text-[10px] font-medium bg-emerald-50 text-emerald-700 border border-emerald-200 px-2 py-0.5 rounded">
+                    {instructionPlan.sheetName ? `シート「${instructionPlan.sheetName}」` : INSTRUCTION_SOURCE_LABELS[instructionPlan.source]}
+                  </span>
+                )}
               </h2>
               {status === AppStatus.ERROR ? (
                 <div className="flex flex-col gap-4">
@@ -290,15 +1286,31 @@ const App: React.FC = () => {
                     </button>
                   )}
                 </div>
+              ) : instructionPlan && instructionPlan.steps.length > 1 ? (
+                <ol className="flex flex-col gap-1.5">
+                  {instructionPlan.steps.map((step, index) => {
+                    const done = stage !== null && (index < stage.index || (index === stage.index && status === AppStatus.COMPLETED));
+                    const active = stage !== null && index === stage.index && !done;
+                    return (
+                      <li key={index} className={`flex items-start gap-2 px-3 py-2 rounded border text-sm ${active ? 'border-amber-400 bg-amber-50' : done ? 'border-emerald-200 bg-emerald-50/50' : 'border-gray-200'}`}>
+                        <span className={`shrink-0 font-mono text-xs mt-0.5 ${done ? 'text-emerald-600' : active ? 'text-amber-600' : 'text-gray-400'}`}>
+                          {done ? <Check className="w-3.5 h-3.5" /> : <ListOrdered className="w-3.5 h-3.5" />}
+                        </span>
+                        <span className="font-mono text-xs text-gray-400 mt-0.5">{index + 1}.</span>
+                        <span className="text-gray-800 whitespace-pre-wrap">{step}</span>
+                      </li>
+                    );
+                  })}
+                </ol>
               ) : (
                 <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-r shadow-inner">
-                   <p className="text-gray-800 leading-relaxed font-medium italic">"{a1Instruction}"</p>
+                   <p className="text-gray-800 leading-relaxed font-medium italic whitespace-pre-wrap">"{instructionPlan?.steps[0]}"</p>
                 </div>
               )}
             </div>
           )}
 
-          {status === AppStatus.COMPLETED && (
+          {status === AppStatus.COMPLETED && outputs.length > 0 && (
             <div className="bg-emerald-600 rounded-xl shadow-lg p-6 animate-in zoom-in-95 duration-500">
               <div className="flex items-center gap-3 text-white mb-4">
                 <div className="bg-white/20 p-2 rounded-full">
@@ -309,35 +1321,127 @@ const App: React.FC = () => {
                   <p className="text-emerald-100 text-sm">下記ボタンから保存してください</p>
                 </div>
               </div>
-              <button onClick={handleDownload} className="w-full bg-white text-emerald-700 hover:bg-emerald-50 font-bold py-4 px-4 rounded-lg shadow-md transition-all active:scale-[0.98] flex items-center justify-center gap-2">
-                <Download className="w-5 h-5" />
-                ファイルをダウンロード
-              </button>
+              {downloadBlocked ? (
+                <div className="bg-white rounded-lg p-4 flex flex-col gap-3 text-sm">
+                  <p className="text-amber-800 font-bold flex items-center gap-2">
+                    <AlertCircle className="w-4 h-4" />
+                    出力が {failedChecks.length} 件の検証項目を満たしていません
+                  </p>
+                  <ul className="text-xs text-gray-700 list-disc list-inside flex flex-col gap-0.5">
+                    {failedChecks.map((check, i) => <li key={i}>{formatAssertionResult(check)}</li>)}
+                  </ul>
+                  <button onClick={() => setDownloadUnlocked(true)} className="flex items-center justify-center gap-2 bg-amber-500 hover:bg-amber-600 text-white font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98]">
+                    <Download className="w-4 h-4" />
+                    内容を確認したうえでダウンロードする
+                  </button>
+                </div>
+              ) : outputs.length === 1 ? (
+                <button onClick={() => handleDownload(outputs[0])} disabled={isExporting} className="w-full bg-white text-emerald-700 hover:bg-emerald-50 font-bold py-4 px-4 rounded-lg shadow-md transition-all active:scale-[0.98] flex items-center justify-center gap-2">
+                  <Download className="w-5 h-5" />
+                  ファイルをダウンロード
+                </button>
+              ) : (
+                <div className="flex flex-col gap-2">
+                  {outputs.map(output => (
+                    <button key={output.name} onClick={() => handleDownload(output)} className="w-full bg-white/90 text-emerald-700 hover:bg-white text-sm font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98] flex items-center justify-between gap-2">
+                      <span className="truncate">{outputDownloadName(inputFile?.name, replaceExtension(output.name, targetFormat))}</span>
+                      <Download className="w-4 h-4 shrink-0" />
+                    </button>
+                  ))}
+                  <button onClick={handleDownloadZip} disabled={isExporting} className="w-full bg-white text-emerald-700 hover:bg-emerald-50 font-bold py-3 px-4 rounded-lg shadow-md transition-all active:scale-[0.98] flex items-center justify-center gap-2">
+                    <Archive className="w-5 h-5" />
+                    ZIPでまとめてダウンロード
+                  </button>
+                </div>
+              )}
             </div>
           )}
+
+          {status === AppStatus.COMPLETED && workbookDiff && (
+            <DiffReport
+              diff={workbookDiff}
+              onDownloadCsv={handleDownloadDiffCsv}
+              onDownloadWithSheet={handleDownloadWithChangeLog}
+              busy={isExporting || downloadBlocked}
+            />
+          )}
+
+          {runSummary && !isProcessing && <RunSummary metrics={runSummary} />}
         </div>
 
         <div className="flex flex-col gap-6 h-full min-h-[500px]">
-          <Terminal logs={logs} className="flex-1 shadow-md" />
-          {generatedCode && (
-            <div className="bg-slate-900 rounded-xl shadow-xl border border-slate-700 overflow-hidden flex flex-col max-h-[350px]">
-              <div className="bg-slate-800 px-4 py-3 flex items-center justify-between border-b border-slate-700">
-                <span className="text-slate-300 text-xs font-mono font-bold flex items-center gap-2">
-                  <Play className="w-3 h-3 text-emerald-400 fill-emerald-400" />
-                  生成コード
-                </span>
-                <span className="text-[10px] bg-emerald-500/10 text-emerald-400 px-2 py-0.5 rounded border border-emerald-500/20 font-bold">Gemini 3 Flash</span>
+          <Terminal
+            logs={logs}
+            className="flex-1 shadow-md"
+            context={{ llm: describeLlm(llmSettings), settings: { reviewMode, preserveFormatting, planMode, privacyMode: privacySettings.mode, maxRepairRounds, runTimeoutMs, outputFormat, csvEncoding } }}
+          />
+          {pendingPayload && (
+            <PayloadReview
+              payload={pendingPayload.payload}
+              onSend={() => pendingPayload.resolve(true)}
+              onCancel={() => pendingPayload.resolve(false)}
+            />
+          )}
+          {status === AppStatus.AWAITING_PLAN && planReview && (
+            <PlanReview
+              draft={planReview.draft}
+              answers={planReview.answers}
+              label={stageLabel(toInstruction(planReview.stage))}
+              onAnswer={handlePlanAnswer}
+              onConfirm={handlePlanConfirm}
+              onReject={handlePlanReject}
+            />
+          )}
+          {codeAttempts.length > 0 && (
+            <CodePanel
+              attempts={codeAttempts}
+              badge={describeLlm(llmSettings)}
+              editable={status === AppStatus.AWAITING_APPROVAL || canRerun}
+              draft={draftCode}
+              onDraftChange={setDraftCode}
+            />
+          )}
+          {status === AppStatus.AWAITING_APPROVAL && (
+            <div className="bg-amber-50 border border-amber-300 rounded-xl p-4 flex flex-col gap-3">
+              <p className="text-sm text-amber-800 font-medium flex items-center gap-2">
+                <ShieldCheck className="w-4 h-4" />
+                コードはまだ実行されていません。内容を確認してください。
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={handleReject} className="flex items-center justify-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98]">
+                  <X className="w-4 h-4" />
+                  却下
+                </button>
+                <button onClick={handleApprove} className="flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg shadow transition-all active:scale-[0.98]">
+                  <Check className="w-4 h-4" />
+                  承認して実行
+                </button>
               </div>
-              <pre className="p-4 overflow-auto text-[11px] font-mono text-emerald-50/90 scrollbar-thin flex-1 bg-slate-900/50">
-                <code>{generatedCode}</code>
-              </pre>
             </div>
           )}
+          {canRerun && (
+            <button onClick={handleRerun} className="flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 text-white text-sm font-bold py-2 px-4 rounded-lg shadow transition-all active:scale-[0.98]">
+              <Play className="w-4 h-4" />
+              このコードで再実行（AI呼び出しなし）
+            </button>
+          )}
+          <AssertionChecklist attempts={latestAttempts(codeAttempts)} />
         </div>
       </main>
+
+      {inputMounts.length > 0 && (
+        <section className="max-w-6xl mx-auto w-full mt-6">
+          <PreviewPanel
+            input={inputMounts[0].file}
+            outputs={status === AppStatus.COMPLETED ? outputs : []}
+            mainOutputName={(outputs.find(o => o.name === OUTPUT_PATH) ?? outputs[0])?.name}
+            diff={workbookDiff}
+          />
+        </section>
+      )}
       
       <footer className="max-w-6xl mx-auto w-full mt-8 py-6 border-t border-gray-200 text-center text-gray-400 text-xs">
-        <p>© 2024 Excel Auto-Pilot Engineer | Powered by Gemini 3 Flash & Pyodide</p>
+        <p>© 2024 Excel Auto-Pilot Engineer | Powered by {describeLlm(llmSettings)} & Pyodide</p>
       </footer>
     </div>
   );
@@ -0,0 +1,27 @@
+import { createGenerateHandler } from '../server/generateHandler';
+import { createGeminiStream } from '../server/modelStreams';
+import { createFixedWindowLimiter } from '../server/rateLimit';
+import { GEMINI_MODELS } from '../services/llm';
+
+// Vercel の Serverless Function。API キーはサーバーの環境変数にのみ置き、クライアントのバンドルには含めない
+const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+
+// 既定ではアプリが扱う Gemini のモデルのみ許可する。GEMINI_ALLOWED_MODELS はその中から絞り込むためだけに使う
+const configuredModels = process.env.GEMINI_ALLOWED_MODELS?.split(',').map(m => m.trim()).filter(Boolean);
+const allowedModels = configuredModels ? GEMINI_MODELS.filter(m => configuredModels.includes(m)) : GEMINI_MODELS;
+
+const handler = createGenerateHandler({
+  stream: createGeminiStream(apiKey),
+  rateLimiter: createFixedWindowLimiter(Number(process.env.RATE_LIMIT_PER_MINUTE) || 10, 60_000),
+  allowedModels,
+});
+
+export const POST = async (request: Request): Promise<Response> => {
+  if (!apiKey) {
+    return new Response(JSON.stringify({ error: { code: 500, message: "サーバーに GEMINI_API_KEY が設定されていません。Vercelの環境変数を確認してください。" } }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  return handler(request);
+};
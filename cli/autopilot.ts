@@ -0,0 +1,445 @@
+import { parseArgs } from 'node:util';
+import { readFile, writeFile, mkdir, access } from 'node:fs/promises';
+import { basename, dirname, extname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { AppStatus, LogLevel, LogMeta } from '../types';
+import { createPipeline, PipelineEvent, PipelineResult, InputError, GenerationError, RunRejectedError } from '../services/pipeline';
+import { initPyodide, convertOutputs, runHelperTests, runSafetyCheckTests, setPythonHost, OutputFile, PythonExecutionError, SafetyViolationError, ExecutionCancelledError, DEFAULT_RUN_TIMEOUT_MS } from '../services/pyodideService';
+import { GenerationCancelledError } from '../services/geminiService';
+import { DEFAULT_LLM_SETTINGS, DEFAULT_MODELS, LlmSettings, ProviderId, setGeminiTransport } from '../services/llm';
+import { DEFAULT_SAFETY_POLICY } from '../services/safetyPolicy';
+import { PrivacyMode, createRedactionVault, formatPayloadSummary } from '../services/privacy';
+import { scriptRecipe } from '../services/recipes';
+import { formatAssertionResult } from '../services/assertions';
+import { CsvEncoding, OutputFormat, detectInputFormat, resolveOutputFormat, replaceExtension } from '../services/fileFormats';
+import { RUNTIME_DIR } from '../services/pyodideRuntime';
+import { outputDownloadName } from '../utils/download';
+import { createGenerateHandler } from '../server/generateHandler';
+import { createGeminiStream } from '../server/modelStreams';
+import { vendorPyodide } from '../server/vendorPyodide';
+import { createNodeHost } from './nodeHost';
+
+// 画面を使わずにパイプライン（読み込み → 生成 → 実行 → 出力）を実行する。定期実行のジョブやスクリプトから使う
+//   autopilot run input.xlsx --instruction "..." --out result.xlsx [--script saved.py] [--provider mock]
+//   autopilot self-test    同梱の Python ヘルパーと安全性チェックのテスト（npm test）
+
+// 失敗の種類ごとの終了コード
+export const EXIT_CODES = {
+  ok: 0,
+  unexpected: 1,
+  usage: 2,
+  input: 3,
+  runtime: 4,
+  generation: 5,
+  execution: 6,
+  policy: 7,
+  checks: 8,
+  tests: 9,
+  cancelled: 130,
+} as const;
+
+type ExitKind = keyof typeof EXIT_CODES;
+
+const USAGE = `使い方: autopilot run <入力ファイル...> [オプション]
+        autopilot self-test [--runtime <dir>] [--log-format <format>]
+
+  --instruction <text>      指示（省略時はファイル内の「指示」シート・A1セルを使う）
+  --out <path>              出力先。拡張子で形式を決める（省略時は <入力名>_編集済み.<形式>）
+  --script <path>           AI を呼び出さずにこのスクリプトを実行する（複数指定で手順ごと）
+  --save-script <path>      完了したスクリプトを保存する（複数手順は <名前>_2.py ...）
+  --primary <n>             メインファイルの番号（0 始まり、既定 0）
+  --provider <id>           gemini | openai | mock（既定 gemini）
+  --model <name>            モデル名
+  --endpoint <url>          gemini: /api/generate の URL（省略時は GEMINI_API_KEY でプロセス内から呼び出す）
+                            openai: OpenAI 互換サーバーの URL
+  --api-key <key>           openai の API キー（省略時は OPENAI_API_KEY）
+  --repair-rounds <n>       自動修復の最大回数（既定 3）
+  --timeout <seconds>       1 回の実行の制限時間（既定 ${DEFAULT_RUN_TIMEOUT_MS / 1000}）
+  --preserve-formatting     書式を保持して編集する
+  --privacy <mode>          off | redact | strict（既定 redact）
+  --csv-encoding <enc>      CSV 出力の文字コード utf-8-sig | utf-8 | cp932（既定 utf-8-sig）
+  --allow-failed-checks     出力の検証に失敗しても出力を書き出し、終了コード 0 とする
+  --runtime <dir>           Pyodide の取得先（既定: このパッケージの public/）
+  --log-format <format>     text | json（json は 1 行 1 イベント）
+
+終了コード: 0 成功 / 1 予期しないエラー / 2 引数の誤り / 3 入力 / 4 Python 実行環境の起動 /
+            5 コード生成 / 6 実行 / 7 安全性チェック / 8 出力の検証 / 9 セルフテストの失敗 / 130 中断`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Python 実行環境を起動できなかった
+class RuntimeBootError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuntimeBootError';
+  }
+}
+
+const LEVEL_LABELS: Record<LogLevel, string> = {
+  info: 'INFO',
+  success: 'OK',
+  warning: 'WARN',
+  error: 'ERROR',
+  code: 'CODE',
+};
+
+type LogFormat = 'text' | 'json';
+
+// text は人が読む形式、json は 1 行 1 オブジェクト（type: log / status / usage / output / tests / result）
+const createLogger = (format: LogFormat) => {
+  const write = (line: string) => process.stdout.write(`${line}\n`);
+  const record = (type: string, fields: Record<string, unknown>) => {
+    if (format === 'json') write(JSON.stringify({ type, time: new Date().toISOString(), ...fields }));
+  };
+  return {
+    log: (message: string, level: LogLevel = 'info', meta: LogMeta = {}) => {
+      if (format === 'json') {
+        record('log', { level, source: meta.source ?? 'app', message, ...(meta.payload ? { payload: meta.payload } : {}) });
+        return;
+      }
+      const time = new Date().toLocaleTimeString('ja-JP', { hour12: false });
+      const prefix = `${time} ${LEVEL_LABELS[level].padEnd(5)} ${meta.source ?? 'app'}:`;
+      write(message.split('\n').map((line, i) => i === 0 ? `${prefix} ${line}` : `${' '.repeat(prefix.length)} ${line}`).join('\n'));
+      if (meta.payload?.traceback) write(meta.payload.traceback);
+    },
+    record,
+  };
+};
+
+type Logger = ReturnType<typeof createLogger>;
+
+interface RuntimeArgs {
+  runtimeDir: string;
+  logFormat: LogFormat;
+}
+
+interface RunArgs extends RuntimeArgs {
+  inputs: string[];
+  instruction: string;
+  out?: string;
+  scripts: string[];
+  saveScript?: string;
+  primary: number;
+  llm: LlmSettings;
+  // gemini の /api/generate の URL
+  endpoint?: string;
+  maxRepairRounds: number;
+  runTimeoutMs: number;
+  preserveFormatting: boolean;
+  privacy: PrivacyMode;
+  csvEncoding: CsvEncoding;
+  allowFailedChecks: boolean;
+}
+
+const oneOf = <T extends string>(name: string, value: string | undefined, choices: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) throw new UsageError(`--${name} には ${choices.join(' | ')} のいずれかを指定してください。`);
+  return value as T;
+};
+
+const integer = (name: string, value: string | undefined, fallback: number, min: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) throw new UsageError(`--${name} には ${min} 以上の整数を指定してください。`);
+  return parsed;
+};
+
+// 既定の Pyodide の取得先。ビルド後は dist-cli/ の隣の public/（npm run dev と同じ場所）
+const defaultRuntimeDir = () => resolve(dirname(fileURLToPath(import.meta.url)), '..', 'public');
+
+const parseRunArgs = (argv: string[]): RunArgs => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        instruction: { type: 'string' },
+        out: { type: 'string' },
+        script: { type: 'string', multiple: true },
+        'save-script': { type: 'string' },
+        primary: { type: 'string' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        endpoint: { type: 'string' },
+        'api-key': { type: 'string' },
+        'repair-rounds': { type: 'string' },
+        timeout: { type: 'string' },
+        'preserve-formatting': { type: 'boolean' },
+        privacy: { type: 'string' },
+        'csv-encoding': { type: 'string' },
+        'allow-failed-checks': { type: 'boolean' },
+        runtime: { type: 'string' },
+        'log-format': { type: 'string' },
+      },
+    });
+  } catch (e: any) {
+    throw new UsageError(e.message);
+  }
+  const { values, positionals } = parsed;
+  if (positionals.length === 0) throw new UsageError("入力ファイルを指定してください。");
+
+  const provider = oneOf<ProviderId>('provider', values.provider, ['gemini', 'openai', 'mock'], 'gemini');
+  const primary = integer('primary', values.primary, 0, 0);
+  if (primary >= positionals.length) throw new UsageError(`--primary は ${positionals.length - 1} 以下にしてください。`);
+
+  return {
+    inputs: positionals.map(p => resolve(p)),
+    instruction: values.instruction ?? '',
+    out: values.out && resolve(values.out),
+    scripts: (values.script ?? []).map(p => resolve(p)),
+    saveScript: values['save-script'] && resolve(values['save-script']),
+    primary,
+    llm: {
+      ...DEFAULT_LLM_SETTINGS,
+      provider,
+      model: values.model ?? DEFAULT_MODELS[provider],
+      endpoint: values.endpoint ?? DEFAULT_LLM_SETTINGS.endpoint,
+      apiKey: values['api-key'] ?? process.env.OPENAI_API_KEY ?? '',
+    },
+    endpoint: values.endpoint,
+    maxRepairRounds: integer('repair-rounds', values['repair-rounds'], 3, 0),
+    runTimeoutMs: integer('timeout', values.timeout, DEFAULT_RUN_TIMEOUT_MS / 1000, 1) * 1000,
+    preserveFormatting: values['preserve-formatting'] ?? false,
+    privacy: oneOf<PrivacyMode>('privacy', values.privacy, ['off', 'redact', 'strict'], 'redact'),
+    csvEncoding: oneOf<CsvEncoding>('csv-encoding', values['csv-encoding'], ['utf-8-sig', 'utf-8', 'cp932'], 'utf-8-sig'),
+    allowFailedChecks: values['allow-failed-checks'] ?? false,
+    runtimeDir: values.runtime ? resolve(values.runtime) : defaultRuntimeDir(),
+    logFormat: oneOf<LogFormat>('log-format', values['log-format'], ['text', 'json'], 'text'),
+  };
+};
+
+const parseSelfTestArgs = (argv: string[]): RuntimeArgs => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        runtime: { type: 'string' },
+        'log-format': { type: 'string' },
+      },
+    });
+  } catch (e: any) {
+    throw new UsageError(e.message);
+  }
+  const { values } = parsed;
+  return {
+    runtimeDir: values.runtime ? resolve(values.runtime) : defaultRuntimeDir(),
+    logFormat: oneOf<LogFormat>('log-format', values['log-format'], ['text', 'json'], 'text'),
+  };
+};
+
+// Gemini はブラウザと同じく /api/generate の形式で呼び出す。URL の指定がなければプロセス内でハンドラーを動かす
+const configureGemini = (endpoint: string | undefined) => {
+  if (endpoint) {
+    setGeminiTransport((init) => fetch(endpoint, init));
+    return;
+  }
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!apiKey) throw new UsageError("--provider gemini には GEMINI_API_KEY か --endpoint が必要です。");
+  const handler = createGenerateHandler({ stream: createGeminiStream(apiKey) });
+  setGeminiTransport((init) => handler(new Request('http://localhost/api/generate', init)));
+};
+
+const bootRuntime = async (args: RuntimeArgs, logger: Logger) => {
+  const manifestPath = join(args.runtimeDir, RUNTIME_DIR, 'runtime-manifest.json');
+  const vendored = await access(manifestPath).then(() => true, () => false);
+  try {
+    if (!vendored) {
+      logger.log(`Python実行環境を ${args.runtimeDir} に取得します...`, 'info', { source: 'pyodide' });
+      await vendorPyodide({ publicDir: args.runtimeDir, log: (msg) => logger.log(msg, 'info', { source: 'pyodide' }) });
+    }
+    setPythonHost(createNodeHost(args.runtimeDir));
+    await initPyodide((msg) => logger.log(msg, 'info', { source: 'pyodide' }));
+  } catch (e: any) {
+    throw new RuntimeBootError(`Python実行環境を起動できませんでした: ${e.message}`);
+  }
+  logger.log("Python環境の準備が完了しました。", 'success', { source: 'pyodide' });
+};
+
+// 出力先の形式は --out の拡張子、なければ入力の形式から決める（画面の「自動」と同じ）
+const writeOutputs = async (args: RunArgs, result: PipelineResult, logger: Logger): Promise<string[]> => {
+  const primaryInput = args.inputs[args.primary];
+  const inputFormat = detectInputFormat(primaryInput) ?? 'xlsx';
+  const requested = args.out ? detectInputFormat(args.out) : null;
+  const format: OutputFormat = resolveOutputFormat(requested && requested !== 'xls' ? requested : 'auto', inputFormat);
+
+  let outputs: OutputFile[] = result.outputs;
+  if (format !== 'xlsx') {
+    logger.log(`出力を ${format} に変換しています...`, 'info');
+    const vbaSource = format === 'xlsm' ? new Blob([await readFile(primaryInput)]) : undefined;
+    outputs = await convertOutputs(outputs, format, { encoding: args.csvEncoding, vbaSource }, (msg) => logger.log(msg, 'warning', { source: 'pyodide' }));
+  }
+
+  // メインの出力は --out に、それ以外は同じディレクトリに <出力先の名前>_<出力名> で書き出す
+  const mainPath = args.out ?? join(dirname(primaryInput), outputDownloadName(basename(primaryInput), replaceExtension('output.xlsx', format)));
+  const paths = outputs.map((output, i) => i === 0 ? mainPath : join(dirname(mainPath), outputDownloadName(basename(mainPath), output.name)));
+  await mkdir(dirname(mainPath), { recursive: true });
+  for (const [i, output] of outputs.entries()) {
+    await writeFile(paths[i], new Uint8Array(await output.blob.arrayBuffer()));
+    logger.log(`${output.name} を ${paths[i]} に書き出しました。`, 'success');
+    logger.record('output', { name: output.name, path: paths[i] });
+  }
+  return paths;
+};
+
+const saveScripts = async (path: string, scripts: string[], logger: Logger) => {
+  const extension = extname(path) || '.py';
+  const stem = path.slice(0, path.length - extname(path).length);
+  for (const [i, script] of scripts.entries()) {
+    const target = i === 0 ? path : `${stem}_${i + 1}${extension}`;
+    await writeFile(target, script);
+    logger.log(`スクリプトを ${target} に保存しました。`, 'info');
+  }
+};
+
+// SafetyViolationError は PythonExecutionError の派生のため先に判定する
+const classifyError = (e: unknown): ExitKind => {
+  if (e instanceof UsageError) return 'usage';
+  if (e instanceof ExecutionCancelledError || e instanceof GenerationCancelledError || e instanceof RunRejectedError) return 'cancelled';
+  if (e instanceof InputError) return 'input';
+  if (e instanceof RuntimeBootError) return 'runtime';
+  if (e instanceof GenerationError) return 'generation';
+  if (e instanceof SafetyViolationError) return 'policy';
+  if (e instanceof PythonExecutionError) return 'execution';
+  return 'unexpected';
+};
+
+const run = async (args: RunArgs, logger: Logger, signal: AbortSignal): Promise<ExitKind> => {
+  if (args.llm.provider === 'gemini' && args.scripts.length === 0) configureGemini(args.endpoint);
+  const files = await Promise.all(args.inputs.map(async (path) => {
+    try {
+      return new File([await readFile(path)], basename(path));
+    } catch (e: any) {
+      throw new InputError(`${path} を読み込めませんでした: ${e.message}`);
+    }
+  }));
+  const scripts = await Promise.all(args.scripts.map(async (path) => {
+    try {
+      return await readFile(path, 'utf-8');
+    } catch (e: any) {
+      throw new UsageError(`${path} を読み込めませんでした: ${e.message}`);
+    }
+  }));
+  const recipe = scripts.length > 0
+    ? scriptRecipe(basename(args.scripts[0]), scripts, args.instruction || `${basename(args.scripts[0])} を実行`, files.length)
+    : null;
+
+  await bootRuntime(args, logger);
+
+  const onEvent = (event: PipelineEvent) => {
+    switch (event.type) {
+      case 'log':
+        logger.log(event.message, event.level, event.meta);
+        break;
+      case 'status':
+        logger.record('status', { status: event.status });
+        break;
+      case 'usage':
+        logger.record('usage', { kind: event.kind, usage: event.usage ?? null });
+        break;
+    }
+  };
+  const pipeline = createPipeline({
+    llm: args.llm,
+    safetyPolicy: DEFAULT_SAFETY_POLICY,
+    privacy: { mode: args.privacy, vault: createRedactionVault() },
+    maxRepairRounds: args.maxRepairRounds,
+    runTimeoutMs: args.runTimeoutMs,
+    preserveFormatting: args.preserveFormatting,
+    signal,
+  }, {
+    onEvent,
+    onPayload: async (payload) => {
+      logger.log(formatPayloadSummary(payload), 'info', { source: 'llm' });
+      return true;
+    },
+  });
+
+  const result = await pipeline.run(files, args.primary, { instruction: args.instruction, recipe });
+  if (args.saveScript) await saveScripts(args.saveScript, result.run.scripts, logger);
+  if (result.failedChecks.length > 0) {
+    result.failedChecks.forEach(check => logger.log(`[検証] ${formatAssertionResult(check)}`, 'error'));
+    if (!args.allowFailedChecks) {
+      logger.log("出力が検証項目を満たしていないため、書き出しませんでした（--allow-failed-checks で書き出します）。", 'error');
+      return 'checks';
+    }
+  }
+  await writeOutputs(args, result, logger);
+  return 'ok';
+};
+
+// ヘルパーパネルの「セルフテストを実行」と同じテストと、安全性チェックの回帰テストを画面なしで実行する
+const selfTest = async (args: RuntimeArgs, logger: Logger): Promise<ExitKind> => {
+  await bootRuntime(args, logger);
+  logger.log("Python ヘルパーのセルフテストを実行しています...", 'info', { source: 'pyodide' });
+  const report = await runHelperTests();
+  const failed = report.failures.length;
+  if (report.output) logger.log(report.output.trimEnd(), 'info', { source: 'python' });
+  logger.log(`Python ヘルパー v${report.version} のセルフテスト: ${report.testsRun} 件中 ${report.testsRun - failed} 件成功`, failed > 0 ? 'error' : 'success', { source: 'python' });
+  report.failures.forEach(f => logger.log(`失敗: ${f.test}`, 'error', { source: 'python', payload: { traceback: f.traceback } }));
+  logger.record('tests', { suite: 'helper', version: report.version, testsRun: report.testsRun, failures: failed, skipped: report.skipped });
+
+  logger.log("安全性チェックのテストを実行しています...", 'info', { source: 'pyodide' });
+  const checks = await runSafetyCheckTests();
+  logger.log(`安全性チェックのテスト: ${checks.testsRun} 件中 ${checks.testsRun - checks.failures.length} 件成功`, checks.failures.length > 0 ? 'error' : 'success', { source: 'python' });
+  checks.failures.forEach(f => logger.log(
+    `失敗: ${f.test}（期待: ${f.expected.join(', ') || '違反なし'} / 検出: ${f.actual.map(v => `L${v.line} [${v.rule}] ${v.message}`).join(' / ') || '違反なし'}）`,
+    'error',
+    { source: 'python' },
+  ));
+  logger.record('tests', { suite: 'safety-check', testsRun: checks.testsRun, failures: checks.failures.length });
+
+  return failed > 0 || checks.failures.length > 0 ? 'tests' : 'ok';
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+  let args: RuntimeArgs;
+  let task: (logger: Logger, signal: AbortSignal) => Promise<ExitKind>;
+  try {
+    if (command === 'run') {
+      const runArgs = parseRunArgs(rest);
+      args = runArgs;
+      task = (logger, signal) => run(runArgs, logger, signal);
+    } else if (command === 'self-test') {
+      const testArgs = parseSelfTestArgs(rest);
+      args = testArgs;
+      task = (logger) => selfTest(testArgs, logger);
+    } else {
+      throw new UsageError(`不明なコマンドです: ${command}`);
+    }
+  } catch (e: any) {
+    process.stderr.write(`${e.message}\n\n${USAGE}\n`);
+    return EXIT_CODES.usage;
+  }
+
+  const logger = createLogger(args.logFormat);
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    logger.log("中断しています...", 'warning');
+    controller.abort();
+  });
+
+  let kind: ExitKind;
+  try {
+    kind = await task(logger, controller.signal);
+  } catch (e: any) {
+    kind = controller.signal.aborted ? 'cancelled' : classifyError(e);
+    logger.log(e?.message ?? String(e), 'error', e?.traceback ? { payload: { traceback: e.traceback } } : {});
+  }
+  logger.record('result', { status: kind === 'ok' ? AppStatus.COMPLETED : AppStatus.ERROR, exit: kind, code: EXIT_CODES[kind] });
+  return EXIT_CODES[kind];
+};
+
+// 待機中の Python ワーカーが残るため、明示的に終了する
+main(process.argv.slice(2)).then(code => process.exit(code));
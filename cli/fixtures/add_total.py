@@ -0,0 +1,6 @@
+import pandas as pd
+
+df = pd.read_excel("input.xlsx")
+df["金額"] = df["数量"] * df["単価"]
+df.to_excel("output.xlsx", index=False)
+print(f"{len(df)} 行に金額を追加しました。")
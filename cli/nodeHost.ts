@@ -0,0 +1,26 @@
+import { Worker } from 'node:worker_threads';
+import { join } from 'node:path';
+import { PythonHost, PythonWorker } from '../services/pyodideService';
+import { RUNTIME_DIR } from '../services/pyodideRuntime';
+import { toTransferList } from './transfer';
+
+// worker_threads のワーカーを、pyodideService が扱う Web Worker と同じ形に包む。
+// publicDir は vendorPyodide で Pyodide を取得した先（その下の RUNTIME_DIR を使う）
+export const createNodeHost = (publicDir: string): PythonHost => ({
+  createWorker: () => {
+    const worker = new Worker(new URL('./pyodide-worker.js', import.meta.url));
+    const handle: PythonWorker = {
+      postMessage: (message, transfer) => worker.postMessage(message, toTransferList(transfer)),
+      onmessage: null,
+      onerror: null,
+      terminate: () => {
+        worker.terminate();
+      },
+    };
+    worker.on('message', (data) => handle.onmessage?.({ data }));
+    worker.on('error', (error: Error) => handle.onerror?.({ message: error.message }));
+    return handle;
+  },
+  // Node の Pyodide は配置先を URL ではなくファイルシステムのパスで受け取る
+  indexURL: () => join(publicDir, RUNTIME_DIR).replace(/\/?$/, '/'),
+});
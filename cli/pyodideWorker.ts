@@ -0,0 +1,31 @@
+import { parentPort } from 'node:worker_threads';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { WorkerRequest } from '../services/pyodideProtocol';
+import { servePyodide } from '../services/pyodideEngine';
+import { toTransferList } from './transfer';
+
+// Node の worker_threads 上で Pyodide を動かす（ブラウザの services/pyodide.worker.ts に相当）。
+// Pyodide の配置先はファイルシステムのパスのため、runtime-manifest.json や同梱のホイールを読めるよう fetch をパスと file: URL に対応させる
+
+if (!parentPort) throw new Error("pyodideWorker は worker_threads から起動してください。");
+const port = parentPort;
+
+// Pyodide がコンソールに出すメッセージ（パッケージの読み込み等）は、stdout のログ（JSON 行）に混ざらないよう stderr に出す
+console.log = console.info = console.debug = console.error;
+
+const networkFetch = globalThis.fetch;
+globalThis.fetch = async (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (!url.startsWith('file:') && !url.startsWith('/')) return networkFetch(input, init);
+  try {
+    return new Response(await readFile(url.startsWith('file:') ? fileURLToPath(url) : url));
+  } catch (e) {
+    return new Response(null, { status: 404 });
+  }
+};
+
+const handleRequest = servePyodide((message, transfer) => port.postMessage(message, toTransferList(transfer)));
+port.on('message', (request: WorkerRequest) => {
+  handleRequest(request);
+});
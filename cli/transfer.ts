@@ -0,0 +1,5 @@
+import type { Transferable as TransferListItem } from 'node:worker_threads';
+
+// Web Worker の転送リストを worker_threads の形にする。Pyodide とのやり取りで転送するのは ArrayBuffer のみ
+export const toTransferList = (transfer: readonly Transferable[] = []): TransferListItem[] =>
+  transfer.filter((item): item is ArrayBuffer => item instanceof ArrayBuffer);
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ListChecks, CheckCircle2, XCircle } from 'lucide-react';
+import { CodeAttempt } from '../types';
+import { ASSERTION_KIND_LABELS } from '../services/assertions';
+
+interface AssertionChecklistProps {
+  // 手順ごとに、検証を行った最後の試行
+  attempts: CodeAttempt[];
+}
+
+export const AssertionChecklist: React.FC<AssertionChecklistProps> = ({ attempts }) => {
+  const checked = attempts.filter(a => a.checks && a.checks.length > 0);
+  if (checked.length === 0) return null;
+  const checks = checked.flatMap(a => a.checks!);
+  const passed = checks.filter(c => c.passed).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-emerald-600" />
+          出力の検証
+        </h2>
+        <span className={`text-xs font-bold ${passed === checks.length ? 'text-emerald-700' : 'text-red-600'}`}>
+          {checks.length} 件中 {passed} 件合格
+        </span>
+      </div>
+      {checked.map(attempt => (
+        <div key={`${attempt.stage ?? 0}-${attempt.round}`} className="flex flex-col gap-1.5">
+          <span className="text-xs text-gray-500">
+            {attempt.stage !== undefined ? `手順${attempt.stage + 1} / ` : ''}試行 {attempt.round}
+          </span>
+          <ul className="flex flex-col gap-1">
+            {attempt.checks!.map((check, i) => (
+              <li key={i} className={`flex items-start gap-2 text-sm rounded px-3 py-1.5 ${check.passed ? 'bg-emerald-50' : 'bg-red-50'}`}>
+                {check.passed
+                  ? <CheckCircle2 className="w-4 h-4 text-emerald-600 shrink-0 mt-0.5" />
+                  : <XCircle className="w-4 h-4 text-red-600 shrink-0 mt-0.5" />}
+                <span className="flex flex-col">
+                  <span className="text-gray-800">
+                    {check.assertion.description}
+                    <span className="ml-2 text-[10px] text-gray-400">
+                      {check.assertion.sheet ? `${check.assertion.sheet} / ` : ''}{ASSERTION_KIND_LABELS[check.assertion.kind]}
+                    </span>
+                  </span>
+                  <span className={`text-xs ${check.passed ? 'text-gray-500' : 'text-red-700'}`}>{check.detail}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { Layers, ChevronDown, ChevronUp, FolderOpen, FilePlus, Play, Square, Archive, Trash2, RefreshCw } from 'lucide-react';
+import { BatchJob, BatchJobStatus, BATCH_STATUS_LABELS } from '../services/batch';
+import { INPUT_ACCEPT } from '../services/fileFormats';
+import { PickedFile, supportsDirectoryPicker, pickDirectoryFiles, fromDirectoryInput } from '../utils/fileSystem';
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  // 'sampling' は1件目のファイルでコードを生成・実行している段階
+  phase: 'idle' | 'sampling' | 'running';
+  // 使用するスクリプトの説明（レシピ名など）
+  scriptSource: string;
+  onAddFiles: (files: PickedFile[]) => void;
+  onClear: () => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onDownload: () => void;
+  disabled?: boolean;
+  busy?: boolean;
+}
+
+const STATUS_CLASSES: Record<BatchJobStatus, string> = {
+  pending: 'text-gray-500 bg-gray-100',
+  running: 'text-amber-700 bg-amber-100',
+  success: 'text-emerald-700 bg-emerald-100',
+  error: 'text-red-700 bg-red-100',
+  cancelled: 'text-gray-500 bg-gray-200',
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  jobs, phase, scriptSource, onAddFiles, onClear, onStart, onCancel, onDownload, disabled, busy,
+}) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const filesRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+
+  const running = phase !== 'idle';
+  const locked = disabled || running;
+  const counts = jobs.reduce((acc, job) => ({ ...acc, [job.status]: (acc[job.status] ?? 0) + 1 }), {} as Partial<Record<BatchJobStatus, number>>);
+  const finished = (counts.success ?? 0) + (counts.error ?? 0) + (counts.cancelled ?? 0);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, fromFolder: boolean) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length > 0) onAddFiles(fromFolder ? fromDirectoryInput(files) : files.map(file => ({ file, relativePath: file.name })));
+  };
+
+  // File System Access API が使えないブラウザでは webkitdirectory 付きの input にフォールバックする
+  const handlePickFolder = async () => {
+    if (!supportsDirectoryPicker()) {
+      folderRef.current?.click();
+      return;
+    }
+    const files = await pickDirectoryFiles();
+    if (files) onAddFiles(files);
+  };
+
+  const buttonClass = "flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 bg-white hover:bg-gray-50 text-gray-600 disabled:opacity-50";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-emerald-600" />
+          一括処理
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {jobs.length > 0 ? `${finished}/${jobs.length} 件完了` : '未選択'}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-4 text-sm">
+          <p className="text-xs text-gray-500">
+            同じ処理を複数のファイルに順番に適用します。使用するコード: <span className="font-bold text-gray-700">{scriptSource}</span>
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="file" ref={filesRef} onChange={e => handleInputChange(e, false)} accept={INPUT_ACCEPT} multiple className="hidden" />
+            <input type="file" ref={folderRef} onChange={e => handleInputChange(e, true)} multiple className="hidden" {...{ webkitdirectory: '' }} />
+            <button onClick={() => filesRef.current?.click()} disabled={locked} className={buttonClass}>
+              <FilePlus className="w-3 h-3" />
+              ファイルを追加
+            </button>
+            <button onClick={handlePickFolder} disabled={locked} className={buttonClass}>
+              <FolderOpen className="w-3 h-3" />
+              フォルダを選択
+            </button>
+            <button onClick={onClear} disabled={locked || jobs.length === 0} className={`${buttonClass} ml-auto`}>
+              <Trash2 className="w-3 h-3" />
+              クリア
+            </button>
+          </div>
+
+          {jobs.length > 0 && (
+            <div className="border border-gray-200 rounded max-h-80 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="text-left font-medium px-2 py-1.5 w-8">#</th>
+                    <th className="text-left font-medium px-2 py-1.5">ファイル</th>
+                    <th className="text-left font-medium px-2 py-1.5 w-16">状態</th>
+                    <th className="text-right font-medium px-2 py-1.5 w-16">時間</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map((job, index) => (
+                    <React.Fragment key={job.id}>
+                      <tr
+                        onClick={() => setExpanded(prev => prev === job.id ? null : job.id)}
+                        className="border-t border-gray-100 hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="px-2 py-1.5 text-gray-400 font-mono">{index + 1}</td>
+                        <td className="px-2 py-1.5 text-gray-700 truncate max-w-[220px]" title={job.relativePath}>{job.relativePath}</td>
+                        <td className="px-2 py-1.5">
+                          <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded ${STATUS_CLASSES[job.status]}`}>
+                            {job.status === 'running' && <RefreshCw className="w-2.5 h-2.5 animate-spin" />}
+                            {BATCH_STATUS_LABELS[job.status]}
+                          </span>
+                        </td>
+                        <td className="px-2 py-1.5 text-right text-gray-500 font-mono">
+                          {job.durationMs !== undefined ? `${(job.durationMs / 1000).toFixed(1)}s` : ''}
+                        </td>
+                      </tr>
+                      {expanded === job.id && (job.error || job.logs.length > 0) && (
+                        <tr className="bg-slate-900">
+                          <td colSpan={4} className="px-3 py-2 font-mono text-[10px] leading-relaxed whitespace-pre-wrap max-h-40 overflow-y-auto">
+                            {job.logs.map((line, i) => <div key={i} className="text-slate-300">{line}</div>)}
+                            {job.error && <div className="text-red-400">{job.error}</div>}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {running ? (
+              <button onClick={onCancel} className="flex items-center gap-1 bg-white border border-red-300 text-red-600 hover:bg-red-50 text-xs font-bold py-2 px-3 rounded">
+                <Square className="w-3 h-3 fill-red-600" />
+                一括処理を中止
+              </button>
+            ) : (
+              <button onClick={onStart} disabled={disabled || !counts.pending} className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold py-2 px-3 rounded disabled:opacity-50">
+                <Play className="w-3 h-3" />
+                {counts.pending ?? 0} 件を処理
+              </button>
+            )}
+            <button onClick={onDownload} disabled={running || busy || finished === 0} className={buttonClass}>
+              <Archive className="w-3 h-3" />
+              結果をZIPでダウンロード
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
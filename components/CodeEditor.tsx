@@ -0,0 +1,69 @@
+import React, { useMemo, useRef } from 'react';
+import { tokenizePython, PythonTokenType } from '../utils/pythonHighlight';
+
+interface CodeEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<PythonTokenType, string> = {
+  keyword: 'text-fuchsia-400',
+  builtin: 'text-sky-300',
+  string: 'text-amber-300',
+  comment: 'text-slate-500 italic',
+  number: 'text-orange-300',
+  decorator: 'text-yellow-300',
+  plain: 'text-emerald-50/90',
+};
+
+// 透明な textarea をハイライト済みの <pre> に重ねる軽量エディタ
+export const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly, className }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const tokens = useMemo(() => tokenizePython(value), [value]);
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || readOnly) return;
+    e.preventDefault();
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const next = value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd);
+    onChange?.(next);
+    const target = e.currentTarget;
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + 4;
+    });
+  };
+
+  const shared = "absolute inset-0 m-0 p-4 text-[11px] leading-[1.5] font-mono whitespace-pre overflow-auto";
+
+  return (
+    <div className={`relative min-h-[200px] ${className ?? ''}`}>
+      <pre ref={highlightRef} aria-hidden="true" className={`${shared} pointer-events-none`}>
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+          {/* 末尾の改行でも textarea と高さを揃える */}
+          {'\n'}
+        </code>
+      </pre>
+      <textarea
+        value={value}
+        onChange={e => onChange?.(e.target.value)}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        readOnly={readOnly}
+        spellCheck={false}
+        className={`${shared} scrollbar-thin bg-transparent text-transparent caret-emerald-300 resize-none outline-none`}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Play, GitCompare, ClipboardList } from 'lucide-react';
+import { CodeAttempt } from '../types';
+import { formatPlan } from '../services/taskPlan';
+import { CodeEditor } from './CodeEditor';
+
+interface CodePanelProps {
+  attempts: CodeAttempt[];
+  badge: string;
+  // editable の場合、最新の試行は draft を編集対象として表示する
+  editable?: boolean;
+  draft?: string;
+  onDraftChange?: (code: string) => void;
+}
+
+export const CodePanel: React.FC<CodePanelProps> = ({ attempts, badge, editable, draft, onDraftChange }) => {
+  const [selected, setSelected] = useState<number>(0);
+  const [showDiff, setShowDiff] = useState<boolean>(false);
+  const [showPlan, setShowPlan] = useState<boolean>(false);
+
+  // 新しい試行が追加されたら最新のものを表示する
+  useEffect(() => {
+    setSelected(Math.max(0, attempts.length - 1));
+  }, [attempts.length]);
+
+  const current = attempts[selected];
+  if (!current) return null;
+  const isEditing = !!editable && !current.streaming && selected === attempts.length - 1 && draft !== undefined;
+
+  return (
+    <div className={`bg-slate-900 rounded-xl shadow-xl border overflow-hidden flex flex-col h-[380px] ${isEditing ? 'border-amber-500/60' : 'border-slate-700'}`}>
+      <div className="bg-slate-800 px-4 py-3 flex items-center justify-between border-b border-slate-700">
+        <span className="text-slate-300 text-xs font-mono font-bold flex items-center gap-2">
+          <Play className="w-3 h-3 text-emerald-400 fill-emerald-400" />
+          生成コード
+          {isEditing && <span className="text-amber-400 font-normal">(編集可能)</span>}
+          {current.streaming && <span className="text-sky-400 font-normal animate-pulse">受信中...</span>}
+        </span>
+        <span className="flex items-center gap-2">
+          {current.plan && (
+            <button
+              onClick={() => setShowPlan(prev => !prev)}
+              className={`flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded border ${showPlan ? 'bg-sky-500/20 text-sky-300 border-sky-500/40' : 'text-slate-400 border-slate-600 hover:text-slate-200'}`}
+            >
+              <ClipboardList className="w-3 h-3" />
+              計画
+            </button>
+          )}
+          <span className="text-[10px] bg-emerald-500/10 text-emerald-400 px-2 py-0.5 rounded border border-emerald-500/20 font-bold">{badge}</span>
+        </span>
+      </div>
+      {attempts.length > 1 && (
+        <div className="bg-slate-800/60 px-4 py-2 flex items-center gap-2 border-b border-slate-700 overflow-x-auto">
+          {attempts.map((attempt, index) => (
+            <button
+              key={attempt.round}
+              onClick={() => setSelected(index)}
+              className={`text-[10px] font-mono px-2 py-0.5 rounded border ${index === selected ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' : 'text-slate-400 border-slate-600 hover:text-slate-200'} ${attempt.error ? 'line-through decoration-red-400' : ''}`}
+            >
+              {attempt.stage !== undefined ? `手順${attempt.stage + 1} ` : ''}試行 {attempt.round}{attempt.edited ? ' ✎' : ''}
+            </button>
+          ))}
+          {current.diff && (
+            <button
+              onClick={() => setShowDiff(prev => !prev)}
+              className={`ml-auto flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded border ${showDiff ? 'bg-sky-500/20 text-sky-300 border-sky-500/40' : 'text-slate-400 border-slate-600 hover:text-slate-200'}`}
+            >
+              <GitCompare className="w-3 h-3" />
+              差分
+            </button>
+          )}
+        </div>
+      )}
+      {showPlan && current.plan && (
+        <pre className="px-4 py-2 text-[10px] font-mono text-sky-200 bg-sky-950/40 border-b border-sky-900/50 max-h-[120px] overflow-auto scrollbar-thin whitespace-pre-wrap">
+          {formatPlan(current.plan)}
+        </pre>
+      )}
+      {current.error && (
+        <pre className="px-4 py-2 text-[10px] font-mono text-red-300 bg-red-950/40 border-b border-red-900/50 max-h-[80px] overflow-auto scrollbar-thin whitespace-pre-wrap">
+          {current.error}
+        </pre>
+      )}
+      {showDiff && current.diff ? (
+        <pre className="p-4 overflow-auto text-[11px] font-mono text-emerald-50/90 scrollbar-thin flex-1 bg-slate-900/50">
+          <code>
+            {current.diff.map((line, index) => (
+              <div
+                key={index}
+                className={line.type === 'add' ? 'bg-emerald-900/40 text-emerald-300' : line.type === 'remove' ? 'bg-red-900/40 text-red-300' : ''}
+              >
+                {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </code>
+        </pre>
+      ) : (
+        <CodeEditor
+          value={isEditing ? draft! : current.code}
+          onChange={isEditing ? onDraftChange : undefined}
+          readOnly={!isEditing}
+          className="flex-1 bg-slate-900/50"
+        />
+      )}
+    </div>
+  );
+};
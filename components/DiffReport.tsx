@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, FileDown, FileSpreadsheet, Search } from 'lucide-react';
+import { WorkbookDiff, CellChange } from '../services/pyodideProtocol';
+
+interface DiffReportProps {
+  diff: WorkbookDiff;
+  onDownloadCsv: () => void;
+  onDownloadWithSheet: () => void;
+  busy?: boolean;
+}
+
+export const CHANGE_KIND_LABELS: Record<CellChange['kind'], string> = {
+  value: '値',
+  formula: '数式',
+  style: '書式',
+};
+
+const KIND_CLASSES: Record<CellChange['kind'], string> = {
+  value: 'bg-sky-100 text-sky-700',
+  formula: 'bg-violet-100 text-violet-700',
+  style: 'bg-gray-100 text-gray-600',
+};
+
+const MAX_VISIBLE_ROWS = 500;
+
+export const DiffReport: React.FC<DiffReportProps> = ({ diff, onDownloadCsv, onDownloadWithSheet, busy }) => {
+  const [sheetFilter, setSheetFilter] = useState<string>('');
+  const [kindFilter, setKindFilter] = useState<CellChange['kind'] | ''>('');
+  const [query, setQuery] = useState<string>('');
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return diff.changes.filter(c =>
+      (!sheetFilter || c.sheet === sheetFilter) &&
+      (!kindFilter || c.kind === kindFilter) &&
+      (!q || `${c.cell} ${c.before} ${c.after}`.toLowerCase().includes(q))
+    );
+  }, [diff, sheetFilter, kindFilter, query]);
+
+  const resizedSheets = diff.sheets.filter(s => s.rowsBefore !== s.rowsAfter || s.colsBefore !== s.colsAfter);
+  const totalChanges = diff.totals.value + diff.totals.formula + diff.totals.style;
+  const sheetNames = Array.from(new Set(diff.changes.map(c => c.sheet)));
+
+  const summary = [
+    { label: '追加シート', value: diff.addedSheets.length },
+    { label: '削除シート', value: diff.removedSheets.length },
+    { label: '値の変更', value: diff.totals.value },
+    { label: '数式の変更', value: diff.totals.formula },
+    { label: '書式の変更', value: diff.totals.style },
+  ];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-emerald-600" />
+          変更内容
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={onDownloadCsv} disabled={busy || totalChanges === 0} className="flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 hover:bg-gray-50 disabled:opacity-50">
+            <FileDown className="w-3.5 h-3.5" />
+            CSV
+          </button>
+          <button onClick={onDownloadWithSheet} disabled={busy || totalChanges === 0} className="flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 hover:bg-gray-50 disabled:opacity-50">
+            <FileSpreadsheet className="w-3.5 h-3.5" />
+            変更履歴シート付き
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2 text-center">
+        {summary.map(item => (
+          <div key={item.label} className="bg-gray-50 rounded-lg p-2">
+            <div className="text-lg font-bold text-emerald-700">{item.value}</div>
+            <div className="text-[10px] text-gray-500">{item.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {(diff.addedSheets.length > 0 || diff.removedSheets.length > 0 || resizedSheets.length > 0) && (
+        <ul className="text-xs text-gray-600 flex flex-col gap-1">
+          {diff.addedSheets.map(name => <li key={`+${name}`}>＋ シート「{name}」が追加されました</li>)}
+          {diff.removedSheets.map(name => <li key={`-${name}`}>－ シート「{name}」が削除されました</li>)}
+          {resizedSheets.map(s => (
+            <li key={s.sheet}>
+              「{s.sheet}」: 行 {s.rowsBefore} → {s.rowsAfter} / 列 {s.colsBefore} → {s.colsAfter}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totalChanges === 0 ? (
+        <p className="text-sm text-gray-500">既存シートのセルに変更はありません。</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <select value={sheetFilter} onChange={e => setSheetFilter(e.target.value)} className="border border-gray-300 rounded px-2 py-1 bg-white">
+              <option value="">すべてのシート</option>
+              {sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <select value={kindFilter} onChange={e => setKindFilter(e.target.value as CellChange['kind'] | '')} className="border border-gray-300 rounded px-2 py-1 bg-white">
+              <option value="">すべての種類</option>
+              {(Object.keys(CHANGE_KIND_LABELS) as CellChange['kind'][]).map(kind => <option key={kind} value={kind}>{CHANGE_KIND_LABELS[kind]}</option>)}
+            </select>
+            <label className="flex-1 min-w-[120px] flex items-center gap-1 border border-gray-300 rounded px-2 py-1">
+              <Search className="w-3 h-3 text-gray-400" />
+              <input value={query} onChange={e => setQuery(e.target.value)} placeholder="セル・値で検索" className="flex-1 outline-none" />
+            </label>
+          </div>
+          <div className="max-h-[300px] overflow-auto border border-gray-200 rounded">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-500">
+                  <th className="px-2 py-1 font-medium">シート</th>
+                  <th className="px-2 py-1 font-medium">セル</th>
+                  <th className="px-2 py-1 font-medium">種類</th>
+                  <th className="px-2 py-1 font-medium">変更前 → 変更後</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.slice(0, MAX_VISIBLE_ROWS).map((c, index) => (
+                  <tr key={index} className="border-t border-gray-100 align-top">
+                    <td className="px-2 py-1 text-gray-600">{c.sheet}</td>
+                    <td className="px-2 py-1 font-mono">{c.cell}</td>
+                    <td className="px-2 py-1"><span className={`px-1.5 py-0.5 rounded ${KIND_CLASSES[c.kind]}`}>{CHANGE_KIND_LABELS[c.kind]}</span></td>
+                    <td className="px-2 py-1 break-all">
+                      <span className="text-red-600 line-through">{c.before || '(空)'}</span>
+                      {' → '}
+                      <span className="text-emerald-700">{c.after || '(空)'}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-gray-400">
+            {filtered.length} 件中 {Math.min(filtered.length, MAX_VISIBLE_ROWS)} 件を表示
+            {diff.truncated && `（全 ${totalChanges} 件のうち先頭 ${diff.changes.length} 件のみ取得しています）`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
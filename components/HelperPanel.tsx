@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Library, ChevronDown, ChevronUp, FlaskConical, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { HELPER_PACKAGE, HELPER_PACKAGE_VERSION, HELPER_API } from '../services/helperPackage';
+import { HelperTestReport } from '../services/pyodideProtocol';
+
+interface HelperPanelProps {
+  onRunTests: () => Promise<HelperTestReport>;
+  disabled?: boolean;
+}
+
+export const HelperPanel: React.FC<HelperPanelProps> = ({ onRunTests, disabled }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [running, setRunning] = useState<boolean>(false);
+  const [report, setReport] = useState<HelperTestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setReport(await onRunTests());
+    } catch (e: any) {
+      setReport(null);
+      setError(e.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const passed = report ? report.testsRun - report.failures.length : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <Library className="w-5 h-5 text-emerald-600" />
+          Python ヘルパー
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {HELPER_PACKAGE} v{HELPER_PACKAGE_VERSION}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-4 text-sm">
+          <p className="text-xs text-gray-500">
+            生成コードは <code className="font-mono">from {HELPER_PACKAGE} import ...</code> でこれらの関数を使います。
+          </p>
+          <ul className="flex flex-col gap-2">
+            {HELPER_API.map(f => (
+              <li key={f.signature} className="bg-gray-50 rounded px-3 py-2">
+                <div className="font-mono text-xs text-gray-800 break-all">{f.signature}</div>
+                <div className="text-xs text-gray-500 mt-0.5">{f.description}</div>
+              </li>
+            ))}
+          </ul>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-500">
+              {report && (
+                <span className={`flex items-center gap-1 ${report.failures.length > 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                  {report.failures.length > 0 ? <XCircle className="w-3.5 h-3.5" /> : <CheckCircle2 className="w-3.5 h-3.5" />}
+                  {report.testsRun} 件中 {passed} 件成功{report.skipped > 0 ? `（スキップ ${report.skipped} 件）` : ''}
+                </span>
+              )}
+              {error && <span className="text-red-600">{error}</span>}
+            </span>
+            <button
+              onClick={handleRun}
+              disabled={disabled || running}
+              className="flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 bg-white hover:bg-gray-50 text-gray-600 disabled:opacity-50"
+            >
+              {running ? <Loader2 className="w-3 h-3 animate-spin" /> : <FlaskConical className="w-3 h-3" />}
+              セルフテストを実行
+            </button>
+          </div>
+          {report && report.failures.length > 0 && (
+            <div className="flex flex-col gap-2">
+              {report.failures.map(f => (
+                <details key={f.test} className="border border-red-200 rounded bg-red-50">
+                  <summary className="px-3 py-1.5 text-xs text-red-700 cursor-pointer font-mono break-all">{f.test}</summary>
+                  <pre className="px-3 pb-2 text-[11px] text-red-800 whitespace-pre-wrap overflow-x-auto">{f.traceback}</pre>
+                </details>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
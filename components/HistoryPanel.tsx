@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { History, ChevronDown, ChevronUp, Download, Copy, Play, Trash2, FileText } from 'lucide-react';
+import { JobRecord, JobStatus, StoredFile, JOB_STATUS_LABELS, hasStoredInputs } from '../services/jobHistory';
+
+interface HistoryPanelProps {
+  jobs: JobRecord[];
+  onDownloadOutput: (job: JobRecord, output: StoredFile) => void;
+  onDownloadLogs: (job: JobRecord) => void;
+  onCopyCode: (job: JobRecord) => void;
+  onRerun: (job: JobRecord) => void;
+  onDelete: (job: JobRecord) => void;
+  disabled?: boolean;
+}
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  success: 'text-emerald-700 bg-emerald-100',
+  error: 'text-red-700 bg-red-100',
+  cancelled: 'text-gray-500 bg-gray-200',
+};
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  jobs, onDownloadOutput, onDownloadLogs, onCopyCode, onRerun, onDelete, disabled,
+}) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const buttonClass = "flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 bg-white hover:bg-gray-50 text-gray-600 disabled:opacity-50";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <History className="w-5 h-5 text-emerald-600" />
+          実行履歴
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {jobs.length} 件
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-2 text-sm">
+          {jobs.length === 0 ? (
+            <p className="text-xs text-gray-400">履歴はまだありません。</p>
+          ) : (
+            <ul className="flex flex-col gap-2 max-h-96 overflow-y-auto">
+              {jobs.map(job => {
+                const isOpen = expanded === job.id;
+                const instruction = job.plan ? job.plan.steps.join(' → ') : '(指示なし)';
+                return (
+                  <li key={job.id} className="border border-gray-200 rounded">
+                    <button onClick={() => setExpanded(isOpen ? null : job.id)} className="w-full px-3 py-2 flex flex-col gap-1 text-left hover:bg-gray-50">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-bold text-gray-800 truncate">{job.inputs.map(i => i.name).join(', ')}</span>
+                        <span className={`shrink-0 text-[10px] px-1.5 py-0.5 rounded ${STATUS_CLASSES[job.status]}`}>{JOB_STATUS_LABELS[job.status]}</span>
+                      </div>
+                      <span className="text-xs text-gray-600 truncate">{instruction}</span>
+                      <span className="text-[10px] text-gray-400">
+                        {new Date(job.startedAt).toLocaleString('ja-JP')} / {(job.durationMs / 1000).toFixed(1)} 秒 / {job.recipeName ? `レシピ「${job.recipeName}」` : job.model}
+                      </span>
+                    </button>
+                    {isOpen && (
+                      <div className="px-3 pb-3 flex flex-col gap-2 border-t border-gray-100 pt-2">
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[10px] text-gray-500">
+                          {job.inputs.map((input, i) => (
+                            <React.Fragment key={i}>
+                              <dt>{job.inputs.length > 1 ? `入力 ${i + 1}${i === job.primaryIndex ? ' (メイン)' : ''}` : '入力'}</dt>
+                              <dd className="font-mono break-all">{input.name} ({formatBytes(input.size)}) SHA-256: {input.hash.slice(0, 16)}…{input.blob ? '' : '（ファイル本体は保存されていません）'}</dd>
+                            </React.Fragment>
+                          ))}
+                        </dl>
+                        {job.error && (
+                          <pre className="text-[10px] text-red-600 bg-red-50 border border-red-100 rounded p-2 whitespace-pre-wrap max-h-32 overflow-y-auto">{job.error}</pre>
+                        )}
+                        {job.outputs.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {job.outputs.map(output => (
+                              <button key={output.name} onClick={() => onDownloadOutput(job, output)} disabled={!output.blob} className={buttonClass} title={output.blob ? undefined : '容量の上限により出力ファイルは保存されていません'}>
+                                <Download className="w-3 h-3" />
+                                {output.name}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          <button onClick={() => onCopyCode(job)} disabled={job.scripts.length === 0} className={buttonClass}>
+                            <Copy className="w-3 h-3" />
+                            コードをコピー
+                          </button>
+                          <button onClick={() => onDownloadLogs(job)} className={buttonClass}>
+                            <FileText className="w-3 h-3" />
+                            ログを保存
+                          </button>
+                          <button onClick={() => onRerun(job)} disabled={disabled || job.scripts.length === 0 || !hasStoredInputs(job)} className={buttonClass}>
+                            <Play className="w-3 h-3" />
+                            同じコードで再実行
+                          </button>
+                          <button onClick={() => onDelete(job)} disabled={disabled} className={`${buttonClass} ml-auto`}>
+                            <Trash2 className="w-3 h-3" />
+                            削除
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
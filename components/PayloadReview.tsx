@@ -0,0 +1,32 @@
+import React from 'react';
+import { Send, X, EyeOff } from 'lucide-react';
+import { OutboundPayload, PAYLOAD_KIND_LABELS, PRIVACY_MODE_LABELS, formatPlaceholderCounts } from '../services/privacy';
+
+interface PayloadReviewProps {
+  payload: OutboundPayload;
+  onSend: () => void;
+  onCancel: () => void;
+}
+
+export const PayloadReview: React.FC<PayloadReviewProps> = ({ payload, onSend, onCancel }) => (
+  <div className="bg-amber-50 border border-amber-300 rounded-xl p-4 flex flex-col gap-3 text-sm">
+    <p className="text-amber-800 font-medium flex items-center gap-2">
+      <EyeOff className="w-4 h-4" />
+      {PAYLOAD_KIND_LABELS[payload.kind]}の依頼を {payload.provider} に送信します。まだ送信されていません。
+    </p>
+    <p className="text-xs text-gray-600">
+      {PRIVACY_MODE_LABELS[payload.mode]} / {payload.prompt.length.toLocaleString()} 文字 / 置き換え: {formatPlaceholderCounts(payload.replaced)}
+    </p>
+    <pre className="bg-white border border-amber-200 rounded px-3 py-2 text-[11px] text-gray-700 whitespace-pre-wrap overflow-auto max-h-80">{payload.prompt}</pre>
+    <div className="grid grid-cols-2 gap-3">
+      <button onClick={onCancel} className="flex items-center justify-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98]">
+        <X className="w-4 h-4" />
+        送信しない
+      </button>
+      <button onClick={onSend} className="flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg shadow transition-all active:scale-[0.98]">
+        <Send className="w-4 h-4" />
+        この内容で送信
+      </button>
+    </div>
+  </div>
+);
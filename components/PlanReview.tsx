@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, HelpCircle, Check, X, Send } from 'lucide-react';
+import { PlanDraft, PlanAnswer, UNANSWERED } from '../services/taskPlan';
+
+interface PlanReviewProps {
+  draft: PlanDraft;
+  // 前の質問への回答（計画と一緒に表示する）
+  answers: PlanAnswer[];
+  // 複数手順の指示の場合の「手順 1/3:」など
+  label: string;
+  onAnswer: (answers: PlanAnswer[]) => void;
+  // note は利用者の補足（任意）
+  onConfirm: (note: string) => void;
+  onReject: () => void;
+}
+
+export const PlanReview: React.FC<PlanReviewProps> = ({ draft, answers, label, onAnswer, onConfirm, onReject }) => {
+  const [replies, setReplies] = useState<string[]>([]);
+  const [note, setNote] = useState<string>("");
+
+  useEffect(() => {
+    setReplies(draft.type === 'questions' ? draft.questions.map(() => "") : []);
+    setNote("");
+  }, [draft]);
+
+  const handleSubmitAnswers = () => {
+    if (draft.type !== 'questions') return;
+    onAnswer(draft.questions.map((q, i) => ({ question: q.question, answer: replies[i]?.trim() || UNANSWERED })));
+  };
+
+  const setReply = (index: number, value: string) =>
+    setReplies(prev => prev.map((r, i) => i === index ? value : r));
+
+  return (
+    <div className="bg-sky-50 border border-sky-300 rounded-xl p-4 flex flex-col gap-3 text-sm">
+      {draft.type === 'questions' ? (
+        <>
+          <p className="text-sky-900 font-medium flex items-center gap-2">
+            <HelpCircle className="w-4 h-4" />
+            {label}指示の内容について確認させてください
+          </p>
+          {draft.questions.map((q, i) => (
+            <div key={i} className="flex flex-col gap-1.5">
+              <span className="text-gray-800">{i + 1}. {q.question}</span>
+              {q.options.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {q.options.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setReply(i, option)}
+                      className={`text-xs px-2 py-1 rounded border ${replies[i] === option ? 'bg-sky-600 text-white border-sky-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <input
+                type="text"
+                value={replies[i] ?? ""}
+                onChange={(e) => setReply(i, e.target.value)}
+                placeholder="回答（空欄の場合はAIの判断に任せます）"
+                className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+              />
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={onReject} className="flex items-center justify-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98]">
+              <X className="w-4 h-4" />
+              中止
+            </button>
+            <button onClick={handleSubmitAnswers} className="flex items-center justify-center gap-2 bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg shadow transition-all active:scale-[0.98]">
+              <Send className="w-4 h-4" />
+              回答して計画を作成
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-sky-900 font-medium flex items-center gap-2">
+            <ClipboardList className="w-4 h-4" />
+            {label}作業計画を確認してください。コードはまだ生成されていません。
+          </p>
+          <p className="text-gray-800">{draft.plan.summary}</p>
+          <ol className="list-decimal list-inside text-gray-700 flex flex-col gap-0.5">
+            {draft.plan.steps.map((step, i) => <li key={i}>{step}</li>)}
+          </ol>
+          {draft.plan.columns.length > 0 && (
+            <table className="w-full text-xs bg-white rounded border border-sky-200">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-sky-100">
+                  <th className="px-2 py-1 font-medium">列</th>
+                  <th className="px-2 py-1 font-medium">内容</th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.plan.columns.map((c, i) => (
+                  <tr key={i} className="border-b border-sky-50 last:border-0">
+                    <td className="px-2 py-1 font-mono text-gray-800 whitespace-nowrap">{c.sheet ? <span className="text-gray-400">{c.sheet}!</span> : null}{c.name}</td>
+                    <td className="px-2 py-1 text-gray-700">{c.change}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-gray-600"><span className="font-bold">出力:</span> {draft.plan.output}</p>
+          {answers.length > 0 && (
+            <ul className="text-xs text-gray-500 flex flex-col gap-0.5">
+              {answers.map((a, i) => <li key={i}>{a.question} → {a.answer}</li>)}
+            </ul>
+          )}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="補足・修正の指示（任意）"
+            className="border border-gray-300 rounded px-2 py-1 text-xs bg-white resize-none"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={onReject} className="flex items-center justify-center gap-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-bold py-2 px-4 rounded-lg transition-all active:scale-[0.98]">
+              <X className="w-4 h-4" />
+              却下
+            </button>
+            <button onClick={() => onConfirm(note.trim())} className="flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded-lg shadow transition-all active:scale-[0.98]">
+              <Check className="w-4 h-4" />
+              この計画で生成
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
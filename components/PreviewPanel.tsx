@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Table2, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { openWorkbookPreview, WorkbookPreview, OutputFile } from '../services/pyodideService';
+import { CellChange, WorkbookDiff } from '../services/pyodideProtocol';
+import { SpreadsheetGrid } from './SpreadsheetGrid';
+import { CHANGE_KIND_LABELS } from './DiffReport';
+
+interface PreviewPanelProps {
+  input: Blob | null;
+  outputs: OutputFile[];
+  // diff はこの出力ファイルと入力を比較したもの
+  mainOutputName?: string;
+  diff: WorkbookDiff | null;
+}
+
+const LEGEND_CLASSES: Record<CellChange['kind'], string> = {
+  value: 'border-amber-500',
+  formula: 'border-violet-500',
+  style: 'border-gray-400',
+};
+
+// ブックを開いてプレビューを返す。Blob が変わるか閉じられたら破棄する
+const usePreview = (blob: Blob | null | undefined, enabled: boolean) => {
+  const [preview, setPreview] = useState<WorkbookPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+    if (!blob || !enabled) return;
+    let cancelled = false;
+    let opened: WorkbookPreview | null = null;
+    openWorkbookPreview(blob)
+      .then(p => {
+        opened = p;
+        if (cancelled) p.close();
+        else setPreview(p);
+      })
+      .catch((e: any) => { if (!cancelled) setError(e.message); });
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, [blob, enabled]);
+
+  return { preview, error };
+};
+
+export const PreviewPanel: React.FC<PreviewPanelProps> = ({ input, outputs, mainOutputName, diff }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [outputName, setOutputName] = useState<string>("");
+  const [sheet, setSheet] = useState<string>("");
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+  const selectedOutput = outputs.find(o => o.name === outputName) ?? outputs.find(o => o.name === mainOutputName) ?? outputs[0];
+  const before = usePreview(input, open);
+  const after = usePreview(selectedOutput?.blob, open);
+
+  // 入力のシートを先に、出力で追加されたシートを後ろに並べる
+  const sheetNames = useMemo(() => {
+    const names = before.preview?.sheets.map(s => s.name) ?? [];
+    after.preview?.sheets.forEach(s => { if (!names.includes(s.name)) names.push(s.name); });
+    return names;
+  }, [before.preview, after.preview]);
+
+  useEffect(() => {
+    if (sheetNames.length > 0 && !sheetNames.includes(sheet)) setSheet(sheetNames[0]);
+  }, [sheetNames]);
+
+  useEffect(() => {
+    setScroll({ top: 0, left: 0 });
+  }, [sheet]);
+
+  const highlights = useMemo(() => {
+    const map = new Map<string, CellChange['kind']>();
+    if (diff && selectedOutput?.name === mainOutputName) {
+      diff.changes.filter(c => c.sheet === sheet).forEach(c => map.set(c.cell, c.kind));
+    }
+    return map;
+  }, [diff, sheet, selectedOutput, mainOutputName]);
+
+  const renderSide = (label: string, state: { preview: WorkbookPreview | null; error: string | null }) => {
+    const info = state.preview?.sheets.find(s => s.name === sheet);
+    return (
+      <div className="flex flex-col gap-1 min-w-0">
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span className="font-bold text-gray-700">{label}</span>
+          {info && <span>{info.maxRow} 行 × {info.maxColumn} 列{info.columnCount < info.maxColumn ? `（先頭 ${info.columnCount} 列を表示）` : ''}</span>}
+        </div>
+        {state.error ? (
+          <div className="h-[360px] flex items-center justify-center text-xs text-red-500 border border-red-100 rounded bg-red-50 p-4">{state.error}</div>
+        ) : !state.preview ? (
+          <div className="h-[360px] flex items-center justify-center text-xs text-gray-400 border border-gray-200 rounded">
+            <RefreshCw className="w-4 h-4 animate-spin mr-2" />
+            読み込み中...
+          </div>
+        ) : info ? (
+          <SpreadsheetGrid preview={state.preview} sheet={sheet} highlights={highlights} scroll={scroll} onScroll={setScroll} />
+        ) : (
+          <div className="h-[360px] flex items-center justify-center text-xs text-gray-400 border border-gray-200 rounded">このシートはありません</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <Table2 className="w-5 h-5 text-emerald-600" />
+          プレビュー
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {selectedOutput ? '入力と出力を比較' : '入力ファイル'}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex flex-wrap gap-1">
+              {sheetNames.map(name => (
+                <button
+                  key={name}
+                  onClick={() => setSheet(name)}
+                  className={`text-xs px-3 py-1 rounded-t border-b-2 ${name === sheet ? 'border-emerald-600 text-emerald-700 font-bold bg-emerald-50' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            {outputs.length > 1 && (
+              <select
+                value={selectedOutput?.name}
+                onChange={e => setOutputName(e.target.value)}
+                className="ml-auto border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+              >
+                {outputs.map(o => <option key={o.name} value={o.name}>{o.name}</option>)}
+              </select>
+            )}
+          </div>
+          <div className={`grid gap-4 ${selectedOutput ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'}`}>
+            {renderSide('入力', before)}
+            {selectedOutput && renderSide(`出力 (${selectedOutput.name})`, after)}
+          </div>
+          {highlights.size > 0 && (
+            <div className="flex items-center gap-3 text-[10px] text-gray-500">
+              変更されたセル:
+              {(Object.keys(CHANGE_KIND_LABELS) as CellChange['kind'][]).map(kind => (
+                <span key={kind} className="flex items-center gap-1">
+                  <span className={`inline-block w-3 h-3 border-2 ${LEGEND_CLASSES[kind]}`} />
+                  {CHANGE_KIND_LABELS[kind]}
+                </span>
+              ))}
+              {diff?.truncated && <span>（差分が多いため一部のみ強調しています）</span>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { EyeOff, ChevronDown, ChevronUp } from 'lucide-react';
+import { PrivacySettings, PrivacyMode, PRIVACY_MODE_LABELS, PII_CATEGORY_LABELS, PAYLOAD_KIND_LABELS, AuditEntry, Redaction, formatPlaceholderCounts } from '../services/privacy';
+import { formatLogTime } from '../utils/logExport';
+
+interface PrivacyPanelProps {
+  settings: PrivacySettings;
+  onChange: (settings: PrivacySettings) => void;
+  // このセッションで送信した内容（新しいものが後）
+  auditTrail: AuditEntry[];
+  // 現在のジョブの置き換え対応表（ブラウザ内にのみ保持）
+  redactions: Redaction[];
+  disabled?: boolean;
+}
+
+const MODE_DESCRIPTIONS: Record<PrivacyMode, string> = {
+  off: '指示・列名・サンプル値をそのまま送信します。',
+  redact: '氏名・電話番号・マイナンバー・メール・住所・口座番号を検出し、〔氏名_1〕のようなプレースホルダーに置き換えて送信します。応答は元の値に戻してから実行します。',
+  strict: '置き換えに加えて、サンプル値と実行時の標準出力を送信しません。AIにはシート・列名・型などの構造のみが渡ります。修復時もコード中の値・エラーメッセージ・検証結果の値は送らず、行番号と例外の型のみを送ります。',
+};
+
+export const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, onChange, auditTrail, redactions, disabled }) => {
+  const [open, setOpen] = useState<boolean>(false);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <EyeOff className="w-5 h-5 text-emerald-600" />
+          送信データの保護
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {PRIVACY_MODE_LABELS[settings.mode]}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">AIに送る前の処理</span>
+            <select
+              value={settings.mode}
+              onChange={e => onChange({ ...settings, mode: e.target.value as PrivacyMode })}
+              disabled={disabled}
+              className="border border-gray-300 rounded px-2 py-1.5 text-sm bg-white disabled:bg-gray-100"
+            >
+              {(Object.keys(PRIVACY_MODE_LABELS) as PrivacyMode[]).map(mode => (
+                <option key={mode} value={mode}>{PRIVACY_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <span className="text-xs text-gray-500">{MODE_DESCRIPTIONS[settings.mode]}</span>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={settings.confirmBeforeSend}
+              onChange={e => onChange({ ...settings, confirmBeforeSend: e.target.checked })}
+              disabled={disabled}
+              className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            送信のたびに内容を確認する
+          </label>
+          {redactions.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500 font-medium">置き換え一覧（元の値は送信されません）</span>
+              <table className="w-full text-xs border border-gray-200 rounded">
+                <tbody>
+                  {redactions.map(r => (
+                    <tr key={r.placeholder} className="border-b border-gray-100 last:border-0">
+                      <td className="px-2 py-1 font-mono text-gray-800 whitespace-nowrap">{r.placeholder}</td>
+                      <td className="px-2 py-1 text-gray-600 break-all">{r.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">送信記録（{auditTrail.length} 件）</span>
+            {auditTrail.length === 0 ? (
+              <span className="text-xs text-gray-400">まだ送信していません。</span>
+            ) : (
+              [...auditTrail].reverse().map(entry => (
+                <details key={entry.sentAt} className="border border-gray-200 rounded bg-gray-50">
+                  <summary className="px-3 py-1.5 text-xs text-gray-700 cursor-pointer">
+                    {formatLogTime(entry.sentAt)} {PAYLOAD_KIND_LABELS[entry.kind]} / {entry.provider} {entry.model} / {entry.prompt.length.toLocaleString()} 文字 / 置き換え: {formatPlaceholderCounts(entry.replaced)}
+                  </summary>
+                  <pre className="px-3 pb-2 text-[11px] text-gray-700 whitespace-pre-wrap overflow-x-auto max-h-64">{entry.prompt}</pre>
+                </details>
+              ))
+            )}
+          </div>
+          <p className="text-[11px] text-gray-400">
+            検出は書式と列名に基づくため、すべての個人情報を見つけられるとは限りません。{Object.values(PII_CATEGORY_LABELS).join('・')}以外の値は置き換えません。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
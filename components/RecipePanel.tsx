@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { BookMarked, ChevronDown, ChevronUp, Play, Trash2, Download, Upload, Save, X } from 'lucide-react';
+import { Recipe } from '../services/recipes';
+
+interface RecipePanelProps {
+  recipes: Recipe[];
+  activeRecipeId: string | null;
+  onApply: (recipe: Recipe | null) => void;
+  onDelete: (recipe: Recipe) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  // 直前の実行が成功している場合のみ保存できる
+  canSave: boolean;
+  defaultName: string;
+  onSave: (name: string) => void;
+  disabled?: boolean;
+}
+
+export const RecipePanel: React.FC<RecipePanelProps> = ({
+  recipes, activeRecipeId, onApply, onDelete, onExport, onImport, canSave, defaultName, onSave, disabled,
+}) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [name, setName] = useState<string>("");
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importRef.current) importRef.current.value = "";
+    if (file) onImport(file);
+  };
+
+  const handleSave = () => {
+    onSave(name.trim() || defaultName);
+    setName("");
+  };
+
+  const buttonClass = "flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 bg-white hover:bg-gray-50 text-gray-600 disabled:opacity-50";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <BookMarked className="w-5 h-5 text-emerald-600" />
+          レシピ
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {recipes.length} 件保存済み
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-4 text-sm">
+          <p className="text-xs text-gray-500">
+            成功したコードを保存し、同じ指示を別のファイルにAI呼び出しなし（利用回数の消費なし）で適用できます。
+          </p>
+          {canSave && (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder={defaultName}
+                disabled={disabled}
+                className="flex-1 border border-gray-300 rounded px-2 py-1.5 text-sm bg-white disabled:bg-gray-100"
+              />
+              <button onClick={handleSave} disabled={disabled} className="flex items-center gap-1 bg-emerald-600 hover:bg-emerald-700 text-white text-xs font-bold py-2 px-3 rounded disabled:opacity-50">
+                <Save className="w-3.5 h-3.5" />
+                今回のコードを保存
+              </button>
+            </div>
+          )}
+          {recipes.length === 0 ? (
+            <p className="text-xs text-gray-400">保存されたレシピはありません。</p>
+          ) : (
+            <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+              {recipes.map(recipe => {
+                const active = recipe.id === activeRecipeId;
+                return (
+                  <li key={recipe.id} className={`border rounded px-3 py-2 flex flex-col gap-1 ${active ? 'border-emerald-400 bg-emerald-50' : 'border-gray-200'}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-bold text-gray-800 truncate">{recipe.name}</span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <button onClick={() => onApply(active ? null : recipe)} disabled={disabled} className={buttonClass}>
+                          {active ? <X className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                          {active ? '解除' : '適用'}
+                        </button>
+                        <button onClick={() => onDelete(recipe)} disabled={disabled} className={buttonClass} title="削除">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-600 line-clamp-2 whitespace-pre-wrap">
+                      {recipe.steps.length > 1 ? recipe.steps.map((s, i) => `${i + 1}. ${s.instruction}`).join('\n') : recipe.steps[0].instruction}
+                    </p>
+                    <p className="text-[10px] text-gray-400">
+                      {new Date(recipe.createdAt).toLocaleString('ja-JP')} / {recipe.model || '不明なモデル'} / 列 {recipe.sheets.reduce((n, s) => n + s.columns.length, 0)} 個{recipe.inputCount > 1 ? ` / ${recipe.inputCount} ファイル` : ''}
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <div className="flex items-center justify-end gap-2">
+            <input type="file" ref={importRef} onChange={handleImportChange} accept=".json,application/json" className="hidden" />
+            <button onClick={() => importRef.current?.click()} disabled={disabled} className={buttonClass}>
+              <Upload className="w-3 h-3" />
+              JSONから読み込み
+            </button>
+            <button onClick={onExport} disabled={disabled || recipes.length === 0} className={buttonClass}>
+              <Download className="w-3 h-3" />
+              JSONに書き出し
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { RunMetrics, RunPhase, RUN_PHASE_LABELS } from '../services/runMetrics';
+
+interface RunSummaryProps {
+  metrics: RunMetrics;
+}
+
+const PHASE_COLORS: Record<RunPhase, string> = {
+  boot: 'bg-gray-400',
+  read: 'bg-sky-500',
+  plan: 'bg-indigo-400',
+  generate: 'bg-violet-500',
+  execute: 'bg-emerald-500',
+  verify: 'bg-teal-400',
+  compare: 'bg-amber-500',
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)} 秒`;
+
+export const RunSummary: React.FC<RunSummaryProps> = ({ metrics }) => {
+  const phases = (Object.keys(RUN_PHASE_LABELS) as RunPhase[]).filter(p => metrics.timings[p] > 0);
+  const measured = phases.reduce((sum, p) => sum + metrics.timings[p], 0);
+  const elapsed = (metrics.finishedAt ?? Date.now()) - metrics.startedAt;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Gauge className="w-5 h-5 text-emerald-600" />
+          実行サマリー
+        </h2>
+        <span className="text-xs text-gray-500">所要時間 {formatSeconds(elapsed)}</span>
+      </div>
+
+      {measured > 0 && (
+        <div className="flex h-3 rounded overflow-hidden bg-gray-100">
+          {phases.map(p => (
+            <div key={p} className={PHASE_COLORS[p]} style={{ width: `${(metrics.timings[p] / measured) * 100}%` }} title={`${RUN_PHASE_LABELS[p]}: ${formatSeconds(metrics.timings[p])}`} />
+          ))}
+        </div>
+      )}
+
+      <table className="w-full text-xs">
+        <tbody>
+          {phases.map(p => (
+            <tr key={p} className="border-b border-gray-100 last:border-0">
+              <td className="py-1">
+                <span className={`inline-block w-2.5 h-2.5 rounded-sm mr-2 ${PHASE_COLORS[p]}`} />
+                {RUN_PHASE_LABELS[p]}
+                {p === 'boot' && <span className="text-gray-400">（ページ読み込み時）</span>}
+              </td>
+              <td className="py-1 text-right font-mono text-gray-700">{formatSeconds(metrics.timings[p])}</td>
+              <td className="py-1 text-right font-mono text-gray-400 w-14">{Math.round((metrics.timings[p] / measured) * 100)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { label: 'AI呼び出し', value: metrics.llmCalls },
+          { label: '入力トークン', value: metrics.usage.prompt },
+          { label: '出力トークン', value: metrics.usage.completion },
+          { label: '合計トークン', value: metrics.usage.total },
+        ].map(item => (
+          <div key={item.label} className="bg-gray-50 rounded p-2">
+            <div className="text-base font-bold text-gray-800">{item.value.toLocaleString()}</div>
+            <div className="text-[10px] text-gray-500">{item.label}</div>
+          </div>
+        ))}
+      </div>
+      {metrics.usageIncomplete && (
+        <p className="text-[10px] text-gray-400">一部の呼び出しでプロバイダーが使用量を返さなかったため、トークン数は実際より少なく表示されています。</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { SafetyPolicy, SafetyRuleId, SafetyRuleAction, SAFETY_RULE_LABELS, DEFAULT_SAFETY_POLICY } from '../services/safetyPolicy';
+
+interface SafetyPolicyPanelProps {
+  policy: SafetyPolicy;
+  onChange: (policy: SafetyPolicy) => void;
+  disabled?: boolean;
+}
+
+const ACTION_LABELS: Record<SafetyRuleAction, string> = {
+  block: 'ブロック',
+  warn: '警告のみ',
+  off: '無効',
+};
+
+const parseList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+export const SafetyPolicyPanel: React.FC<SafetyPolicyPanelProps> = ({ policy, onChange, disabled }) => {
+  const [open, setOpen] = useState<boolean>(false);
+
+  const update = (patch: Partial<SafetyPolicy>) => onChange({ ...policy, ...patch });
+  const updateRule = (rule: SafetyRuleId, action: SafetyRuleAction) =>
+    update({ rules: { ...policy.rules, [rule]: action } });
+
+  const inputClass = "w-full border border-gray-300 rounded px-2 py-1.5 text-sm bg-white disabled:bg-gray-100";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-emerald-600" />
+          安全性チェック
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          違反時: {policy.onViolation === 'regenerate' ? '再生成' : '停止'}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">インポート許可リスト (カンマ区切り)</span>
+            <input
+              key={policy.allowedImports.join(',')}
+              type="text"
+              defaultValue={policy.allowedImports.join(', ')}
+              onBlur={e => update({ allowedImports: parseList(e.target.value) })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">書き込み許可パス (カンマ区切り・ワイルドカード可)</span>
+            <input
+              key={policy.allowedWritePaths.join(',')}
+              type="text"
+              defaultValue={policy.allowedWritePaths.join(', ')}
+              onBlur={e => update({ allowedWritePaths: parseList(e.target.value) })}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {(Object.keys(SAFETY_RULE_LABELS) as SafetyRuleId[]).map(rule => (
+              <label key={rule} className="flex items-center justify-between gap-2 bg-gray-50 rounded px-3 py-2">
+                <span className="text-xs text-gray-600">{SAFETY_RULE_LABELS[rule]}</span>
+                <select
+                  value={policy.rules[rule]}
+                  onChange={e => updateRule(rule, e.target.value as SafetyRuleAction)}
+                  disabled={disabled}
+                  className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+                >
+                  {(Object.keys(ACTION_LABELS) as SafetyRuleAction[]).map(action => (
+                    <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              ブロック時の動作:
+              <select
+                value={policy.onViolation}
+                onChange={e => update({ onViolation: e.target.value as SafetyPolicy['onViolation'] })}
+                disabled={disabled}
+                className="border border-gray-300 rounded px-2 py-1 text-xs bg-white"
+              >
+                <option value="regenerate">違反内容を伝えて再生成</option>
+                <option value="stop">実行を停止</option>
+              </select>
+            </label>
+            <button
+              onClick={() => onChange(DEFAULT_SAFETY_POLICY)}
+              disabled={disabled}
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+            >
+              <RotateCcw className="w-3 h-3" />
+              既定に戻す
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
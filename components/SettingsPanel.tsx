@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Settings, ChevronDown, ChevronUp } from 'lucide-react';
+import { LlmSettings, ProviderId, PROVIDER_LABELS, DEFAULT_MODELS, GEMINI_MODELS } from '../services/llm';
+
+interface SettingsPanelProps {
+  settings: LlmSettings;
+  onChange: (settings: LlmSettings) => void;
+  disabled?: boolean;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const [open, setOpen] = useState<boolean>(false);
+
+  const update = (patch: Partial<LlmSettings>) => onChange({ ...settings, ...patch });
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const provider = e.target.value as ProviderId;
+    // プロバイダ切り替え時はモデル名をそのプロバイダの既定値に戻す
+    update({ provider, model: DEFAULT_MODELS[provider] });
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded px-2 py-1.5 text-sm bg-white disabled:bg-gray-100";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <Settings className="w-5 h-5 text-emerald-600" />
+          AIモデル設定
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {PROVIDER_LABELS[settings.provider]} / {settings.model}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">プロバイダ</span>
+            <select value={settings.provider} onChange={handleProviderChange} disabled={disabled} className={inputClass}>
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">モデル名</span>
+            <input
+              type="text"
+              value={settings.model}
+              onChange={e => update({ model: e.target.value })}
+              disabled={disabled || settings.provider === 'mock'}
+              list={settings.provider === 'gemini' ? 'gemini-models' : undefined}
+              className={inputClass}
+            />
+            <datalist id="gemini-models">
+              {GEMINI_MODELS.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 font-medium">Temperature: {settings.temperature.toFixed(2)}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.temperature}
+              onChange={e => update({ temperature: Number(e.target.value) })}
+              disabled={disabled || settings.provider === 'mock'}
+              className="accent-emerald-600"
+            />
+          </label>
+          {settings.provider === 'openai' && (
+            <>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-500 font-medium">エンドポイント</span>
+                <input
+                  type="url"
+                  value={settings.endpoint}
+                  onChange={e => update({ endpoint: e.target.value })}
+                  disabled={disabled}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1 md:col-span-2">
+                <span className="text-xs text-gray-500 font-medium">APIキー (任意)</span>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={e => update({ apiKey: e.target.value })}
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </label>
+            </>
+          )}
+          {settings.provider === 'mock' && (
+            <p className="md:col-span-2 text-xs text-gray-500 bg-gray-50 rounded p-3">
+              指示文のキーワードに応じて固定スクリプトを返します。AIを呼び出さずにアップロードから実行までの動作を確認できます。
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { WorkbookPreview } from '../services/pyodideService';
+import { CellChange, PreviewCell, PreviewMerge, PreviewPage } from '../services/pyodideProtocol';
+
+interface SpreadsheetGridProps {
+  preview: WorkbookPreview;
+  sheet: string;
+  // セル番地（"B3" など）→ 変更の種類
+  highlights?: Map<string, CellChange['kind']>;
+  // 左右のグリッドのスクロール位置を同期するために使う
+  scroll?: { top: number; left: number };
+  onScroll?: (scroll: { top: number; left: number }) => void;
+  height?: number;
+}
+
+const ROW_HEIGHT = 22;
+const HEADER_HEIGHT = 22;
+const ROW_NUMBER_WIDTH = 48;
+const PAGE_SIZE = 100;
+const OVERSCAN = 10;
+
+const HIGHLIGHT_COLORS: Record<CellChange['kind'], string> = {
+  value: '#f59e0b',
+  formula: '#8b5cf6',
+  style: '#9ca3af',
+};
+
+export const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + (n - 1) % 26) + letter;
+  }
+  return letter;
+};
+
+export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({ preview, sheet, highlights, scroll, onScroll, height = 360 }) => {
+  const info = preview.sheets.find(s => s.name === sheet);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, left: 0 });
+  const [pages, setPages] = useState<Map<number, PreviewPage>>(new Map());
+  const loadingRef = useRef<Set<number>>(new Set());
+  // ブックやシートが切り替わった後に届いた古いページを捨てるための世代番号
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    generationRef.current++;
+    loadingRef.current = new Set();
+    setPages(new Map());
+  }, [preview, sheet]);
+
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el || !scroll) return;
+    if (el.scrollTop !== scroll.top) el.scrollTop = scroll.top;
+    if (el.scrollLeft !== scroll.left) el.scrollLeft = scroll.left;
+  }, [scroll?.top, scroll?.left]);
+
+  const { offsets, totalWidth } = useMemo(() => {
+    const result: number[] = [];
+    let x = 0;
+    (info?.columnWidths ?? []).forEach(w => { result.push(x); x += w; });
+    return { offsets: result, totalWidth: x };
+  }, [info]);
+
+  // 結合範囲の左上セルと、それ以外の（描画しない）セル
+  const { mergeStarts, covered } = useMemo(() => {
+    const starts = new Map<string, PreviewMerge>();
+    const hidden = new Set<string>();
+    (info?.merges ?? []).forEach(m => {
+      starts.set(`${m.top}:${m.left}`, m);
+      for (let r = m.top; r <= m.bottom; r++) {
+        for (let c = m.left; c <= m.right; c++) {
+          if (r !== m.top || c !== m.left) hidden.add(`${r}:${c}`);
+        }
+      }
+    });
+    return { mergeStarts: starts, covered: hidden };
+  }, [info]);
+
+  const maxRow = info?.maxRow ?? 0;
+  const firstRow = Math.max(1, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN + 1);
+  const lastRow = Math.min(maxRow, Math.ceil((viewport.top + height) / ROW_HEIGHT) + OVERSCAN);
+
+  useEffect(() => {
+    if (!info || lastRow < firstRow) return;
+    const generation = generationRef.current;
+    for (let page = Math.floor((firstRow - 1) / PAGE_SIZE); page <= Math.floor((lastRow - 1) / PAGE_SIZE); page++) {
+      if (pages.has(page) || loadingRef.current.has(page)) continue;
+      loadingRef.current.add(page);
+      preview.readRows(sheet, page * PAGE_SIZE + 1, PAGE_SIZE)
+        .then(result => {
+          if (generation === generationRef.current) setPages(prev => new Map(prev).set(page, result));
+        })
+        .catch(() => loadingRef.current.delete(page));
+    }
+  }, [info, firstRow, lastRow, pages]);
+
+  if (!info) return null;
+
+  const cellAt = (row: number, col: number): PreviewCell | null | undefined => {
+    const page = pages.get(Math.floor((row - 1) / PAGE_SIZE));
+    return page ? page.rows[(row - 1) - (page.startRow - 1)]?.[col - 1] ?? null : undefined;
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const next = { top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft };
+    setViewport(next);
+    onScroll?.(next);
+  };
+
+  const rows: React.ReactNode[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    const loaded = cellAt(row, 1) !== undefined;
+    rows.push(
+      <div key={row} className="flex" style={{ height: ROW_HEIGHT }}>
+        <div className="sticky left-0 z-10 shrink-0 bg-gray-100 border-r border-b border-gray-300 text-[10px] text-gray-500 text-right pr-1 leading-[22px]" style={{ width: ROW_NUMBER_WIDTH }}>
+          {row}
+        </div>
+        {info.columnWidths.map((width, i) => {
+          const col = i + 1;
+          const key = `${row}:${col}`;
+          if (covered.has(key)) return <div key={col} className="shrink-0" style={{ width }} />;
+          const cell = loaded ? cellAt(row, col) : null;
+          const merge = mergeStarts.get(key);
+          const ref = `${columnLetter(col)}${row}`;
+          const change = highlights?.get(ref);
+          const style: React.CSSProperties = {
+            width: merge ? offsets[Math.min(merge.right, info.columnCount) - 1] + info.columnWidths[Math.min(merge.right, info.columnCount) - 1] - offsets[i] : width,
+            height: merge ? (merge.bottom - merge.top + 1) * ROW_HEIGHT : ROW_HEIGHT,
+            backgroundColor: cell?.fill ?? (merge ? '#ffffff' : undefined),
+            color: cell?.color,
+            fontWeight: cell?.bold ? 700 : undefined,
+            fontStyle: cell?.italic ? 'italic' : undefined,
+            boxShadow: change ? `inset 0 0 0 2px ${HIGHLIGHT_COLORS[change]}` : undefined,
+          };
+          return (
+            <div
+              key={col}
+              title={cell?.text && cell.text.length > 20 ? cell.text : change ? `${ref} (変更あり)` : undefined}
+              className={`shrink-0 border-r border-b border-gray-200 px-1 text-xs leading-[21px] truncate ${merge ? 'relative z-[5] flex items-center justify-center' : ''} ${cell?.kind === 'number' ? 'text-right' : ''} ${cell?.kind === 'formula' ? 'text-gray-400 font-mono' : ''}`}
+              style={style}
+            >
+              {cell?.text}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollerRef} onScroll={handleScroll} className="overflow-auto relative bg-white border border-gray-200 rounded" style={{ height }}>
+      <div className="relative" style={{ height: HEADER_HEIGHT + maxRow * ROW_HEIGHT, width: ROW_NUMBER_WIDTH + totalWidth }}>
+        <div className="sticky top-0 z-20 flex bg-gray-100" style={{ height: HEADER_HEIGHT, width: ROW_NUMBER_WIDTH + totalWidth }}>
+          <div className="sticky left-0 z-30 shrink-0 bg-gray-200 border-r border-b border-gray-300" style={{ width: ROW_NUMBER_WIDTH }} />
+          {info.columnWidths.map((width, i) => (
+            <div key={i} className="shrink-0 border-r border-b border-gray-300 text-[10px] text-gray-500 text-center leading-[22px]" style={{ width }}>
+              {columnLetter(i + 1)}
+            </div>
+          ))}
+        </div>
+        <div className="absolute left-0" style={{ top: HEADER_HEIGHT + (firstRow - 1) * ROW_HEIGHT }}>
+          {rows}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,49 +1,195 @@
-import React, { useEffect, useRef } from 'react';
-import { LogEntry } from '../types';
-import { Terminal as TerminalIcon } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LogEntry, LogLevel, LogSource } from '../types';
+import { Terminal as TerminalIcon, Search, Copy, Check, FileText, FileJson, Maximize2, Minimize2, ChevronRight, ChevronDown } from 'lucide-react';
+import { LOG_LEVEL_LABELS, LOG_SOURCE_LABELS, LOG_STAGE_LABELS, LogBundleContext, formatLogTime, formatLogsText, buildLogBundle } from '../utils/logExport';
+import { downloadBlob } from '../utils/download';
 
 interface TerminalProps {
   logs: LogEntry[];
   className?: string;
+  title?: string;
+  // JSON で書き出すときにログと一緒に含める実行環境の情報
+  context?: LogBundleContext;
 }
 
-export const Terminal: React.FC<TerminalProps> = ({ logs, className }) => {
-  const bottomRef = useRef<HTMLDivElement>(null);
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  error: 'text-red-400 font-bold',
+  success: 'text-green-400',
+  warning: 'text-yellow-400',
+  code: 'text-blue-300',
+  info: 'text-gray-300',
+};
+
+const SOURCE_CLASSES: Record<LogSource, string> = {
+  app: 'text-gray-400 border-gray-600',
+  llm: 'text-purple-300 border-purple-700',
+  python: 'text-sky-300 border-sky-700',
+  pyodide: 'text-teal-300 border-teal-700',
+};
+
+const ALL_LEVELS = Object.keys(LOG_LEVEL_LABELS) as LogLevel[];
+const ALL_SOURCES = Object.keys(LOG_SOURCE_LABELS) as LogSource[];
+
+export const Terminal: React.FC<TerminalProps> = ({ logs, className, title = 'システムログ', context }) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  // ユーザーが上にスクロールして読んでいる間は自動スクロールしない
+  const followRef = useRef<boolean>(true);
+  const [levels, setLevels] = useState<Set<LogLevel>>(() => new Set(ALL_LEVELS));
+  const [source, setSource] = useState<LogSource | 'all'>('all');
+  const [query, setQuery] = useState<string>("");
+  const [openTracebacks, setOpenTracebacks] = useState<Set<number>>(new Set());
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return logs
+      .map((log, index) => ({ log, index }))
+      .filter(({ log }) =>
+        levels.has(log.type) &&
+        (source === 'all' || (log.source ?? 'app') === source) &&
+        (!needle || log.message.toLowerCase().includes(needle) || !!log.payload?.traceback?.toLowerCase().includes(needle))
+      );
+  }, [logs, levels, source, query]);
 
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+    const el = scrollerRef.current;
+    if (el && followRef.current) el.scrollTop = el.scrollHeight;
+  }, [visible, expanded]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    followRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(prev => {
+      const next = new Set(prev);
+      if (next.has(level)) next.delete(level); else next.add(level);
+      return next;
+    });
+  };
+
+  const toggleTraceback = (index: number) => {
+    setOpenTracebacks(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatLogsText(visible.map(v => v.log)));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const exportName = (extension: string) => `excel-autopilot_log_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+
+  // 書き出しはフィルターに関係なく全件を対象にする（サポートへの添付用）
+  const handleExportText = () =>
+    downloadBlob(new Blob([formatLogsText(logs)], { type: 'text/plain;charset=utf-8' }), exportName('txt'));
+
+  const handleExportJson = () =>
+    downloadBlob(new Blob([buildLogBundle(logs, context)], { type: 'application/json' }), exportName('json'));
+
+  const filtered = visible.length !== logs.length;
+  const toolButtonClass = "p-1 rounded text-gray-400 hover:text-gray-200 hover:bg-[#3a3a3a] disabled:opacity-40";
 
   return (
     <div className={`flex flex-col bg-[#1e1e1e] rounded-lg shadow-lg overflow-hidden border border-gray-700 font-mono text-sm ${className}`}>
       <div className="flex items-center gap-2 px-4 py-2 bg-[#2d2d2d] border-b border-gray-700">
         <TerminalIcon className="w-4 h-4 text-gray-400" />
-        <span className="text-gray-400 font-semibold text-xs uppercase tracking-wider">システムログ (System Log)</span>
+        <span className="text-gray-400 font-semibold text-xs uppercase tracking-wider">{title}</span>
+        <span className="text-gray-500 text-[10px]">{filtered ? `${visible.length} / ${logs.length} 件` : `${logs.length} 件`}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={handleCopy} disabled={visible.length === 0} className={toolButtonClass} title="表示中のログをコピー">
+            {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+          </button>
+          <button onClick={handleExportText} disabled={logs.length === 0} className={toolButtonClass} title="全ログをテキストで保存">
+            <FileText className="w-4 h-4" />
+          </button>
+          <button onClick={handleExportJson} disabled={logs.length === 0} className={toolButtonClass} title="全ログを診断用 JSON で保存">
+            <FileJson className="w-4 h-4" />
+          </button>
+          <button onClick={() => setExpanded(prev => !prev)} className={toolButtonClass} title={expanded ? '縮小' : '拡大'}>
+            {expanded ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+          </button>
+        </div>
       </div>
-      <div className="flex-1 p-4 overflow-y-auto max-h-[300px] scrollbar-thin">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-[#252525] border-b border-gray-700 text-[11px]">
+        {ALL_LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className={`px-2 py-0.5 rounded border ${levels.has(level) ? `border-gray-500 bg-[#333] ${LEVEL_CLASSES[level]}` : 'border-gray-700 text-gray-600 line-through'}`}
+          >
+            {LOG_LEVEL_LABELS[level]}
+          </button>
+        ))}
+        <select
+          value={source}
+          onChange={e => setSource(e.target.value as LogSource | 'all')}
+          className="bg-[#333] border border-gray-600 rounded px-1 py-0.5 text-gray-300"
+        >
+          <option value="all">すべての発生元</option>
+          {ALL_SOURCES.map(s => <option key={s} value={s}>{LOG_SOURCE_LABELS[s]}</option>)}
+        </select>
+        <label className="flex items-center gap-1 flex-1 min-w-[120px] bg-[#333] border border-gray-600 rounded px-1">
+          <Search className="w-3 h-3 text-gray-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="検索"
+            className="flex-1 bg-transparent py-0.5 text-gray-300 outline-none placeholder:text-gray-600"
+          />
+        </label>
+      </div>
+      <div
+        ref={scrollerRef}
+        onScroll={handleScroll}
+        className={`flex-1 p-4 overflow-y-auto scrollbar-thin ${expanded ? 'max-h-[70vh]' : 'max-h-[360px]'}`}
+      >
         {logs.length === 0 && (
           <div className="text-gray-500 italic">処理開始を待機しています...</div>
         )}
-        {logs.map((log, index) => (
-          <div key={index} className="mb-1 break-words">
-            <span className="text-gray-600 mr-2 text-xs">
-              [{log.timestamp.toLocaleTimeString([], { hour12: false, hour: '2-digit', minute:'2-digit', second:'2-digit' })}]
-            </span>
-            <span
-              className={`
-                ${log.type === 'error' ? 'text-red-400 font-bold' : ''}
-                ${log.type === 'success' ? 'text-green-400' : ''}
-                ${log.type === 'warning' ? 'text-yellow-400' : ''}
-                ${log.type === 'code' ? 'text-blue-300' : ''}
-                ${log.type === 'info' ? 'text-gray-300' : ''}
-              `}
-            >
-              {log.message}
-            </span>
-          </div>
-        ))}
-        <div ref={bottomRef} />
+        {logs.length > 0 && visible.length === 0 && (
+          <div className="text-gray-500 italic">条件に一致するログはありません。</div>
+        )}
+        {visible.map(({ log, index }) => {
+          const logSource = log.source ?? 'app';
+          const traceback = log.payload?.traceback;
+          const tokens = log.payload?.tokens;
+          return (
+            <div key={index} className="mb-1 break-words">
+              <span className="text-gray-600 mr-2 text-xs">[{formatLogTime(log.timestamp)}]</span>
+              <span className={`mr-2 text-[10px] px-1 rounded border ${SOURCE_CLASSES[logSource]}`}>{LOG_SOURCE_LABELS[logSource]}</span>
+              {log.stage && <span className="mr-2 text-[10px] text-gray-500">{LOG_STAGE_LABELS[log.stage]}</span>}
+              <span className={`whitespace-pre-wrap ${LEVEL_CLASSES[log.type]}`}>{log.message}</span>
+              {tokens && (
+                <span className="ml-2 text-[10px] text-gray-500">
+                  (トークン{tokens.prompt !== undefined ? ` 入力 ${tokens.prompt}` : ''}{tokens.completion !== undefined ? ` 出力 ${tokens.completion}` : ''}{tokens.total !== undefined ? ` 合計 ${tokens.total}` : ''})
+                </span>
+              )}
+              {traceback && (
+                <div className="ml-6 mt-1">
+                  <button onClick={() => toggleTraceback(index)} className="flex items-center gap-1 text-[11px] text-gray-500 hover:text-gray-300">
+                    {openTracebacks.has(index) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                    トレースバック
+                  </button>
+                  {openTracebacks.has(index) && (
+                    <pre className="mt-1 p-2 text-[11px] text-red-300 bg-[#2a1f1f] border border-red-900 rounded whitespace-pre-wrap">{traceback}</pre>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { BarChart3, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { UsageSettings, UsageSnapshot, UsageStoreId, ResetTimeZone, USAGE_STORE_LABELS, RESET_TIME_ZONE_LABELS, recentPeriods } from '../services/usage';
+
+interface UsagePanelProps {
+  settings: UsageSettings;
+  onChange: (settings: UsageSettings) => void;
+  snapshot: UsageSnapshot | null;
+  // 使用量ストアに接続できない場合のメッセージ
+  error?: string | null;
+  onRefresh: () => void;
+  disabled?: boolean;
+}
+
+type ChartMetric = 'calls' | 'tokens';
+
+const CHART_DAYS = 14;
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onChange, snapshot, error, onRefresh, disabled }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [metric, setMetric] = useState<ChartMetric>('calls');
+
+  const update = (patch: Partial<UsageSettings>) => onChange({ ...settings, ...patch });
+
+  const days = snapshot
+    ? recentPeriods(snapshot.period, CHART_DAYS).map(date => {
+        const day = snapshot.history.find(d => d.date === date);
+        return { date, calls: day?.calls ?? 0, tokens: day?.totalTokens ?? 0, prompt: day?.promptTokens ?? 0, completion: day?.completionTokens ?? 0 };
+      })
+    : [];
+  const limit = snapshot ? (metric === 'calls' ? snapshot.limit.calls : snapshot.limit.tokens) : 0;
+  const peak = Math.max(1, limit, ...days.map(d => d[metric]));
+
+  const inputClass = "w-full border border-gray-300 rounded px-2 py-1.5 text-sm bg-white disabled:bg-gray-100";
+  const buttonClass = "flex items-center gap-1 text-xs border border-gray-300 rounded px-2 py-1 bg-white hover:bg-gray-50 text-gray-600 disabled:opacity-50";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full px-6 py-4 flex items-center justify-between text-base font-bold text-gray-800"
+      >
+        <span className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-emerald-600" />
+          使用量
+        </span>
+        <span className="flex items-center gap-2 text-xs font-normal text-gray-500">
+          {snapshot ? `本日 ${snapshot.calls} 回 / ${snapshot.tokens.toLocaleString()} トークン` : '未取得'}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="px-6 pb-6 flex flex-col gap-4 text-sm">
+          {error && <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</p>}
+
+          {snapshot && (
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <div className="flex gap-1">
+                  {(['calls', 'tokens'] as ChartMetric[]).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMetric(m)}
+                      className={`text-xs px-2 py-0.5 rounded border ${metric === m ? 'border-emerald-500 bg-emerald-50 text-emerald-700 font-bold' : 'border-gray-300 text-gray-500'}`}
+                    >
+                      {m === 'calls' ? '呼び出し回数' : 'トークン数'}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-[10px] text-gray-400">次のリセット: {new Date(snapshot.resetsAt).toLocaleString('ja-JP')}</span>
+              </div>
+              <div className="relative flex items-end gap-1 h-32 border-b border-gray-200">
+                {limit > 0 && (
+                  <div className="absolute left-0 right-0 border-t border-dashed border-red-300" style={{ bottom: `${(limit / peak) * 100}%` }}>
+                    <span className="absolute right-0 -top-4 text-[10px] text-red-400">上限 {limit.toLocaleString()}</span>
+                  </div>
+                )}
+                {days.map(d => (
+                  <div
+                    key={d.date}
+                    className={`flex-1 rounded-t ${d.date === snapshot.period ? 'bg-emerald-500' : 'bg-emerald-200'}`}
+                    style={{ height: `${(d[metric] / peak) * 100}%`, minHeight: d[metric] > 0 ? 2 : 0 }}
+                    title={`${d.date}: ${d.calls} 回 / 入力 ${d.prompt.toLocaleString()} + 出力 ${d.completion.toLocaleString()} = ${d.tokens.toLocaleString()} トークン`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-400">
+                <span>{days[0]?.date.slice(5)}</span>
+                <span>{snapshot.period.slice(5)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-gray-500 font-medium">記録先</span>
+              <select value={settings.store} onChange={e => update({ store: e.target.value as UsageStoreId })} disabled={disabled} className={inputClass}>
+                {(Object.keys(USAGE_STORE_LABELS) as UsageStoreId[]).map(id => (
+                  <option key={id} value={id}>{USAGE_STORE_LABELS[id]}</option>
+                ))}
+              </select>
+            </label>
+            {settings.store === 'http' ? (
+              <>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500 font-medium">サーバーURL</span>
+                  <input type="url" value={settings.endpoint} onChange={e => update({ endpoint: e.target.value })} disabled={disabled} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500 font-medium">ユーザーID</span>
+                  <input type="text" value={settings.userId} onChange={e => update({ userId: e.target.value })} disabled={disabled} className={inputClass} />
+                </label>
+                <p className="md:col-span-2 text-xs text-gray-500 bg-gray-50 rounded p-3">
+                  上限とリセット時刻はサーバー側でユーザーごとに設定されます。
+                </p>
+              </>
+            ) : (
+              <>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500 font-medium">1日の呼び出し上限 (0 = 無制限)</span>
+                  <input type="number" min={0} value={settings.maxCalls} onChange={e => update({ maxCalls: Math.max(0, Number(e.target.value) || 0) })} disabled={disabled} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500 font-medium">1日のトークン上限 (0 = 無制限)</span>
+                  <input type="number" min={0} step={1000} value={settings.maxTokens} onChange={e => update({ maxTokens: Math.max(0, Number(e.target.value) || 0) })} disabled={disabled} className={inputClass} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500 font-medium">リセット時刻</span>
+                  <div className="flex gap-2">
+                    <select value={settings.resetHour} onChange={e => update({ resetHour: Number(e.target.value) })} disabled={disabled} className={inputClass}>
+                      {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{h}:00</option>)}
+                    </select>
+                    <select value={settings.resetTimeZone} onChange={e => update({ resetTimeZone: e.target.value as ResetTimeZone })} disabled={disabled} className={inputClass}>
+                      {(Object.keys(RESET_TIME_ZONE_LABELS) as ResetTimeZone[]).map(tz => (
+                        <option key={tz} value={tz}>{RESET_TIME_ZONE_LABELS[tz]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={onRefresh} disabled={disabled} className={buttonClass}>
+              <RefreshCw className="w-3 h-3" />
+              再取得
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
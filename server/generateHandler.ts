@@ -0,0 +1,133 @@
+import { LlmRequest, TokenUsage } from '../services/llm';
+import { SYSTEM_INSTRUCTION, CodeTask, buildPrompt } from '../services/prompts';
+import { isConfirmedPlan, isPlanAnswers } from '../services/taskPlan';
+import { isWorkbookContext } from '../services/workbookProfile';
+import { RateLimiter } from './rateLimit';
+
+// /api/generate の応答は1行1イベントの JSON（NDJSON）
+//   {"text": "..."}   受信したテキストの差分
+//   {"usage": {...}}  トークン使用量（最後に1回）
+//   {"error": "..."}  ストリーミング開始後に発生したエラー
+export type GenerateEvent = { text: string } | { usage: TokenUsage } | { error: string };
+
+export interface GenerateRequestBody {
+  task: CodeTask;
+  model: string;
+  temperature: number;
+}
+
+export type ModelStream = (request: LlmRequest, signal: AbortSignal) => AsyncIterable<{ text: string } | { usage: TokenUsage }>;
+
+export interface GenerateHandlerOptions {
+  stream: ModelStream;
+  rateLimiter?: RateLimiter;
+  // 指定した場合、それ以外のモデル名は拒否する（空配列ならすべて拒否する）
+  allowedModels?: string[];
+}
+
+// プロンプトには指示とブック構成のみを含めるため、これを超えるリクエストは不正とみなす
+const MAX_BODY_BYTES = 256 * 1024;
+
+const errorResponse = (status: number, message: string, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: { code: status, message } }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// プロンプトの組み立てに必要な項目だけを確認する（任意のプロンプトを送れる汎用プロキシにしない）
+const parseBody = (value: any): GenerateRequestBody | null => {
+  const task = value?.task;
+  const instruction = task?.instruction;
+  if (!task || !['plan', 'generate', 'repair'].includes(task.kind)) return null;
+  if (!instruction || !isString(instruction.text) || !isString(instruction.source) || !Array.isArray(instruction.steps) || typeof instruction.index !== 'number') return null;
+  if (!Array.isArray(task.workbooks) || task.workbooks.length === 0 || !task.workbooks.every(isWorkbookContext)) return null;
+  if (task.preserveFormatting !== undefined && typeof task.preserveFormatting !== 'boolean') return null;
+  if (task.redacted !== undefined && typeof task.redacted !== 'boolean') return null;
+  if (task.kind === 'plan' && !isPlanAnswers(task.answers)) return null;
+  if (task.kind !== 'plan' && task.plan !== undefined && !isConfirmedPlan(task.plan)) return null;
+  if (task.kind === 'repair') {
+    const context = task.context;
+    if (!context || !['runtime', 'policy', 'assertion'].includes(context.reason) || !isString(context.failedCode) || !isString(context.traceback) || !Array.isArray(context.stdout)) return null;
+  }
+  if (!isString(value.model) || typeof value.temperature !== 'number') return null;
+  return { task, model: value.model, temperature: Math.min(1, Math.max(0, value.temperature)) };
+};
+
+const clientKey = (request: Request) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+
+export const createGenerateHandler = ({ stream, rateLimiter, allowedModels }: GenerateHandlerOptions) =>
+  async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') return errorResponse(405, "POST のみ受け付けます。", { Allow: 'POST' });
+
+    const limit = rateLimiter?.take(clientKey(request));
+    if (limit && !limit.allowed) {
+      return errorResponse(429, `リクエストが多すぎます。${limit.retryAfterSeconds} 秒後に再試行してください。`, {
+        'Retry-After': String(limit.retryAfterSeconds),
+      });
+    }
+
+    const raw = await request.text();
+    if (new TextEncoder().encode(raw).length > MAX_BODY_BYTES) return errorResponse(413, "リクエストが大きすぎます。");
+    let body: GenerateRequestBody | null = null;
+    try {
+      body = parseBody(JSON.parse(raw));
+    } catch (e) {}
+    if (!body) return errorResponse(400, "リクエストの形式が正しくありません。");
+    if (allowedModels && !allowedModels.includes(body.model)) {
+      return errorResponse(400, `モデル ${body.model} は許可されていません。`);
+    }
+
+    // 形式の確認をすり抜けた値でプロンプトの組み立てが失敗しても、500 ではなく不正なリクエストとして返す
+    let prompt: string;
+    try {
+      prompt = buildPrompt(body.task);
+    } catch (e) {
+      return errorResponse(400, "リクエストの形式が正しくありません。");
+    }
+
+    const llmRequest: LlmRequest = {
+      systemInstruction: SYSTEM_INSTRUCTION,
+      prompt,
+      task: body.task,
+      model: body.model,
+      temperature: body.temperature,
+    };
+
+    // 最初のイベントを受け取るまでに失敗した場合は HTTP ステータスで返し、クライアントの再試行判定に乗せる
+    const iterator = stream(llmRequest, request.signal)[Symbol.asyncIterator]();
+    let first: IteratorResult<{ text: string } | { usage: TokenUsage }>;
+    try {
+      first = await iterator.next();
+    } catch (e: any) {
+      const message = e?.message || "AIの呼び出しに失敗しました。";
+      const status = /429|RESOURCE_EXHAUSTED/.test(message) ? 429 : /503|UNAVAILABLE|overloaded/i.test(message) ? 503 : 502;
+      return errorResponse(status, message);
+    }
+
+    const encoder = new TextEncoder();
+    const line = (event: GenerateEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+    let pending: IteratorResult<{ text: string } | { usage: TokenUsage }> | null = first;
+    const output = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const result = pending ?? await iterator.next();
+          pending = null;
+          if (result.done) controller.close();
+          else controller.enqueue(line(result.value));
+        } catch (e: any) {
+          controller.enqueue(line({ error: e?.message || "AIの応答の受信中にエラーが発生しました。" }));
+          controller.close();
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    });
+
+    return new Response(output, {
+      headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' },
+    });
+  };
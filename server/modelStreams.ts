@@ -0,0 +1,43 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmRequest, TokenUsage } from '../services/llm';
+import { createMockProvider } from '../services/llm/mockProvider';
+import { ModelStream } from './generateHandler';
+
+// サーバーが保持する API キーで Gemini を呼び出す
+export const createGeminiStream = (apiKey: string): ModelStream =>
+  async function* (request: LlmRequest, signal: AbortSignal) {
+    const ai = new GoogleGenAI({ apiKey });
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: request.prompt,
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+        abortSignal: signal,
+      }
+    });
+
+    let usage: TokenUsage | undefined;
+    for await (const chunk of stream) {
+      if (chunk.text) yield { text: chunk.text };
+      // 使用量は最後のチャンクに累計で含まれる
+      if (chunk.usageMetadata) {
+        usage = {
+          prompt: chunk.usageMetadata.promptTokenCount,
+          completion: chunk.usageMetadata.candidatesTokenCount,
+          total: chunk.usageMetadata.totalTokenCount,
+        };
+      }
+    }
+    if (usage) yield { usage };
+  };
+
+// ローカル開発用のスタブ。API キーがなくてもプロキシ経由の流れを確認できるよう、モックの応答を1行ずつ返す
+export const stubStream: ModelStream = async function* (request: LlmRequest) {
+  const { text, usage } = await createMockProvider().generate(request);
+  for (const line of text.split(/(?<=\n)/)) {
+    await new Promise(res => setTimeout(res, 15));
+    yield { text: line };
+  }
+  if (usage) yield { usage };
+};
@@ -0,0 +1,62 @@
+import type { Logger, Plugin } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { vendorPyodide } from './vendorPyodide';
+import { renderServiceWorker } from './serviceWorker';
+import { PYODIDE_VERSION, RUNTIME_DIR, RUNTIME_MANIFEST } from '../services/pyodideRuntime';
+
+// index.html が CDN から読み込むスクリプト
+const EXTERNAL_FILES = ['https://cdn.tailwindcss.com'];
+
+// dev / build の開始時に Pyodide を public/ に取得し、build では sw.js を書き出す。
+// dev では取得に失敗しても起動は続ける（ワーカーの起動時にエラーとして表示される）
+export const offlineSupport = (env: Record<string, string>): Plugin => {
+  let publicDir = 'public';
+  let command: 'build' | 'serve' = 'serve';
+  let logger: Logger | null = null;
+
+  return {
+    name: 'offline-support',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir;
+      command = config.command;
+      logger = config.logger;
+    },
+    async buildStart() {
+      try {
+        await vendorPyodide({
+          publicDir,
+          cdnUrl: env.PYODIDE_CDN_URL || undefined,
+          pypiUrl: env.PYPI_URL || undefined,
+          log: (message) => logger?.info(`[pyodide] ${message}`, { timestamp: true }),
+        });
+      } catch (e: any) {
+        const message = `Pyodide の取得に失敗しました: ${e.message}`;
+        if (command === 'build') this.error(message);
+        this.warn(message);
+      }
+    },
+    async generateBundle(_options, bundle) {
+      if (command !== 'build') return;
+      const manifestText = await readFile(join(publicDir, RUNTIME_DIR, RUNTIME_MANIFEST), 'utf-8');
+      const manifest = JSON.parse(manifestText);
+      const appFiles = ['./', ...Object.keys(bundle).filter(name => !name.endsWith('.map'))].sort();
+      const buildId = createHash('sha256').update(appFiles.join('\n')).digest('hex').slice(0, 12);
+      const runtimeKey = `${PYODIDE_VERSION}-${createHash('sha256').update(manifestText).digest('hex').slice(0, 12)}`;
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: renderServiceWorker({
+          buildId,
+          runtimeKey,
+          appFiles,
+          runtimeFiles: [RUNTIME_MANIFEST, ...manifest.files].map((file: string) => `${RUNTIME_DIR}${file}`),
+          externalFiles: EXTERNAL_FILES,
+        }),
+      });
+    },
+  };
+};
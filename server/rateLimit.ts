@@ -0,0 +1,37 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  // 次に許可されるまでの秒数（allowed が true の場合は 0）
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  take(key: string): RateLimitResult;
+}
+
+// 固定ウィンドウ方式。サーバーレス環境ではインスタンスごとのメモリに保持されるため、目安としての制限になる
+// （複数インスタンスで共有する厳密な制限が必要な場合は、共有ストアを使う実装に置き換える）
+export const createFixedWindowLimiter = (limit: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = Date.now();
+
+  return {
+    take: (key: string) => {
+      const now = Date.now();
+      // ウィンドウごとに期限切れのエントリを削除し、直近のウィンドウで使われたキーだけを保持する
+      if (now - lastSweep >= windowMs) {
+        windows.forEach((w, k) => { if (now - w.start >= windowMs) windows.delete(k); });
+        lastSweep = now;
+      }
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+      }
+      window.count++;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+};
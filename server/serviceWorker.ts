@@ -0,0 +1,68 @@
+// ビルド時に dist/sw.js として書き出すサービスワーカー。buildId が変わるとファイルの内容も変わり、ブラウザが更新を検出する
+//   アプリ本体: ビルドごとのキャッシュ。画面遷移はネットワーク優先（オフライン時はキャッシュした index.html）
+//   Pyodide:    runtime-manifest.json の内容ごとのキャッシュ。ビルドが変わっても、Pyodide やホイールのバージョンを上げるまで再取得しない
+//   /api/ 以下（AI の呼び出し）はキャッシュしない
+
+export interface ServiceWorkerOptions {
+  buildId: string;
+  // Pyodide のバージョンと runtime-manifest.json のハッシュ
+  runtimeKey: string;
+  // サービスワーカーの位置からの相対パス
+  appFiles: string[];
+  runtimeFiles: string[];
+  // index.html が読み込む外部のスクリプト（no-cors で取得して保存する）
+  externalFiles: string[];
+}
+
+export const renderServiceWorker = ({ buildId, runtimeKey, appFiles, runtimeFiles, externalFiles }: ServiceWorkerOptions): string => `
+const BUILD_ID = ${JSON.stringify(buildId)};
+const APP_CACHE = "autopilot-app-" + BUILD_ID;
+const RUNTIME_CACHE = "autopilot-pyodide-" + ${JSON.stringify(runtimeKey)};
+const APP_FILES = ${JSON.stringify(appFiles)};
+const RUNTIME_FILES = ${JSON.stringify(runtimeFiles)};
+const EXTERNAL_FILES = ${JSON.stringify(externalFiles)};
+const INDEX_URL = new URL("index.html", self.location).href;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil((async () => {
+    const app = await caches.open(APP_CACHE);
+    await app.addAll(APP_FILES);
+    await Promise.all(EXTERNAL_FILES.map(async (url) => {
+      try {
+        await app.put(url, await fetch(url, { mode: "no-cors" }));
+      } catch (e) {}
+    }));
+    // 以前のビルドで取得済みのファイルは取得し直さない
+    const runtime = await caches.open(RUNTIME_CACHE);
+    const cached = await Promise.all(RUNTIME_FILES.map((file) => runtime.match(file)));
+    await runtime.addAll(RUNTIME_FILES.filter((file, i) => !cached[i]));
+  })());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    const keep = [APP_CACHE, RUNTIME_CACHE];
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((key) => key.startsWith("autopilot-") && !keep.includes(key)).map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// 画面の「再読み込みして更新」から送られる
+self.addEventListener("message", (event) => {
+  if (event.data === "skipWaiting") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin && url.pathname.includes("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(fetch(request).catch(async () => (await caches.match(INDEX_URL, { cacheName: APP_CACHE })) ?? Response.error()));
+    return;
+  }
+  event.respondWith((async () => (await caches.match(request)) ?? fetch(request))());
+});
+`;
@@ -0,0 +1,134 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import {
+  PYODIDE_VERSION, RUNTIME_DIR, RUNTIME_MANIFEST, WHEELS_DIR, CORE_FILES, BOOT_PACKAGES, BOOT_WHEELS, PINNED_WHEELS,
+  RuntimeManifest, checkRuntimeManifest,
+} from '../services/pyodideRuntime';
+
+// Pyodide 本体・パッケージ・ホイールを public/ 以下に取得する（dev / build の開始時に実行）。
+// 社内のミラーを使う場合は PYODIDE_CDN_URL / PYPI_URL で取得元を変更する
+export interface VendorOptions {
+  publicDir: string;
+  cdnUrl?: string;
+  pypiUrl?: string;
+  log?: (message: string) => void;
+}
+
+// pyodide-lock.json のうち使う部分
+interface PyodideLock {
+  packages: Record<string, { file_name: string; sha256: string; depends: string[] }>;
+}
+
+// PyPI の JSON API (/pypi/<name>/<version>/json) のうち使う部分
+interface PypiRelease {
+  urls: { packagetype: string; filename: string; url: string; digests: { sha256: string } }[];
+}
+
+const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+const download = async (url: string, expectedSha256: string): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} の取得に失敗しました (HTTP ${response.status})`);
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (sha256(data) !== expectedSha256) throw new Error(`${url} のハッシュが一致しません`);
+  return data;
+};
+
+const readManifest = async (dir: string): Promise<RuntimeManifest | null> => {
+  try {
+    return JSON.parse(await readFile(join(dir, RUNTIME_MANIFEST), 'utf-8'));
+  } catch (e) {
+    return null;
+  }
+};
+
+// 取得済みで、任意のホイールも含めて現在の定義と一致する場合は何もしない
+const isUpToDate = (manifest: RuntimeManifest | null): manifest is RuntimeManifest =>
+  !!manifest && checkRuntimeManifest(manifest) === null &&
+  Object.entries(manifest.wheels).every(([name, wheel]) => PINNED_WHEELS[name]?.version === wheel.version && PINNED_WHEELS[name].sha256 === wheel.sha256);
+
+// pyodide-lock.json の depends をたどり、起動時に読み込むパッケージの一覧を得る
+const packageClosure = (lock: PyodideLock, names: string[]): string[] => {
+  const result = new Set<string>();
+  const visit = (name: string) => {
+    const key = name.toLowerCase();
+    if (result.has(key)) return;
+    const entry = lock.packages[key];
+    if (!entry) throw new Error(`pyodide-lock.json にパッケージ ${name} がありません`);
+    result.add(key);
+    entry.depends.forEach(visit);
+  };
+  names.forEach(visit);
+  return [...result];
+};
+
+// PyPI の JSON API から、固定したバージョンの純 Python ホイールを探す
+const findWheel = async (pypiUrl: string, name: string, version: string) => {
+  const response = await fetch(`${pypiUrl}/${name}/${version}/json`);
+  if (!response.ok) throw new Error(`PyPI から ${name} ${version} の情報を取得できませんでした (HTTP ${response.status})`);
+  const release: PypiRelease = await response.json();
+  const wheel = release.urls.find(u => u.packagetype === 'bdist_wheel' && /-none-any\.whl$/.test(u.filename));
+  return wheel ? { url: wheel.url, file: wheel.filename, sha256: wheel.digests.sha256 } : null;
+};
+
+export const vendorPyodide = async ({
+  publicDir,
+  cdnUrl = `https://cdn.jsdelivr.net/pyodide/v${PYODIDE_VERSION}/full/`,
+  pypiUrl = 'https://pypi.org/pypi',
+  log = () => {},
+}: VendorOptions): Promise<RuntimeManifest> => {
+  const dir = join(publicDir, RUNTIME_DIR);
+  const existing = await readManifest(dir);
+  if (isUpToDate(existing)) return existing;
+
+  // 途中で失敗した場合に不完全な環境が残らないよう、一時ディレクトリに取得してから置き換える
+  const staging = `${dir.replace(/\/$/, '')}.partial`;
+  await rm(staging, { recursive: true, force: true });
+  const files: string[] = [];
+  const save = async (path: string, data: Uint8Array) => {
+    await mkdir(dirname(join(staging, path)), { recursive: true });
+    await writeFile(join(staging, path), data);
+    files.push(path);
+  };
+
+  log(`Pyodide ${PYODIDE_VERSION} を ${cdnUrl} から取得しています...`);
+  for (const [file, pinned] of Object.entries(CORE_FILES)) {
+    await save(file, await download(`${cdnUrl}${file}`, pinned));
+  }
+  const lock: PyodideLock = JSON.parse(await readFile(join(staging, 'pyodide-lock.json'), 'utf-8'));
+  const packages = packageClosure(lock, BOOT_PACKAGES);
+  log(`パッケージを取得しています: ${packages.join(', ')}`);
+  for (const name of packages) {
+    const entry = lock.packages[name];
+    await save(entry.file_name, await download(`${cdnUrl}${entry.file_name}`, entry.sha256));
+  }
+
+  // 起動時に使うホイールがない場合は失敗とし、.xls 用のものは警告に留める（同梱しなければ .xls の読み込み時にエラーになる）
+  // ハッシュは PyPI の応答ではなく PINNED_WHEELS の固定値と照合する（取得元のミラーが差し替えられていても検出できる）
+  const wheels: RuntimeManifest['wheels'] = {};
+  for (const [name, { version, sha256: pinned }] of Object.entries(PINNED_WHEELS)) {
+    const required = BOOT_WHEELS.some(boot => boot === name || PINNED_WHEELS[boot].requires.includes(name));
+    const wheel = await findWheel(pypiUrl, name, version);
+    if (!wheel) {
+      if (required) throw new Error(`${name} ${version} の純 Python ホイールが PyPI にありません`);
+      log(`警告: ${name} ${version} の純 Python ホイールがないため同梱しません。`);
+      continue;
+    }
+    if (wheel.sha256 !== pinned) throw new Error(`${wheel.file} のハッシュが固定値と一致しません (PyPI: ${wheel.sha256})`);
+    await save(`${WHEELS_DIR}${wheel.file}`, await download(wheel.url, pinned));
+    wheels[name] = { version, file: wheel.file, sha256: pinned };
+  }
+
+  const manifest: RuntimeManifest = { pyodideVersion: PYODIDE_VERSION, files, wheels, createdAt: new Date().toISOString() };
+  await writeFile(join(staging, RUNTIME_MANIFEST), JSON.stringify(manifest, null, 2));
+  await rm(dir, { recursive: true, force: true });
+  await rename(staging, dir);
+  // 古いバージョンはビルドに含めない
+  const parent = dirname(dir.replace(/\/$/, ''));
+  for (const entry of await readdir(parent)) {
+    if (join(parent, entry, '/') !== dir) await rm(join(parent, entry), { recursive: true, force: true });
+  }
+  log(`Pyodide ${PYODIDE_VERSION} を ${dir} に配置しました (${files.length} ファイル)。`);
+  return manifest;
+};
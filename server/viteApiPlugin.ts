@@ -0,0 +1,63 @@
+import type { Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createGenerateHandler } from './generateHandler';
+import { createGeminiStream, stubStream } from './modelStreams';
+
+// Node の req/res と Web の Request/Response を相互に変換する
+// 本文を読み終えた req の close は接続の切断を表さないため、応答を送り終える前に res が閉じたら中断する
+const toRequest = async (req: IncomingMessage, res: ServerResponse): Promise<Request> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([key, value]) => {
+    if (typeof value === 'string') headers.set(key, value);
+    else if (Array.isArray(value)) headers.set(key, value.join(', '));
+  });
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return new Request(`http://localhost${req.url ?? '/'}`, {
+    method: req.method,
+    headers,
+    body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+    signal: controller.signal,
+  });
+};
+
+const sendResponse = async (response: Response, res: ServerResponse) => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, key) => res.setHeader(key, value));
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (res.destroyed) {
+        await reader.cancel();
+        return;
+      }
+      res.write(value);
+    }
+  }
+  res.end();
+};
+
+// 開発サーバーで /api/generate を提供する。API キーがない場合はスタブ（モックの応答）を返す
+export const apiDevServer = (apiKey: string | undefined): Plugin => ({
+  name: 'excel-autopilot-api',
+  configureServer(server) {
+    const handler = createGenerateHandler({ stream: apiKey ? createGeminiStream(apiKey) : stubStream });
+    server.config.logger.info(apiKey
+      ? '  /api/generate: GEMINI_API_KEY を使用して Gemini を呼び出します'
+      : '  /api/generate: GEMINI_API_KEY が未設定のため、スタブの応答を返します');
+    server.middlewares.use('/api/generate', async (req, res) => {
+      try {
+        await sendResponse(await handler(await toRequest(req, res)), res);
+      } catch (e: any) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: { code: 500, message: e?.message ?? String(e) } }));
+      }
+    });
+  },
+});
@@ -0,0 +1,55 @@
+import { AssertionResult, OutputAssertion, OutputAssertionKind } from './pyodideProtocol';
+
+export const ASSERTION_KIND_LABELS: Record<OutputAssertionKind, string> = {
+  rowCount: '行数',
+  sheetExists: 'シートの存在',
+  columnExists: '列の存在',
+  columnNumeric: '数値の列',
+  noBlanks: '空欄なし',
+  unique: '重複なし',
+  sumPreserved: '合計の維持',
+};
+
+export const MAX_ASSERTIONS = 8;
+
+const COLUMN_KINDS: OutputAssertionKind[] = ['columnExists', 'columnNumeric', 'noBlanks', 'unique', 'sumPreserved'];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// レシピの読み込みでも使う
+export const isOutputAssertion = (value: any): value is OutputAssertion => {
+  if (!value || !isNonEmptyString(value.description) || !(value.kind in ASSERTION_KIND_LABELS)) return false;
+  if (value.sheet !== undefined && !isNonEmptyString(value.sheet)) return false;
+  if (value.kind === 'rowCount') return Number.isInteger(value.change);
+  if (value.kind === 'sheetExists') return value.sheet !== undefined;
+  return isNonEmptyString(value.column);
+};
+
+const describeDefault = (value: any): string =>
+  COLUMN_KINDS.includes(value.kind)
+    ? `列「${value.column}」: ${ASSERTION_KIND_LABELS[value.kind as OutputAssertionKind]}`
+    : ASSERTION_KIND_LABELS[value.kind as OutputAssertionKind] ?? String(value.kind);
+
+// コードブロックの後の ```json {"assertions": [...]} ``` を読み取る。
+// 形式の誤った項目は捨てる（検証項目がなくても生成自体は成功とする）
+export const extractAssertions = (text: string): OutputAssertion[] => {
+  const block = [...text.matchAll(/```json([\s\S]*?)```/g)].pop();
+  if (!block) return [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(block[1]);
+  } catch (e) {
+    return [];
+  }
+  const items: any[] = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.assertions) ? parsed.assertions : [];
+  return items
+    .map(item => item && typeof item === 'object' && !isNonEmptyString(item.description) ? { ...item, description: describeDefault(item) } : item)
+    .map(item => item && item.sheet === null ? { ...item, sheet: undefined } : item)
+    .filter(isOutputAssertion)
+    .slice(0, MAX_ASSERTIONS);
+};
+
+export const formatAssertionResult = (result: AssertionResult): string => {
+  const scope = result.assertion.sheet ? `[${result.assertion.sheet}] ` : '';
+  return `${scope}${result.assertion.description}: ${result.detail}`;
+};
@@ -0,0 +1,115 @@
+import { normalizeInputs, planInputMounts, replacePrimaryInput, extractWorkbooks, runPythonTransformation, convertOutputs, OutputFile, RunOptions } from './pyodideService';
+import { OUTPUT_PATH } from './pyodideProtocol';
+import { Recipe, checkRecipeCompatibility } from './recipes';
+import { formatAssertionResult } from './assertions';
+import { OutputFormatChoice, CsvEncoding, detectInputFormat, resolveOutputFormat } from './fileFormats';
+import { outputDownloadName, baseName } from '../utils/download';
+import { ZipEntry } from '../utils/zip';
+
+export type BatchJobStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  // フォルダから選択した場合のフォルダ内の相対パス
+  relativePath: string;
+  status: BatchJobStatus;
+  outputs: OutputFile[];
+  logs: string[];
+  error?: string;
+  durationMs?: number;
+}
+
+export const BATCH_STATUS_LABELS: Record<BatchJobStatus, string> = {
+  pending: '待機中',
+  running: '実行中',
+  success: '成功',
+  error: '失敗',
+  cancelled: '中止',
+};
+
+export const createBatchJob = (file: File, relativePath: string = file.name): BatchJob => ({
+  id: crypto.randomUUID(),
+  file,
+  relativePath,
+  status: 'pending',
+  outputs: [],
+  logs: [],
+});
+
+// レシピ（または1件目で生成したスクリプト）を1ファイルに適用する。複数手順の場合はメインの出力を次の手順に引き継ぐ
+// 手順の検証項目を満たさない出力は、対話実行でダウンロードを止めるのと同様に、ジョブの失敗として扱う
+export const runBatchJob = async (
+  job: BatchJob,
+  recipe: Recipe,
+  logCallback: (msg: string) => void,
+  options: RunOptions
+): Promise<OutputFile[]> => {
+  let mounts = planInputMounts(await normalizeInputs([job.file], logCallback), 0);
+
+  const [extracted] = await extractWorkbooks([mounts[0].file]);
+  const { errors, warnings } = checkRecipeCompatibility(recipe, extracted.profile, 1);
+  warnings.forEach(w => logCallback(`警告: ${w}`));
+  if (errors.length > 0) throw new Error(errors.join(' '));
+
+  let outputs: OutputFile[] = [];
+  for (const [index, step] of recipe.steps.entries()) {
+    if (recipe.steps.length > 1) logCallback(`手順 ${index + 1}/${recipe.steps.length}: ${step.instruction}`);
+    const result = await runPythonTransformation(step.script, mounts, (msg, meta) => {
+      // ジョブごとのログは文字列のみなので、生成コードの出力は接頭辞で区別する
+      logCallback(meta?.source === 'python' ? `[Python] ${msg}` : msg);
+    }, { ...options, assertions: step.assertions });
+    if (result.checkError) logCallback(`警告: 出力の検証を実行できませんでした: ${result.checkError}`);
+    const failedChecks = result.checks?.filter(c => !c.passed) ?? [];
+    if (failedChecks.length > 0) {
+      throw new Error(`出力の検証に失敗しました: ${failedChecks.map(formatAssertionResult).join(' / ')}`);
+    }
+    outputs = result.outputs;
+    const mainOutput = outputs.find(o => o.name === OUTPUT_PATH) ?? outputs[0];
+    mounts = replacePrimaryInput(mounts, mainOutput.blob);
+  }
+  return outputs;
+};
+
+// 成功したジョブの出力（選択された形式に変換）と、全ジョブの結果をまとめた集計CSVを ZIP の中身として返す
+export const collectBatchOutputs = async (
+  jobs: BatchJob[],
+  format: OutputFormatChoice,
+  encoding: CsvEncoding,
+  logCallback: (msg: string) => void
+): Promise<{ entries: ZipEntry[]; summary: (string | number)[][] }> => {
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  const summary: (string | number)[][] = [['ファイル', '結果', '出力ファイル', 'エラー', '所要時間(秒)']];
+
+  for (const job of jobs) {
+    const names: string[] = [];
+    if (job.status === 'success') {
+      const inputFormat = detectInputFormat(job.file.name) ?? 'xlsx';
+      const target = resolveOutputFormat(format, inputFormat);
+      const converted = await convertOutputs(job.outputs, target, {
+        encoding,
+        vbaSource: target === 'xlsm' ? job.file : undefined,
+      }, logCallback);
+      // フォルダ構成を保ち、同名ファイルが重なる場合は連番を付ける
+      const folder = job.relativePath.includes('/') ? job.relativePath.slice(0, job.relativePath.lastIndexOf('/') + 1) : '';
+      converted.forEach(output => {
+        let name = folder + outputDownloadName(job.file.name, output.name);
+        for (let n = 2; usedNames.has(name); n++) {
+          name = `${folder}${baseName(outputDownloadName(job.file.name, output.name))}_${n}${output.name.slice(output.name.lastIndexOf('.'))}`;
+        }
+        usedNames.add(name);
+        names.push(name);
+        entries.push({ name, blob: output.blob });
+      });
+    }
+    summary.push([
+      job.relativePath,
+      BATCH_STATUS_LABELS[job.status],
+      names.join(' / '),
+      job.error ?? '',
+      job.durationMs !== undefined ? (job.durationMs / 1000).toFixed(1) : '',
+    ]);
+  }
+  return { entries, summary };
+};
@@ -0,0 +1,54 @@
+// アプリ全体で共有する IndexedDB。ストアを追加する場合は DB_VERSION を上げて upgrade に追記する
+const DB_NAME = 'excel_autopilot';
+const DB_VERSION = 2;
+
+export type StoreName = 'recipes' | 'jobs';
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains('recipes')) {
+    db.createObjectStore('recipes', { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains('jobs')) {
+    db.createObjectStore('jobs', { keyPath: 'id' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("データベースを開けませんでした。"));
+    });
+    // 失敗した場合は次回の呼び出しで再試行する
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? request.error ?? new Error("データベースの操作に失敗しました。"));
+    tx.onabort = () => reject(tx.error ?? new Error("データベースの操作が中断されました。"));
+  });
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  withStore<T[]>(store, 'readonly', s => s.getAll());
+
+export const putRecord = <T>(store: StoreName, record: T): Promise<IDBValidKey> =>
+  withStore(store, 'readwrite', s => s.put(record));
+
+export const deleteRecord = (store: StoreName, key: IDBValidKey): Promise<undefined> =>
+  withStore(store, 'readwrite', s => s.delete(key));
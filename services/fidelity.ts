@@ -0,0 +1,23 @@
+import { FidelityIssue, FidelityKind, FidelityReport } from './pyodideProtocol';
+
+export const FIDELITY_LABELS: Record<FidelityKind, string> = {
+  styles: '書式付きのセル',
+  formulas: '数式',
+  validations: '入力規則',
+  conditionalFormats: '条件付き書式',
+  merges: '結合セル',
+  charts: 'グラフ',
+  images: '画像',
+  definedNames: '名前付き範囲',
+};
+
+export const formatFidelityIssue = (issue: FidelityIssue): string => {
+  const scope = issue.sheet === null ? 'ブック全体' : `シート「${issue.sheet}」`;
+  return `${scope}: ${FIDELITY_LABELS[issue.kind]}が ${issue.before} → ${issue.after} に減りました`;
+};
+
+// 行の削除など指示による正当な減少も含むため、エラーではなく警告として扱う
+export const describeFidelity = (report: FidelityReport): string[] => [
+  ...report.lostSheets.map(name => `シート「${name}」が出力にありません`),
+  ...report.issues.map(formatFidelityIssue),
+];
@@ -0,0 +1,43 @@
+// .ods は読み書きに odfpy が必要だが、Pyodide にも PyPI にもホイールがないため扱わない
+export type InputFormat = 'xlsx' | 'xlsm' | 'xls' | 'csv';
+export type OutputFormat = 'xlsx' | 'xlsm' | 'csv';
+export type OutputFormatChoice = 'auto' | OutputFormat;
+export type CsvEncoding = 'utf-8-sig' | 'utf-8' | 'cp932';
+
+export const INPUT_ACCEPT = ".xlsx,.xlsm,.xls,.csv";
+
+export const MIME_TYPES: Record<OutputFormat, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xlsm: "application/vnd.ms-excel.sheet.macroEnabled.12",
+  csv: "text/csv",
+};
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormatChoice, string> = {
+  auto: '入力と同じ',
+  xlsx: 'Excel (.xlsx)',
+  xlsm: 'マクロ有効 (.xlsm)',
+  csv: 'CSV (.csv)',
+};
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8-sig': 'UTF-8 (BOM付き)',
+  'utf-8': 'UTF-8',
+  'cp932': 'Shift_JIS (CP932)',
+};
+
+export const detectInputFormat = (fileName: string): InputFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  return ext === 'xlsx' || ext === 'xlsm' || ext === 'xls' || ext === 'csv' ? ext : null;
+};
+
+// xlsx / xlsm はそのまま openpyxl で読めるため、ワーカーでの変換は不要
+export const needsNormalization = (format: InputFormat) => format !== 'xlsx' && format !== 'xlsm';
+
+// .xls は書き出せないため xlsx に、.xlsm は VBA の元になる入力がある場合のみ選択できる
+export const resolveOutputFormat = (choice: OutputFormatChoice, inputFormat: InputFormat): OutputFormat => {
+  const format = choice === 'auto' ? (inputFormat === 'xls' ? 'xlsx' : inputFormat) : choice;
+  return format === 'xlsm' && inputFormat !== 'xlsm' ? 'xlsx' : format;
+};
+
+export const replaceExtension = (fileName: string, format: OutputFormat) =>
+  fileName.replace(/\.[^/.]+$/, "") + `.${format}`;
@@ -1,82 +1,176 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { getProvider, LlmSettings, TokenUsage } from "./llm";
+import { WorkbookContext } from "./workbookProfile";
+import { StageInstruction } from "./instructions";
+import { SYSTEM_INSTRUCTION, CodeTask, RepairContext, buildPrompt } from "./prompts";
+import { ConfirmedPlan, PlanAnswer, PlanDraft, parsePlanDraft } from "./taskPlan";
+import { OutputAssertion } from "./pyodideProtocol";
+import { extractAssertions } from "./assertions";
+import { OutboundPayload, PrivacyMode, RedactionVault, redactTask, restoreText, countPlaceholders } from "./privacy";
+
+export type { RepairContext } from "./prompts";
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super("ユーザーによってコード生成がキャンセルされました。");
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface GenerateOptions {
+  onRetry?: (attempt: number, message: string) => void;
+  // 受信途中のコード（コードブロックが閉じる前の部分を含む）
+  onPartialCode?: (code: string) => void;
+  signal?: AbortSignal;
+  // 書式保持モードのプロンプトで生成する
+  preserveFormatting?: boolean;
+  // 利用者が確認した作業計画（生成・修復のプロンプトに含める）
+  plan?: ConfirmedPlan;
+  // 送信前に個人情報を置き換え、応答のプレースホルダーを元に戻す（省略時は置き換えない）
+  privacy?: { mode: PrivacyMode; vault: RedactionVault };
+  // 送信の直前に送信内容を渡す。false を返した場合は送信せずに中止する
+  onPayload?: (payload: OutboundPayload) => Promise<boolean>;
+}
+
+export interface GenerationResult {
+  code: string;
+  usage?: TokenUsage;
+  // コードの後に出力された検証項目（修復の応答では使わない）
+  assertions: OutputAssertion[];
+}
+
+export interface PlanResult {
+  draft: PlanDraft;
+  usage?: TokenUsage;
+}
+
+// 送信内容の確認待ちも中断できるようにする。待ち終えたらリスナーを外す
+const untilAborted = <T>(promise: Promise<T>, signal?: AbortSignal) => new Promise<T>((res, rej) => {
+  if (signal?.aborted) {
+    rej(new GenerationCancelledError());
+    return;
+  }
+  const onAbort = () => rej(new GenerationCancelledError());
+  signal?.addEventListener('abort', onAbort, { once: true });
+  promise.then(res, rej).finally(() => signal?.removeEventListener('abort', onAbort));
+});
+
+// 中断された場合は待機を打ち切って reject する
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((res, rej) => {
+  if (signal?.aborted) {
+    rej(new GenerationCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    rej(new GenerationCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    res();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const extractPythonCode = (text: string): string => {
+  const codeMatch = text.match(/```python([\s\S]*?)```/);
+  if (codeMatch && codeMatch[1]) {
+    return codeMatch[1].trim();
+  }
+  return text.replace(/```python/g, '').replace(/```/g, '').trim();
+};
 
-const SYSTEM_INSTRUCTION = `
-あなたは世界最高峰の「Excel自動編集エンジニア」です。Python、特に \`pandas\` と \`openpyxl\` ライブラリの扱いに精通しています。
+const extractPartialCode = (text: string): string => {
+  const start = text.indexOf('```python');
+  const body = start >= 0 ? text.slice(start + '```python'.length) : text;
+  const end = body.indexOf('```');
+  return (end >= 0 ? body.slice(0, end) : body).replace(/^\n/, '');
+};
 
-あなたの目的は、最初のシートのセル「A1」にある指示に基づいて、Excelファイルを操作するPythonコードを生成することです。
+export const generateExcelEditCode = async (
+  instruction: StageInstruction,
+  workbooks: WorkbookContext[],
+  settings: LlmSettings,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> => {
+  return requestCode({ kind: 'generate', instruction, workbooks, plan: options.plan, preserveFormatting: options.preserveFormatting }, settings, options);
+};
 
-**重要ルール:**
-1.  **入力ファイル**: \`input.xlsx\` を読み込んでください。
-2.  **出力ファイル**: **必ず \`output.xlsx\` という名前で保存してください。**
-3.  **環境**: ブラウザ内のPython環境（Pyodide）で動作します。\`pandas\`、\`openpyxl\`、\`json\` が利用可能です。
-4.  **注意点 (重要)**: 
-    - \`openpyxl.cell.text\` から \`CellRichText\` をインポートしないでください。
-    - データの正確性を最優先してください。
-    - 基本的に \`pandas\` を使用してデータを処理し、最後に \`output.xlsx\` へ保存してください。
-    - **読み取ったセルの値が空であった場合（NaNやNone）、書き込みや貼り付けの際には空欄（"" または None）として適切に扱ってください。**
-5.  **言語**: ユーザーは日本人です。指示は日本語です。ログメッセージも日本語にしてください。
+export const repairExcelEditCode = async (
+  instruction: StageInstruction,
+  workbooks: WorkbookContext[],
+  context: RepairContext,
+  settings: LlmSettings,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> => {
+  return requestCode({ kind: 'repair', instruction, workbooks, context, plan: options.plan, preserveFormatting: options.preserveFormatting }, settings, options);
+};
 
-**生成プロセスの要件:**
-- セルA1の指示を厳密に解釈してください。
-- A1セル自体の指示内容は、そのまま残すか、データ行として扱わないように注意してください。
-- 最後に必ず \`output.xlsx\` を生成するコードを含めてください。
-`;
+// answers が空の場合は、計画の代わりに確認の質問が返ることがある
+export const planExcelEdit = async (
+  instruction: StageInstruction,
+  workbooks: WorkbookContext[],
+  answers: PlanAnswer[],
+  settings: LlmSettings,
+  options: GenerateOptions = {}
+): Promise<PlanResult> => {
+  const { text, usage } = await requestText({ kind: 'plan', instruction, workbooks, answers, preserveFormatting: options.preserveFormatting }, settings, options);
+  return { draft: parsePlanDraft(text), usage };
+};
 
-const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+const requestCode = async (task: CodeTask, settings: LlmSettings, options: GenerateOptions): Promise<GenerationResult> => {
+  const { onPartialCode } = options;
+  const { text, usage } = await requestText(task, settings, options, onPartialCode ? (partial) => onPartialCode(extractPartialCode(partial)) : undefined);
+  return { code: extractPythonCode(text), usage, assertions: extractAssertions(text) };
+};
 
-export const generateExcelEditCode = async (
-  a1Instruction: string,
-  columns: string[],
-  onRetry?: (attempt: number, message: string) => void
-): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("APIキーが設定されていません。Vercelの環境変数を確認してください。");
+const requestText = async (
+  task: CodeTask,
+  settings: LlmSettings,
+  { onRetry, signal, privacy, onPayload }: GenerateOptions,
+  onText?: (text: string) => void
+): Promise<{ text: string; usage?: TokenUsage }> => {
+  const provider = getProvider(settings);
+  // Gemini プロキシにはこの作業内容を送り、サーバー側で同じプロンプトを組み立てる
+  const sent = privacy ? redactTask(task, privacy.mode, privacy.vault) : task;
+  const prompt = buildPrompt(sent);
+  const restore = (text: string) => privacy ? restoreText(text, privacy.vault) : text;
+
+  if (onPayload) {
+    const approved = await untilAborted(onPayload({
+      kind: task.kind,
+      provider: provider.label,
+      model: settings.model,
+      mode: privacy?.mode ?? 'off',
+      systemInstruction: SYSTEM_INSTRUCTION,
+      prompt,
+      task: sent,
+      replaced: privacy ? countPlaceholders(prompt, privacy.vault) : {},
+    }), signal);
+    if (!approved) throw new GenerationCancelledError();
   }
 
-  // Create instance right before use to ensure fresh config
-  const ai = new GoogleGenAI({ apiKey });
-  const modelName = 'gemini-3-flash-preview';
-
-  const prompt = `
-    Excelファイルの自動編集用スクリプトを作成してください。
-    
-    **指示内容 (A1セル):** "${a1Instruction}"
-    **現在の列構成:** ${columns.join(', ')}
-    
-    **要件:**
-    - 'input.xlsx' を読み込み、指示通りに加工して 'output.xlsx' に保存する。
-    - 'openpyxl.cell.text' からの 'CellRichText' インポートは避けること。
-    - 進捗を日本語で print 出力すること。
-    
-    Pythonコードのみを \`\`\`python ... \`\`\` 形式で出力してください。
-  `;
-
   let lastError: any;
   const maxRetries = 8; 
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          temperature: 0.1,
-        }
+      const { text, usage } = await provider.generate({
+        systemInstruction: SYSTEM_INSTRUCTION,
+        prompt,
+        task: sent,
+        model: settings.model,
+        temperature: settings.temperature,
+      }, {
+        signal,
+        onText: onText ? (partial) => onText(restore(partial)) : undefined,
       });
-
-      const text = response.text;
       if (!text) throw new Error("AIからの応答が空です。");
 
-      const codeMatch = text.match(/```python([\s\S]*?)```/);
-      if (codeMatch && codeMatch[1]) {
-        return codeMatch[1].trim();
-      }
-      return text.replace(/```python/g, '').replace(/```/g, '').trim();
+      return { text: restore(text), usage };
 
     } catch (error: any) {
+      if (signal?.aborted) throw new GenerationCancelledError();
       lastError = error;
       
       const errorMsg = error.message || (typeof error === 'string' ? error : "");
@@ -97,7 +191,7 @@ export const generateExcelEditCode = async (
         const backoffMs = Math.pow(1.8, attempt) * 1500 + Math.random() * 1000;
         const statusText = errorMsg.includes("Rpc failed") ? "通信エラー" : "サーバー混雑";
         onRetry?.(attempt + 1, `${statusText}が発生しました。再試行しています (${attempt + 1}/${maxRetries})...`);
-        await delay(backoffMs);
+        await delay(backoffMs, signal);
         continue;
       }
       
@@ -0,0 +1,560 @@
+// 生成コードから import できる Python ヘルパーパッケージ（autopilot）。
+// ワーカーの起動時に HELPER_DIR 以下へ配置し、API の一覧はシステム指示にも載せる。
+
+export const HELPER_PACKAGE = 'autopilot';
+// 関数の追加は minor、引数や戻り値の変更は major を上げる（保存済みレシピのスクリプトが依存するため）
+export const HELPER_PACKAGE_VERSION = '1.0.0';
+
+export interface HelperFunctionDoc {
+  signature: string;
+  description: string;
+}
+
+export const HELPER_API: HelperFunctionDoc[] = [
+  {
+    signature: 'read_table(source="input.xlsx", sheet=None, header_row=None)',
+    description: '表を DataFrame で読む。ヘッダー行は省略時に推定し、A1 の指示行は読み飛ばす。index は Excel の行番号、列名は normalize_jp_text で正規化済み。',
+  },
+  {
+    signature: 'detect_header_row(ws)',
+    description: 'ヘッダー行（1始まり）を推定する。',
+  },
+  {
+    signature: 'normalize_jp_text(value)',
+    description: '全角英数字・記号を半角に、半角カナを全角に揃え、空白とハイフンを正規化する。文字列以外はそのまま返す。',
+  },
+  {
+    signature: 'normalize_columns(df)',
+    description: '列名を normalize_jp_text で揃えた DataFrame を返す。',
+  },
+  {
+    signature: 'parse_jp_date(value, default=None)',
+    description: '「令和6年1月5日」「R6.1.5」「2024年1月5日」「2024/1/5」「20240105」、Excel のシリアル値などを datetime.date に変換する。解釈できなければ default。',
+  },
+  {
+    signature: 'clean_value(value)',
+    description: 'NaN / NaT / None を空欄（None）に、numpy の値を Python の値にしてセルに書ける形にする。',
+  },
+  {
+    signature: 'write_df_preserving_style(df, ws, header_row=None, keep_formulas=True)',
+    description: 'DataFrame を既存のシートに書き戻す。書式・列幅・入力規則は残り、新しい列・行は隣の書式を引き継ぐ。数式セルは上書きしない。',
+  },
+  {
+    signature: 'add_summary_sheet(wb, df, group_by=None, values=None, agg="sum", title="集計")',
+    description: 'df を group_by ごとに集計したシートを追加する（同名のシートは置き換える）。',
+  },
+];
+
+export const HELPER_PACKAGE_FILES: Record<string, string> = {
+  'autopilot/__init__.py': String.raw`
+"""Excel Auto-Pilot の生成コード向けヘルパー。
+
+生成コードが毎回書き直していた処理（ヘッダー行の検出、和暦・日本語の日付の解釈、
+全角半角の正規化、欠損値を空欄として書き込む処理）をまとめたもの。
+"""
+from .text import normalize_jp_text, normalize_columns
+from .dates import parse_jp_date
+from .tables import clean_value, detect_header_row, read_table, write_df_preserving_style, add_summary_sheet
+
+__version__ = "${HELPER_PACKAGE_VERSION}"
+
+__all__ = [
+    "normalize_jp_text",
+    "normalize_columns",
+    "parse_jp_date",
+    "clean_value",
+    "detect_header_row",
+    "read_table",
+    "write_df_preserving_style",
+    "add_summary_sheet",
+]
+`,
+
+  'autopilot/text.py': String.raw`
+import re
+import unicodedata
+
+_SPACES = re.compile(r"\s+")
+# NFKC では揃わないハイフン・マイナスの異体字
+_DASHES = str.maketrans({c: "-" for c in "‐‑‒–—―−"})
+
+def normalize_jp_text(value, collapse_spaces=True):
+    """全角英数字・記号を半角に、半角カナを全角に揃え（NFKC 正規化）、前後の空白を除く。
+
+    「①」は「1」、「㈱」は「(株)」になる。文字列以外（数値・日付・None・NaN）はそのまま返す。
+    """
+    if not isinstance(value, str):
+        return value
+    text = unicodedata.normalize("NFKC", value).translate(_DASHES)
+    if collapse_spaces:
+        text = _SPACES.sub(" ", text)
+    return text.strip()
+
+def normalize_columns(df):
+    """列名を normalize_jp_text で揃えた DataFrame を返す。"""
+    return df.rename(columns=lambda c: normalize_jp_text(c) if isinstance(c, str) else c)
+`,
+
+  'autopilot/dates.py': String.raw`
+import datetime
+import numbers
+import re
+
+from .text import normalize_jp_text
+
+# 各元号の元年の西暦
+ERAS = {"明治": 1868, "大正": 1912, "昭和": 1926, "平成": 1989, "令和": 2019}
+_ERA_INITIALS = {"M": "明治", "T": "大正", "S": "昭和", "H": "平成", "R": "令和"}
+
+_ERA_DATE = re.compile(r"^(明治|大正|昭和|平成|令和|[MTSHR])\s*(元|\d{1,2})\s*[年./-]\s*(\d{1,2})\s*[月./-]\s*(\d{1,2})", re.IGNORECASE)
+_KANJI_DATE = re.compile(r"^(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})")
+_SEPARATED_DATE = re.compile(r"^(\d{4})\s*[/.-]\s*(\d{1,2})\s*[/.-]\s*(\d{1,2})(?!\d)")
+_COMPACT_DATE = re.compile(r"^(\d{4})(\d{2})(\d{2})$")
+
+# Excel のシリアル値（1900年基準）。1900年3月1日より前はうるう年の不具合でずれるため扱わない
+_SERIAL_MIN, _SERIAL_MAX = 61, 2958465
+_EXCEL_EPOCH = datetime.date(1899, 12, 30)
+
+def _date(year, month, day):
+    try:
+        return datetime.date(int(year), int(month), int(day))
+    except ValueError:
+        return None
+
+def parse_jp_date(value, default=None):
+    """日付を datetime.date に変換する。解釈できない場合は default を返す。
+
+    対応する形式: datetime / date / pandas.Timestamp、Excel のシリアル値、
+    和暦（「令和6年1月5日」「令和元年5月1日」「R6.1.5」「H31/4/30」）、「2024年1月5日」、
+    「2024/1/5」「2024-01-05」「2024.1.5」、「20240105」。
+    全角数字は半角として扱い、日付の後に続く曜日「(金)」や時刻は無視する。
+    """
+    # None / NaN / NaT
+    if value is None or value != value:
+        return default
+    if isinstance(value, datetime.datetime):
+        return value.date()
+    if isinstance(value, datetime.date):
+        return value
+    if isinstance(value, bool):
+        return default
+    if isinstance(value, numbers.Real):
+        if not _SERIAL_MIN <= value <= _SERIAL_MAX:
+            return default
+        return _EXCEL_EPOCH + datetime.timedelta(days=int(value))
+    if not isinstance(value, str):
+        return default
+
+    text = normalize_jp_text(value)
+    match = _ERA_DATE.match(text)
+    if match:
+        era, year, month, day = match.groups()
+        base = ERAS[_ERA_INITIALS.get(era.upper(), era)]
+        offset = 1 if year == "元" else int(year)
+        return _date(base + offset - 1, month, day) or default
+    for pattern in (_KANJI_DATE, _SEPARATED_DATE, _COMPACT_DATE):
+        match = pattern.match(text)
+        if match:
+            return _date(*match.groups()) or default
+    return default
+`,
+
+  'autopilot/tables.py': String.raw`
+from copy import copy
+
+import openpyxl
+import pandas as pd
+from openpyxl.styles import Font
+from openpyxl.utils import get_column_letter
+from openpyxl.worksheet.worksheet import Worksheet
+
+from .text import normalize_jp_text
+
+HEADER_SCAN_ROWS = 20
+
+def clean_value(value):
+    """セルに書き込める値に変換する。NaN / NaT / None は空欄（None）になる。"""
+    if value is None or (pd.api.types.is_scalar(value) and pd.isna(value)):
+        return None
+    if isinstance(value, pd.Timestamp):
+        return value.to_pydatetime()
+    if hasattr(value, "item"):
+        return value.item()
+    return value
+
+def _is_blank(value):
+    return value is None or str(value).strip() == ""
+
+def _is_formula(value):
+    return isinstance(value, str) and value.startswith("=")
+
+def _copy_style(source, target):
+    if source.has_style:
+        target._style = copy(source._style)
+
+def detect_header_row(ws, scan_rows=HEADER_SCAN_ROWS):
+    """ヘッダー行（1始まり）を推定する。A1 の指示だけが入った行は飛ばし、文字列セルが最も多い行を選ぶ。"""
+    best_row, best_count = 1, 0
+    # iter_rows は範囲外のセルを作成してしまうため、既存の行数までに留める
+    for index, row in enumerate(ws.iter_rows(min_row=1, max_row=min(scan_rows, ws.max_row), values_only=True), start=1):
+        filled = [v for v in row if not _is_blank(v)]
+        text_count = sum(1 for v in filled if isinstance(v, str))
+        if len(filled) >= 2 and text_count > best_count:
+            best_row, best_count = index, text_count
+    return best_row
+
+def _worksheet(source, sheet):
+    if isinstance(source, Worksheet):
+        return source
+    if isinstance(source, openpyxl.Workbook):
+        return source[sheet] if sheet else source.active
+    # ファイルから読む場合は、数式ではなく Excel が保存した計算結果を読む
+    wb = openpyxl.load_workbook(source, data_only=True)
+    return wb[sheet] if sheet else wb.active
+
+def _column_names(values):
+    names = []
+    for index, value in enumerate(values):
+        name = f"列{index + 1}" if _is_blank(value) else normalize_jp_text(str(value))
+        while name in names:
+            name = f"{name}_{index + 1}"
+        names.append(name)
+    return names
+
+def read_table(source="input.xlsx", sheet=None, header_row=None):
+    """表を DataFrame として読む。index は Excel の行番号。
+
+    source にはファイルパス・Workbook・Worksheet を渡せる。header_row を省略するとヘッダー行を推定する。
+    列名は normalize_jp_text で揃え、空の見出しは「列1」「列2」... とする。末尾の空行は含めない。
+    """
+    ws = _worksheet(source, sheet)
+    if header_row is None:
+        header_row = detect_header_row(ws)
+    rows = [list(r) for r in ws.iter_rows(min_row=header_row, values_only=True)]
+    if not rows:
+        return pd.DataFrame()
+    columns = _column_names(rows[0])
+    body = rows[1:]
+    while body and all(_is_blank(v) for v in body[-1]):
+        body.pop()
+    return pd.DataFrame(body, columns=columns, index=pd.RangeIndex(header_row + 1, header_row + 1 + len(body)))
+
+def write_df_preserving_style(df, ws, header_row=None, keep_formulas=True):
+    """DataFrame の内容を既存のシートに書き戻す。セルの書式・列幅・入力規則・条件付き書式はそのまま残る。
+
+    df の列は見出しが同じ列（normalize_jp_text で比較）に書き込み、ない列は右端に追加して左隣の列の書式を引き継ぐ。
+    値はヘッダー行の次の行から順に書き込み、元の行数を超えた行は元の最終行の書式を引き継ぐ。
+    df が元の表より短い場合、残った行の df の列は空欄にする。
+    keep_formulas が真の場合、数式の入ったセルは上書きしない。
+    """
+    if header_row is None:
+        header_row = detect_header_row(ws)
+    positions = {}
+    for cell in ws[header_row]:
+        if not _is_blank(cell.value):
+            positions.setdefault(normalize_jp_text(str(cell.value)), cell.column)
+
+    columns, added = [], set()
+    next_column = ws.max_column + 1
+    for name in df.columns:
+        key = normalize_jp_text(str(name))
+        if key not in positions:
+            header = ws.cell(header_row, next_column, str(name))
+            if next_column > 1:
+                _copy_style(ws.cell(header_row, next_column - 1), header)
+            positions[key] = next_column
+            added.add(next_column)
+            next_column += 1
+        columns.append(positions[key])
+
+    first_row = header_row + 1
+    last_row = ws.max_row
+    for offset, values in enumerate(df.itertuples(index=False, name=None)):
+        row = first_row + offset
+        for column, value in zip(columns, values):
+            cell = ws.cell(row, column)
+            if row > last_row and last_row > header_row:
+                _copy_style(ws.cell(last_row, column), cell)
+            elif column in added and column > 1:
+                _copy_style(ws.cell(row, column - 1), cell)
+            if keep_formulas and _is_formula(cell.value):
+                continue
+            cell.value = clean_value(value)
+
+    for row in range(first_row + len(df), last_row + 1):
+        for column in columns:
+            ws.cell(row, column).value = None
+    return ws
+
+def add_summary_sheet(wb, df, group_by=None, values=None, agg="sum", title="集計"):
+    """df を集計したシートを追加し、そのシートを返す。同名のシートがあれば同じ位置で置き換える。
+
+    group_by（列名または列名のリスト）を省略すると全体を1行に集計する。values を省略すると数値列をすべて集計する。
+    agg には "sum" / "mean" / "count" / "max" / "min" など pandas の集計関数名を指定する。
+    """
+    group_columns = [group_by] if isinstance(group_by, str) else list(group_by or [])
+    if values is None:
+        values = [c for c in df.select_dtypes(include="number").columns if c not in group_columns]
+    if group_columns:
+        summary = df.groupby(group_columns, dropna=False)[values].agg(agg).reset_index()
+    else:
+        summary = df[values].agg(agg).to_frame().T
+
+    if title in wb.sheetnames:
+        index = wb.sheetnames.index(title)
+        del wb[title]
+        ws = wb.create_sheet(title, index)
+    else:
+        ws = wb.create_sheet(title)
+
+    ws.append([str(c) for c in summary.columns])
+    for cell in ws[1]:
+        cell.font = Font(bold=True)
+    for row in summary.itertuples(index=False, name=None):
+        ws.append([clean_value(v) for v in row])
+    for index, column in enumerate(summary.columns, start=1):
+        width = max([len(str(column))] + [len(str(v)) for v in summary[column].head(100)])
+        ws.column_dimensions[get_column_letter(index)].width = min(max(width * 1.6 + 2, 8), 50)
+    ws.freeze_panes = "A2"
+    return ws
+`,
+};
+
+// ヘルパーの単体テスト（unittest）。パッケージ本体とは別の場所に置き、セルフテストの実行時にのみ配置する
+export const HELPER_PACKAGE_TESTS: Record<string, string> = {
+  'test_text.py': String.raw`
+import math
+import unittest
+
+import pandas as pd
+
+from autopilot import normalize_jp_text, normalize_columns
+
+class NormalizeJpTextTest(unittest.TestCase):
+    def test_full_width_alphanumerics_become_half_width(self):
+        self.assertEqual(normalize_jp_text("ＡＢＣ１２３"), "ABC123")
+
+    def test_half_width_katakana_become_full_width(self):
+        self.assertEqual(normalize_jp_text("ｶﾌﾞｼｷｶﾞｲｼｬ"), "カブシキガイシャ")
+
+    def test_spaces_are_collapsed_and_trimmed(self):
+        self.assertEqual(normalize_jp_text("　東京都　 港区 "), "東京都 港区")
+        self.assertEqual(normalize_jp_text("東京都　港区", collapse_spaces=False), "東京都 港区")
+
+    def test_dashes_are_unified(self):
+        self.assertEqual(normalize_jp_text("03−1234‐5678"), "03-1234-5678")
+        self.assertEqual(normalize_jp_text("０３－１２３４"), "03-1234")
+
+    def test_non_strings_are_returned_unchanged(self):
+        self.assertEqual(normalize_jp_text(42), 42)
+        self.assertIsNone(normalize_jp_text(None))
+        self.assertTrue(math.isnan(normalize_jp_text(float("nan"))))
+
+    def test_normalize_columns(self):
+        df = pd.DataFrame(columns=["ｺｰﾄﾞ", " 金額（税込） ", 3])
+        self.assertEqual(list(normalize_columns(df).columns), ["コード", "金額(税込)", 3])
+`,
+
+  'test_dates.py': String.raw`
+import datetime
+import unittest
+
+import numpy as np
+import pandas as pd
+
+from autopilot import parse_jp_date
+
+D = datetime.date
+
+class ParseJpDateTest(unittest.TestCase):
+    def test_japanese_eras(self):
+        self.assertEqual(parse_jp_date("令和6年1月5日"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("令和元年5月1日"), D(2019, 5, 1))
+        self.assertEqual(parse_jp_date("平成31年4月30日"), D(2019, 4, 30))
+        self.assertEqual(parse_jp_date("昭和64年1月7日"), D(1989, 1, 7))
+
+    def test_era_initials(self):
+        self.assertEqual(parse_jp_date("R6.1.5"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("h31/4/30"), D(2019, 4, 30))
+        self.assertEqual(parse_jp_date("Ｒ６．１．５"), D(2024, 1, 5))
+
+    def test_kanji_and_separated_dates(self):
+        self.assertEqual(parse_jp_date("2024年1月5日"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("2024年1月5日(金)"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("２０２４／０１／０５"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("2024-01-05 10:30"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("2024.1.5"), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date("20240105"), D(2024, 1, 5))
+
+    def test_dates_and_excel_serials(self):
+        self.assertEqual(parse_jp_date(datetime.datetime(2024, 1, 5, 9, 30)), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date(pd.Timestamp("2024-01-05")), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date(D(2024, 1, 5)), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date(45296), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date(np.int64(45296)), D(2024, 1, 5))
+        self.assertEqual(parse_jp_date(45296.75), D(2024, 1, 5))
+
+    def test_unparsable_values_return_default(self):
+        self.assertIsNone(parse_jp_date("2024年2月30日"))
+        self.assertIsNone(parse_jp_date("未定"))
+        self.assertIsNone(parse_jp_date(None))
+        self.assertIsNone(parse_jp_date(float("nan")))
+        self.assertIsNone(parse_jp_date(pd.NaT))
+        self.assertIsNone(parse_jp_date(True))
+        self.assertIsNone(parse_jp_date(-1))
+        self.assertEqual(parse_jp_date("未定", default=""), "")
+`,
+
+  'test_tables.py': String.raw`
+import datetime
+import math
+import os
+import unittest
+
+import numpy as np
+import openpyxl
+import pandas as pd
+from openpyxl.styles import Font, PatternFill
+
+from autopilot import clean_value, detect_header_row, read_table, write_df_preserving_style, add_summary_sheet
+
+YELLOW = "FFFFFF00"
+
+def sample_workbook():
+    # A1 に指示、2行目がヘッダー、3〜5行目がデータ（金額列は黄色の塗りと桁区切り）
+    wb = openpyxl.Workbook()
+    ws = wb.active
+    ws.title = "売上"
+    ws["A1"] = "金額を税込にしてください"
+    ws.append(["商品", "金額", "部署"])
+    ws.append(["りんご", 100, "営業"])
+    ws.append(["ﾐｶﾝ", None, "営業"])
+    ws.append(["ぶどう", 300, "総務"])
+    for cell in ws[2]:
+        cell.font = Font(bold=True)
+    for row in range(3, 6):
+        ws.cell(row, 2).fill = PatternFill("solid", fgColor=YELLOW)
+        ws.cell(row, 2).number_format = "#,##0"
+    return wb, ws
+
+class CleanValueTest(unittest.TestCase):
+    def test_missing_values_become_blank(self):
+        self.assertIsNone(clean_value(float("nan")))
+        self.assertIsNone(clean_value(pd.NaT))
+        self.assertIsNone(clean_value(np.nan))
+        self.assertIsNone(clean_value(None))
+
+    def test_numpy_and_pandas_values_become_python_values(self):
+        self.assertIs(type(clean_value(np.int64(3))), int)
+        self.assertIs(type(clean_value(np.float64(1.5))), float)
+        self.assertEqual(clean_value(pd.Timestamp("2024-01-05")), datetime.datetime(2024, 1, 5))
+        self.assertEqual(clean_value("abc"), "abc")
+
+class ReadTableTest(unittest.TestCase):
+    def test_header_row_skips_instruction_in_a1(self):
+        _, ws = sample_workbook()
+        self.assertEqual(detect_header_row(ws), 2)
+
+    def test_reads_rows_indexed_by_excel_row(self):
+        _, ws = sample_workbook()
+        df = read_table(ws)
+        self.assertEqual(list(df.columns), ["商品", "金額", "部署"])
+        self.assertEqual(list(df.index), [3, 4, 5])
+        self.assertEqual(df.loc[5, "商品"], "ぶどう")
+        self.assertTrue(math.isnan(df.loc[4, "金額"]))
+
+    def test_trailing_blank_rows_and_blank_headers(self):
+        wb = openpyxl.Workbook()
+        ws = wb.active
+        ws.append(["コード", None, "名前"])
+        ws.append([1, "x", "a"])
+        ws.append([None, None, None])
+        df = read_table(ws, header_row=1)
+        self.assertEqual(list(df.columns), ["コード", "列2", "名前"])
+        self.assertEqual(len(df), 1)
+
+    def test_reads_from_path_and_sheet_name(self):
+        wb, _ = sample_workbook()
+        wb.create_sheet("その他")
+        path = "test_read_table.xlsx"
+        wb.save(path)
+        try:
+            df = read_table(path, sheet="売上")
+        finally:
+            os.remove(path)
+        self.assertEqual(list(df["商品"]), ["りんご", "ﾐｶﾝ", "ぶどう"])
+
+class WriteDfPreservingStyleTest(unittest.TestCase):
+    def test_keeps_styles_and_adds_columns_with_neighbour_style(self):
+        _, ws = sample_workbook()
+        df = read_table(ws)
+        df["税込"] = df["金額"] * 1.1
+        write_df_preserving_style(df, ws)
+        self.assertEqual(ws["D2"].value, "税込")
+        self.assertTrue(ws["D2"].font.b)
+        self.assertAlmostEqual(ws["D3"].value, 110.0)
+        self.assertIsNone(ws["D4"].value)
+        self.assertIsNone(ws["B4"].value)
+        self.assertEqual(ws["B3"].fill.fgColor.rgb, YELLOW)
+        self.assertEqual(ws["B3"].number_format, "#,##0")
+
+    def test_shorter_frames_clear_remaining_rows(self):
+        _, ws = sample_workbook()
+        df = read_table(ws)
+        df = df[df["金額"].notna()]
+        write_df_preserving_style(df, ws)
+        self.assertEqual([ws.cell(r, 1).value for r in range(3, 6)], ["りんご", "ぶどう", None])
+        self.assertEqual(ws["B4"].value, 300)
+        self.assertEqual(ws["B4"].fill.fgColor.rgb, YELLOW)
+
+    def test_longer_frames_copy_style_of_last_row(self):
+        _, ws = sample_workbook()
+        df = read_table(ws)
+        df = pd.concat([df, pd.DataFrame([{"商品": "もも", "金額": 500, "部署": "総務"}])], ignore_index=True)
+        write_df_preserving_style(df, ws)
+        self.assertEqual(ws["A6"].value, "もも")
+        self.assertEqual(ws["B6"].fill.fgColor.rgb, YELLOW)
+
+    def test_formulas_are_kept(self):
+        _, ws = sample_workbook()
+        ws["B5"] = "=B3*3"
+        df = read_table(ws)
+        df["金額"] = [1, 2, 3]
+        write_df_preserving_style(df, ws)
+        self.assertEqual(ws["B3"].value, 1)
+        self.assertEqual(ws["B5"].value, "=B3*3")
+        write_df_preserving_style(df, ws, keep_formulas=False)
+        self.assertEqual(ws["B5"].value, 3)
+
+class AddSummarySheetTest(unittest.TestCase):
+    def test_groups_and_replaces_existing_sheet(self):
+        wb, ws = sample_workbook()
+        df = read_table(ws)
+        add_summary_sheet(wb, df, group_by="部署")
+        summary = add_summary_sheet(wb, df, group_by="部署")
+        self.assertEqual(wb.sheetnames, ["売上", "集計"])
+        self.assertEqual([c.value for c in summary[1]], ["部署", "金額"])
+        self.assertTrue(summary["A1"].font.b)
+        rows = {r[0]: r[1] for r in summary.iter_rows(min_row=2, values_only=True)}
+        self.assertEqual(rows, {"営業": 100, "総務": 300})
+
+    def test_totals_without_group(self):
+        wb, ws = sample_workbook()
+        summary = add_summary_sheet(wb, read_table(ws), agg="count", title="件数")
+        self.assertEqual([c.value for c in summary[2]], [2])
+`,
+
+  'test_package.py': String.raw`
+import unittest
+
+import autopilot
+
+class PackageTest(unittest.TestCase):
+    def test_version_is_semver(self):
+        self.assertRegex(autopilot.__version__, r"^\d+\.\d+\.\d+$")
+
+    def test_public_api_is_exported(self):
+        for name in autopilot.__all__:
+            self.assertTrue(callable(getattr(autopilot, name)), name)
+`,
+};
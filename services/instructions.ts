@@ -0,0 +1,66 @@
+import { ExtractResult } from './pyodideProtocol';
+
+export type InstructionSource = 'prompt' | 'sheet' | 'comment' | 'a1';
+
+// 優先度の高い順
+export const INSTRUCTION_SOURCE_LABELS: Record<InstructionSource, string> = {
+  prompt: '入力欄',
+  sheet: '指示シート',
+  comment: 'A1セルのコメント',
+  a1: 'A1セル',
+};
+
+export const INSTRUCTION_SHEET_NAMES = ['指示', '指示書', '手順', 'instructions'];
+
+// Python 側（EXTRACT_SCRIPT）と共有する番号付き行のパターン
+export const STEP_PATTERN_SOURCE = String.raw`^\s*(?:(?:手順|step)?\s*[(（]?[0-9０-９]+\s*[.．、:：)）]|[①-⑳])\s*`;
+const STEP_PATTERN = new RegExp(STEP_PATTERN_SOURCE, 'i');
+
+export interface InstructionPlan {
+  source: InstructionSource;
+  steps: string[];
+  // 指示シートから読み取った場合のシート名
+  sheetName?: string;
+}
+
+// 1つの生成・実行ステージに渡す指示
+export interface StageInstruction {
+  source: InstructionSource;
+  text: string;
+  index: number;
+  steps: string[];
+}
+
+// 2行以上が番号付きの場合は手順リストとして分割し、番号のない行は直前の手順の続きとして扱う
+export const splitSteps = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (lines.filter(l => STEP_PATTERN.test(l)).length < 2) return [text.trim()];
+
+  const steps: string[] = [];
+  lines.forEach(line => {
+    if (STEP_PATTERN.test(line)) {
+      steps.push(line.replace(STEP_PATTERN, '').trim());
+    } else if (steps.length > 0) {
+      steps[steps.length - 1] += `\n${line}`;
+    } else {
+      // 番号付きの手順より前の行は全手順の前提として先頭の手順に含める
+      steps.push(line);
+    }
+  });
+  return steps.filter(Boolean);
+};
+
+const isBlank = (text: string | undefined) => !text || text.trim() === '' || text === 'None';
+
+// 入力欄 → 指示シート → A1のコメント → A1セル の順に、最初に見つかった指示を採用する
+export const resolveInstructions = (extracted: ExtractResult, promptText: string): InstructionPlan | null => {
+  if (!isBlank(promptText)) return { source: 'prompt', steps: splitSteps(promptText) };
+  const sheet = extracted.instructionSheet;
+  if (sheet && sheet.steps.length > 0) return { source: 'sheet', steps: sheet.steps, sheetName: sheet.name };
+  if (!isBlank(extracted.a1Comment)) return { source: 'comment', steps: splitSteps(extracted.a1Comment) };
+  if (!isBlank(extracted.a1)) return { source: 'a1', steps: splitSteps(extracted.a1) };
+  return null;
+};
+
+export const stageLabel = (stage: { index: number; steps: string[] }) =>
+  stage.steps.length > 1 ? `[手順 ${stage.index + 1}/${stage.steps.length}] ` : '';
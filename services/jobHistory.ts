@@ -0,0 +1,111 @@
+import { getAllRecords, putRecord, deleteRecord } from './database';
+import { InstructionPlan } from './instructions';
+import { Recipe } from './recipes';
+import { ConfirmedPlan } from './taskPlan';
+import { OutputAssertion } from './pyodideProtocol';
+import { LogEntry } from '../types';
+import { formatLogsText } from '../utils/logExport';
+
+export type JobStatus = 'success' | 'error' | 'cancelled';
+
+export interface StoredFile {
+  name: string;
+  size: number;
+  // 容量の上限を超えた場合や古いジョブでは破棄され、メタデータのみ残る
+  blob?: Blob;
+}
+
+export interface JobInput extends StoredFile {
+  hash: string;
+}
+
+// 実行1回分の記録。ページを再読み込みしても「いつ・何に・何をしたか」を追えるようにする
+export interface JobRecord {
+  id: string;
+  startedAt: number;
+  durationMs: number;
+  status: JobStatus;
+  // アップロード順（input_1.xlsx ... の番号と対応する）
+  inputs: JobInput[];
+  primaryIndex: number;
+  plan: InstructionPlan | null;
+  // 手順ごとの最後に実行（または生成）されたコード
+  scripts: string[];
+  // 手順ごとに確認した作業計画（計画の確認を行わなかった手順や以前のバージョンの記録では undefined）
+  taskPlans?: (ConfirmedPlan | undefined)[];
+  // 手順ごとの出力の検証項目（以前のバージョンの記録では undefined）
+  assertionSets?: OutputAssertion[][];
+  model: string;
+  recipeName?: string;
+  logs: LogEntry[];
+  error?: string;
+  outputs: StoredFile[];
+}
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  success: '成功',
+  error: '失敗',
+  cancelled: '中止',
+};
+
+// 1ジョブあたりに保存するファイルの上限。超える場合はファイル本体を保存しない
+const MAX_JOB_BLOB_BYTES = 25 * 1024 * 1024;
+// 履歴全体のファイル容量の上限。超えた分は古いジョブからファイル本体を破棄する（記録自体は残す）
+const MAX_HISTORY_BLOB_BYTES = 200 * 1024 * 1024;
+// これを超えた古いジョブは記録ごと削除する
+const MAX_HISTORY_JOBS = 200;
+
+const storedBytes = (job: JobRecord) =>
+  [...job.inputs, ...job.outputs].reduce((sum, f) => sum + (f.blob ? f.size : 0), 0);
+
+export const hasStoredInputs = (job: JobRecord) => job.inputs.length > 0 && job.inputs.every(i => i.blob);
+
+const withoutBlobs = (job: JobRecord): JobRecord => ({
+  ...job,
+  inputs: job.inputs.map(({ blob, ...rest }) => rest),
+  outputs: job.outputs.map(({ blob, ...rest }) => rest),
+});
+
+export const loadJobs = async (): Promise<JobRecord[]> => {
+  const jobs = await getAllRecords<JobRecord>('jobs');
+  return jobs.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteJob = (id: string) => deleteRecord('jobs', id);
+
+export const saveJob = async (job: JobRecord): Promise<void> => {
+  await putRecord('jobs', storedBytes(job) > MAX_JOB_BLOB_BYTES ? withoutBlobs(job) : job);
+  await evictJobs();
+};
+
+const evictJobs = async () => {
+  const jobs = await loadJobs();
+  for (const job of jobs.slice(MAX_HISTORY_JOBS)) {
+    await deleteRecord('jobs', job.id);
+  }
+
+  let total = jobs.slice(0, MAX_HISTORY_JOBS).reduce((sum, job) => sum + storedBytes(job), 0);
+  for (const job of jobs.slice(0, MAX_HISTORY_JOBS).reverse()) {
+    if (total <= MAX_HISTORY_BLOB_BYTES) break;
+    const bytes = storedBytes(job);
+    if (bytes === 0) continue;
+    await putRecord('jobs', withoutBlobs(job));
+    total -= bytes;
+  }
+};
+
+// 保存されたコードを、保存された入力ファイルに AI を呼び出さずに再適用するための一時的なレシピ
+export const jobRecipe = (job: JobRecord): Recipe => ({
+  id: job.id,
+  name: `履歴 ${new Date(job.startedAt).toLocaleString('ja-JP')}`,
+  source: job.plan?.source ?? 'prompt',
+  steps: job.scripts.map((script, i) => ({ instruction: job.plan?.steps[i] ?? '', script, plan: job.taskPlans?.[i], assertions: job.assertionSets?.[i] })),
+  // 生成時と同じファイルに適用するため、列の互換性チェックは行わない
+  sheets: [],
+  activeSheet: '',
+  inputCount: job.inputs.length,
+  model: job.model,
+  createdAt: job.startedAt,
+});
+
+export const formatJobLogs = (job: JobRecord) => formatLogsText(job.logs);
@@ -0,0 +1,62 @@
+import { LlmProvider, LlmRequest, LlmStreamOptions, TokenUsage } from './types';
+
+// API キーを持つサーバー側のルート（api/generate.ts、開発時は Vite のミドルウェア）
+export const GEMINI_PROXY_PATH = '/api/generate';
+
+type ProxyEvent = { text?: string; usage?: TokenUsage; error?: string };
+
+export type ProxyTransport = (init: RequestInit) => Promise<Response>;
+
+let transport: ProxyTransport = (init) => fetch(GEMINI_PROXY_PATH, init);
+
+// ページの /api/generate がない環境（Node の CLI）では、送信先を別のサーバーやプロセス内のハンドラーに差し替える
+export const setGeminiTransport = (next: ProxyTransport) => {
+  transport = next;
+};
+
+export const createGeminiProvider = (): LlmProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  generate: async (request: LlmRequest, options: LlmStreamOptions = {}) => {
+    // プロンプトはサーバー側で組み立てるため、指示とブック構成のみを送る
+    const response = await transport({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: options.signal,
+      body: JSON.stringify({ task: request.task, model: request.model, temperature: request.temperature }),
+    });
+
+    // ステータスコードと本文をメッセージに含め、既存の再試行判定（503/429）とエラー表示に乗せる
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`HTTP ${response.status}: ${body || response.statusText}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let text = "";
+    let usage: TokenUsage | undefined;
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const event: ProxyEvent = JSON.parse(line);
+      if (event.error) throw new Error(event.error);
+      if (event.text) {
+        text += event.text;
+        options.onText?.(text);
+      }
+      if (event.usage) usage = event.usage;
+    };
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    return { text, usage };
+  },
+});
@@ -0,0 +1,62 @@
+import { LlmProvider, LlmSettings, ProviderId } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+
+export { setGeminiTransport } from './geminiProvider';
+export type { LlmProvider, LlmRequest, LlmResponse, LlmStreamOptions, LlmSettings, ProviderId, TokenUsage } from './types';
+
+const SETTINGS_KEY = 'excel_autopilot_llm_settings_v1';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI互換 (ローカルサーバー等)',
+  mock: 'モック (オフライン)',
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'qwen2.5-coder',
+  mock: 'fixtures',
+};
+
+// 設定画面で候補に出す Gemini のモデル。サーバーのプロキシもこれ以外のモデル名は受け付けない
+export const GEMINI_MODELS: string[] = [DEFAULT_MODELS.gemini, 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  temperature: 0.1,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const loadLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {}
+  return DEFAULT_LLM_SETTINGS;
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {}
+};
+
+export const getProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(settings.endpoint, settings.apiKey);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider();
+  }
+};
+
+// UI 表示用のラベル（例: "Gemini · gemini-3-flash-preview"）
+export const describeLlm = (settings: LlmSettings): string =>
+  `${getProvider(settings).label} · ${settings.model}`;
@@ -0,0 +1,112 @@
+import { OutputAssertion } from '../pyodideProtocol';
+
+// モックプロバイダが返す固定スクリプト。指示文に含まれるキーワードで選択する。
+export interface MockFixture {
+  name: string;
+  keywords: string[];
+  script: string;
+  // 書式保持モードで返すスクリプト（省略時は script）
+  preserveScript?: string;
+  // 作業計画として返す内容。columns はアクティブシートのどの列を対象とするか
+  plan: MockPlan;
+  // 生成時にスクリプトの後に返す検証項目
+  assertions: OutputAssertion[];
+}
+
+export interface MockPlan {
+  steps: string[];
+  columns: 'none' | 'first' | 'numeric';
+  change: string;
+  output: string;
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    name: 'sort',
+    keywords: ['並べ替え', '並び替え', 'ソート', 'sort'],
+    plan: {
+      steps: ['ヘッダー行を指定して表を読み込む', '先頭の列の昇順に並べ替える（空欄は末尾）', 'output.xlsx に保存する'],
+      columns: 'first',
+      change: '並べ替えの基準（値は変更しない）',
+      output: '入力と同じ列・行数で、行の順序だけが変わる',
+    },
+    assertions: [{ kind: 'rowCount', change: 0, description: '行数が変わらない' }],
+    script: `
+import pandas as pd
+
+print("入力ファイルを読み込んでいます...")
+df = pd.read_excel("input.xlsx", header=1)
+first_col = df.columns[0]
+print(f"{first_col} 列で並べ替えています...")
+df = df.sort_values(by=first_col, na_position="last")
+df.to_excel("output.xlsx", index=False)
+print("output.xlsx に保存しました。")
+`,
+  },
+  {
+    name: 'total',
+    keywords: ['合計', '集計', 'sum'],
+    plan: {
+      steps: ['ヘッダー行を指定して表を読み込む', '数値の列ごとに合計を計算する', '表の末尾に合計行を1行追加し、output.xlsx に保存する'],
+      columns: 'numeric',
+      change: '合計行に値を追加',
+      output: '入力と同じ列構成で、行が1行増える',
+    },
+    assertions: [{ kind: 'rowCount', change: 1, description: '合計行が1行増える' }],
+    script: `
+import pandas as pd
+
+print("入力ファイルを読み込んでいます...")
+df = pd.read_excel("input.xlsx", header=1)
+numeric_cols = df.select_dtypes(include="number").columns
+print(f"合計対象の列: {', '.join(map(str, numeric_cols))}")
+total = {col: df[col].sum() for col in numeric_cols}
+total[df.columns[0]] = "合計"
+df = pd.concat([df, pd.DataFrame([total])], ignore_index=True)
+df.to_excel("output.xlsx", index=False)
+print("output.xlsx に保存しました。")
+`,
+    preserveScript: `
+import pandas as pd
+from openpyxl.utils import get_column_letter
+from xlpreserve import open_workbook, read_table, append_rows, save_workbook
+
+print("入力ファイルを読み込んでいます...")
+wb = open_workbook("input.xlsx")
+ws = wb.active
+df = read_table(ws, header_row=2)
+first, last = df.index.min(), df.index.max()
+total = ["合計"]
+for i, col in enumerate(df.columns[1:], start=2):
+    letter = get_column_letter(i)
+    total.append(f"=SUM({letter}{first}:{letter}{last})" if pd.api.types.is_numeric_dtype(df[col]) else None)
+print("合計行を数式で追加しています...")
+append_rows(ws, [total])
+save_workbook(wb)
+print("output.xlsx に保存しました。")
+`,
+  },
+];
+
+// どのキーワードにも一致しない場合は、ブックをそのまま複製する
+export const DEFAULT_MOCK_ASSERTIONS: OutputAssertion[] = [{ kind: 'rowCount', change: 0, description: '行数が変わらない' }];
+
+export const DEFAULT_MOCK_PLAN: MockPlan = {
+  steps: ['入力ブックを開く', 'シートを変更せずに output.xlsx として保存する'],
+  columns: 'none',
+  change: '',
+  output: '入力と同じ内容のブック',
+};
+
+// 指示が曖昧な場合の確認を試せるよう、これらの語を含む指示には最初に質問を返す
+export const MOCK_AMBIGUOUS_KEYWORDS = ['いい感じ', '整理', 'きれいに'];
+
+export const DEFAULT_MOCK_SCRIPT = `
+import openpyxl
+
+print("入力ファイルを読み込んでいます...")
+wb = openpyxl.load_workbook("input.xlsx")
+print(f"シート: {', '.join(wb.sheetnames)}")
+wb.save("output.xlsx")
+print("output.xlsx に保存しました。")
+`;
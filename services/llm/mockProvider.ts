@@ -0,0 +1,81 @@
+import { LlmProvider, LlmRequest, LlmStreamOptions } from './types';
+import { MOCK_FIXTURES, MockFixture, MockPlan, DEFAULT_MOCK_SCRIPT, DEFAULT_MOCK_PLAN, DEFAULT_MOCK_ASSERTIONS, MOCK_AMBIGUOUS_KEYWORDS } from './mockFixtures';
+import { CodeTask } from '../prompts';
+import { PlanDraft } from '../taskPlan';
+
+// ストリーミング表示を確認できるよう、1行ずつ間隔を空けて返す
+const LINE_DELAY_MS = 15;
+
+// トークン数の目安（実際のトークナイザーではない）
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const findFixture = (text: string): MockFixture | undefined => {
+  const lower = text.toLowerCase();
+  return MOCK_FIXTURES.find(f => f.keywords.some(k => lower.includes(k.toLowerCase())));
+};
+
+// 計画の対象列はメインのブックのアクティブシートから選ぶ
+const mockPlanDraft = (task: Extract<CodeTask, { kind: 'plan' }>, mock: MockPlan): PlanDraft => {
+  const profile = (task.workbooks.find(w => w.primary) ?? task.workbooks[0])?.profile;
+  if (task.answers.length === 0 && MOCK_AMBIGUOUS_KEYWORDS.some(k => task.instruction.text.includes(k))) {
+    return {
+      type: 'questions',
+      questions: [
+        { question: '対象とするシートはどれですか？', options: profile?.sheets.map(s => s.name) ?? [] },
+        { question: '元の行の順序は維持しますか？', options: ['維持する', '変えてよい'] },
+      ],
+    };
+  }
+  const sheet = profile?.sheets.find(s => s.name === profile.activeSheet) ?? profile?.sheets[0];
+  const columns = !sheet || mock.columns === 'none' ? []
+    : mock.columns === 'first' ? sheet.columns.slice(0, 1)
+    : sheet.columns.filter(c => c.type === 'number');
+  return {
+    type: 'plan',
+    plan: {
+      summary: `「${task.instruction.text}」を実行します。`,
+      steps: mock.steps,
+      columns: columns.map(c => ({ sheet: sheet!.name, name: c.name, change: mock.change })),
+      output: mock.output,
+    },
+  };
+};
+
+// 同じ指示には常に同じスクリプト（計画の場合は同じ JSON）を返す、オフライン検証用のプロバイダ
+// プロンプトには JSON の例（"summary" など）や検証項目の説明が含まれるため、フィクスチャは指示文だけで選ぶ
+export const createMockProvider = (): LlmProvider => ({
+  id: 'mock',
+  label: 'モック',
+  generate: async (request: LlmRequest, options: LlmStreamOptions = {}) => {
+    const { task } = request;
+    const fixture = findFixture(task.instruction.text);
+    let response: string;
+    if (task.kind === 'plan') {
+      const draft = mockPlanDraft(task, fixture?.plan ?? DEFAULT_MOCK_PLAN);
+      // プロンプトで指定した形式（計画の項目は type と同じ階層）で返す
+      const json = draft.type === 'plan' ? { type: 'plan', ...draft.plan } : draft;
+      response = `\`\`\`json\n${JSON.stringify(json, null, 2)}\n\`\`\``;
+    } else {
+      const script = fixture
+        ? (task.preserveFormatting && fixture.preserveScript) || fixture.script
+        : DEFAULT_MOCK_SCRIPT;
+      response = `\`\`\`python\n${script.trim()}\n\`\`\``;
+      if (task.kind === 'generate') {
+        const assertions = fixture?.assertions ?? DEFAULT_MOCK_ASSERTIONS;
+        response += `\n\n\`\`\`json\n${JSON.stringify({ assertions }, null, 2)}\n\`\`\``;
+      }
+    }
+
+    let text = "";
+    for (const line of response.split('\n')) {
+      if (options.signal?.aborted) throw new DOMException("Aborted", 'AbortError');
+      text += text ? `\n${line}` : line;
+      options.onText?.(text);
+      await new Promise(res => setTimeout(res, LINE_DELAY_MS));
+    }
+
+    const promptTokens = estimateTokens(request.systemInstruction + request.prompt);
+    const completionTokens = estimateTokens(response);
+    return { text, usage: { prompt: promptTokens, completion: completionTokens, total: promptTokens + completionTokens } };
+  },
+});
@@ -0,0 +1,73 @@
+import { LlmProvider, LlmRequest, LlmStreamOptions, TokenUsage } from './types';
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+}
+
+export const createOpenAiCompatibleProvider = (endpoint: string, apiKey: string): LlmProvider => ({
+  id: 'openai',
+  label: 'OpenAI互換',
+  generate: async (request: LlmRequest, options: LlmStreamOptions = {}) => {
+    if (!endpoint) {
+      throw new Error("エンドポイントURLが設定されていません。設定パネルで入力してください。");
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: request.model,
+        temperature: request.temperature,
+        stream: true,
+        // 対応していないサーバーでは無視され、使用量は記録されない
+        stream_options: { include_usage: true },
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          { role: 'user', content: request.prompt },
+        ],
+      }),
+    });
+
+    // ステータスコードをメッセージに含め、既存の再試行判定（503/429）に乗せる
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`HTTP ${response.status}: ${body || response.statusText}`);
+    }
+
+    // Server-Sent Events: "data: {...}" の行が続き、"data: [DONE]" で終わる
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    let text = "";
+    let usage: TokenUsage | undefined;
+    const handleLine = (line: string) => {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+      const chunk: ChatCompletionChunk = JSON.parse(data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        options.onText?.(text);
+      }
+      if (chunk.usage) {
+        usage = { prompt: chunk.usage.prompt_tokens, completion: chunk.usage.completion_tokens, total: chunk.usage.total_tokens };
+      }
+    };
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    return { text, usage };
+  },
+});
@@ -0,0 +1,46 @@
+import { CodeTask } from '../prompts';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LlmSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  // OpenAI 互換エンドポイントのベースURL（例: http://localhost:11434/v1）
+  endpoint: string;
+  apiKey: string;
+}
+
+export interface LlmRequest {
+  systemInstruction: string;
+  prompt: string;
+  // prompt の元になった内容。サーバー側でプロンプトを組み立てるプロバイダー（Gemini プロキシ）が使う
+  task: CodeTask;
+  model: string;
+  temperature: number;
+}
+
+export interface TokenUsage {
+  prompt?: number;
+  completion?: number;
+  total?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  // プロバイダーが返さない場合は undefined
+  usage?: TokenUsage;
+}
+
+export interface LlmStreamOptions {
+  signal?: AbortSignal;
+  // それまでに受信したテキスト全体を受け取る
+  onText?: (text: string) => void;
+}
+
+export interface LlmProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  // モデルの生テキスト応答をストリーミングで受信して返す（コードブロックの抽出は呼び出し側で行う）
+  generate(request: LlmRequest, options?: LlmStreamOptions): Promise<LlmResponse>;
+}
@@ -0,0 +1,36 @@
+// サービスワーカーの登録と更新の検出。sw.js はビルド時にのみ生成される（server/offlinePlugin.ts）ため、dev では登録に失敗して何もしない
+
+export interface OfflineStatus {
+  // サービスワーカーがこのページを制御している（アプリと Python 実行環境がキャッシュ済み）
+  ready: boolean;
+}
+
+// 新しいビルドのサービスワーカーが待機状態になったら onUpdate を呼ぶ。apply で切り替えて再読み込みする
+export const registerServiceWorker = async (
+  onUpdate: (apply: () => void) => void
+): Promise<OfflineStatus> => {
+  if (!('serviceWorker' in navigator)) return { ready: false };
+  let registration: ServiceWorkerRegistration;
+  try {
+    registration = await navigator.serviceWorker.register(new URL('sw.js', document.baseURI).href);
+  } catch (e) {
+    return { ready: false };
+  }
+
+  const apply = () => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    registration.waiting?.postMessage('skipWaiting');
+  };
+  // 初回のインストールでは controller がなく、更新ではない
+  const notifyIfWaiting = () => {
+    if (registration.waiting && navigator.serviceWorker.controller) onUpdate(apply);
+  };
+
+  notifyIfWaiting();
+  registration.addEventListener('updatefound', () => {
+    registration.installing?.addEventListener('statechange', notifyIfWaiting);
+  });
+  registration.update().catch(() => {});
+
+  return { ready: !!navigator.serviceWorker.controller };
+};
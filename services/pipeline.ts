@@ -0,0 +1,571 @@
+import { AppStatus, CodeAttempt, LogLevel, LogMeta } from '../types';
+import { extractWorkbooks, runPythonTransformation, normalizeInputs, planInputMounts, replacePrimaryInput, compareWorkbooks, InputMount, OutputFile, TransformationResult, PythonExecutionError, SafetyViolationError, ExecutionCancelledError, OutputAssertionError } from './pyodideService';
+import { WorkbookDiff, WorkbookProfile, ExtractResult, OutputAssertion, AssertionResult, OUTPUT_PATH } from './pyodideProtocol';
+import { WorkbookContext } from './workbookProfile';
+import { Recipe, recipePlan, checkRecipeCompatibility } from './recipes';
+import { generateExcelEditCode, repairExcelEditCode, planExcelEdit, GenerateOptions, GenerationResult, GenerationCancelledError, RepairContext } from './geminiService';
+import { ConfirmedPlan, PlanAnswer, PlanDraft } from './taskPlan';
+import { RunMetrics, addUsage, measure } from './runMetrics';
+import { describeFidelity } from './fidelity';
+import { formatAssertionResult } from './assertions';
+import { OutboundPayload, PrivacyMode, RedactionVault } from './privacy';
+import { SafetyPolicy, formatViolation } from './safetyPolicy';
+import { LlmSettings, TokenUsage, describeLlm } from './llm';
+import { UsageEvent } from './usage';
+import { InstructionPlan, StageInstruction, INSTRUCTION_SOURCE_LABELS, resolveInstructions, stageLabel } from './instructions';
+import { diffLines, formatDiff } from '../utils/codeDiff';
+
+// 読み込み → 指示の解決 → 作業計画 → 生成 → 実行・検証・修復 → 差分 の一連の処理。
+// 画面に依存せず、進行はイベントで通知し、利用者の確認はフックの Promise で待つ（ブラウザの App と Node の CLI で共通）
+
+const REPAIR_REASON_LABELS: Record<RepairContext['reason'], string> = {
+  runtime: 'エラー内容',
+  policy: '違反内容',
+  assertion: '検証結果',
+};
+
+// 処理を始められない入力（読み込めないファイル、指示がない、レシピが適用できない）
+export class InputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputError';
+  }
+}
+
+// 再試行しても AI の応答を得られなかった
+export class GenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+// AI の利用回数の上限に達したため、呼び出さずに止めた
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// 作業計画またはコードが却下された。中断と同様に扱う
+export class RunRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunRejectedError';
+  }
+}
+
+// 複数手順の指示は手順ごとに生成・実行し、その出力を次の手順の入力にする
+export interface StageRun {
+  plan: InstructionPlan;
+  index: number;
+  // この手順の最初の試行番号（自動修復の回数は手順ごとに数える）
+  firstRound: number;
+  // アップロードされた元の入力（差分の比較元）
+  inputs: InputMount[];
+  // この手順の入力（2番目以降の手順では前の手順の出力に置き換わる）
+  mounts: InputMount[];
+  workbooks: WorkbookContext[];
+  // 元のメインファイルの構成（レシピとして保存する際に使用）
+  inputProfile: WorkbookProfile;
+  // 完了した手順のスクリプト
+  scripts: string[];
+  // 完了した手順で確認した作業計画（scripts と同じ順）
+  taskPlans: (ConfirmedPlan | undefined)[];
+  // この手順で確認済みの作業計画。設定されていれば計画の確認を行わずに生成する
+  taskPlan?: ConfirmedPlan;
+  // 完了した手順の検証項目（scripts と同じ順）と、この手順の検証項目（生成時に設定する）
+  assertionSets: OutputAssertion[][];
+  assertions: OutputAssertion[];
+  // レシピを適用している場合は生成を行わず、保存済みのスクリプトを使う
+  recipe?: Recipe;
+}
+
+// 完了した実行のうち、レシピとして保存できる情報
+export interface CompletedRun {
+  plan: InstructionPlan;
+  scripts: string[];
+  taskPlans: (ConfirmedPlan | undefined)[];
+  assertionSets: OutputAssertion[][];
+  profile: WorkbookProfile;
+  inputCount: number;
+}
+
+export interface PipelineResult {
+  outputs: OutputFile[];
+  run: CompletedRun;
+  // 差分の計算に失敗した場合は null
+  diff: WorkbookDiff | null;
+  // 自動修復で解消できなかった検証の失敗（出力は残している）
+  failedChecks: AssertionResult[];
+}
+
+export type PipelineEvent =
+  | { type: 'status'; status: AppStatus }
+  | { type: 'log'; message: string; level: LogLevel; meta: LogMeta }
+  // 読み込み・変換後の入力（先頭がメインファイル）
+  | { type: 'inputs'; mounts: InputMount[] }
+  | { type: 'instructions'; plan: InstructionPlan }
+  | { type: 'stage'; stage: StageRun }
+  // reset の場合はそれまでの試行を破棄する（最初の手順）
+  | { type: 'attemptAdded'; attempt: CodeAttempt; reset: boolean }
+  | { type: 'attemptChanged'; round: number; changes: Partial<CodeAttempt> }
+  // 生成に失敗した・中断された試行
+  | { type: 'attemptRemoved'; round: number }
+  // 次に実行するコード（レビューや再実行で編集する元）
+  | { type: 'code'; code: string }
+  // 成功した AI の呼び出し
+  | { type: 'usage'; kind: UsageEvent['kind']; usage?: TokenUsage }
+  | { type: 'checksFailed'; failures: AssertionResult[] }
+  | { type: 'outputs'; outputs: OutputFile[]; run: CompletedRun }
+  | { type: 'diff'; diff: WorkbookDiff };
+
+// 利用者の確認待ちの作業計画
+export interface PlanReviewRequest {
+  stage: StageRun;
+  draft: PlanDraft;
+  // それまでの確認事項への回答
+  answers: PlanAnswer[];
+}
+
+export type PlanDecision =
+  // 確認事項に回答し、計画を改めて求める
+  | { type: 'answer'; answers: PlanAnswer[] }
+  | { type: 'confirm'; note: string }
+  | { type: 'reject' };
+
+export interface PipelineHooks {
+  onEvent: (event: PipelineEvent) => void;
+  // 指定した場合、生成の前に作業計画を求めて確認を待つ
+  reviewPlan?: (review: PlanReviewRequest) => Promise<PlanDecision>;
+  // 指定した場合、実行の前にコードの承認を待つ。実行するコード（編集されていてもよい）か、却下の場合は null を返す
+  approveCode?: (stage: StageRun, code: string) => Promise<string | null>;
+  // AI への送信の直前に呼ばれる。false を返した場合は送信せずに中止する
+  onPayload?: (payload: OutboundPayload) => Promise<boolean>;
+  // 計画・生成・修復の各呼び出しの前に呼ばれる。上限に達している場合は QuotaExceededError を投げる
+  beforeModelCall?: (kind: UsageEvent['kind']) => Promise<void>;
+}
+
+export interface PipelineOptions {
+  llm: LlmSettings;
+  safetyPolicy: SafetyPolicy;
+  privacy: { mode: PrivacyMode; vault: RedactionVault };
+  maxRepairRounds: number;
+  runTimeoutMs: number;
+  preserveFormatting: boolean;
+  // 中断すると AI の呼び出し・実行・確認待ちのいずれでも処理を止める
+  signal?: AbortSignal;
+  metrics?: RunMetrics | null;
+}
+
+// 指示の取り方。instruction（画面の入力欄）が空の場合はファイル内の指示を使う
+export interface PipelineSource {
+  instruction: string;
+  // 指定した場合は生成を行わず、レシピのスクリプトを使う
+  recipe?: Recipe | null;
+}
+
+export const toInstruction = (stage: StageRun): StageInstruction => ({
+  source: stage.plan.source,
+  text: stage.plan.steps[stage.index],
+  index: stage.index,
+  steps: stage.plan.steps,
+});
+
+// 複数ファイルの場合、mounts には input.xlsx と input_1.xlsx ... の両方が含まれる
+const countInputs = (mounts: InputMount[]) => mounts.length > 1 ? mounts.length - 1 : 1;
+
+// 試行に記録する手順の番号（単一手順の場合は記録しない）
+const attemptStage = (stage: StageRun) => stage.plan.steps.length > 1 ? stage.index : undefined;
+
+export const createPipeline = (options: PipelineOptions, hooks: PipelineHooks) => {
+  const { llm, safetyPolicy, privacy, maxRepairRounds, runTimeoutMs, preserveFormatting, signal, metrics = null } = options;
+  const emit = hooks.onEvent;
+  const log = (message: string, level: LogLevel = 'info', meta: LogMeta = {}) => emit({ type: 'log', message, level, meta });
+  const setStatus = (status: AppStatus) => emit({ type: 'status', status });
+  let failedChecks: AssertionResult[] = [];
+
+  // 利用者の確認待ちも中断できるようにする
+  // 確認待ちは何度も発生するため、決着したら中断のリスナーを外す
+  const waitForUser = <T>(promise: Promise<T>) => new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ExecutionCancelledError());
+      return;
+    }
+    const onAbort = () => reject(new ExecutionCancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+  });
+
+  // 中断以外の失敗は GenerationError として区別する（CLI の終了コードに使う）
+  const callModel = async <T>(kind: UsageEvent['kind'], request: () => Promise<T>): Promise<T> => {
+    await hooks.beforeModelCall?.(kind);
+    try {
+      return await request();
+    } catch (e: any) {
+      if (e instanceof GenerationCancelledError) throw e;
+      throw new GenerationError(e?.message ?? String(e));
+    }
+  };
+
+  const modelOptions = (): GenerateOptions => ({
+    privacy,
+    onPayload: hooks.onPayload,
+    signal,
+    preserveFormatting,
+    onRetry: (retry, msg) => log(msg, 'warning', { source: 'llm', payload: { attempt: retry } }),
+  });
+
+  // 受信中のコードを試行として通知しながら AI を呼び出す。失敗・中断した場合はその試行を取り除く
+  const streamCode = async (
+    kind: UsageEvent['kind'],
+    attempt: CodeAttempt,
+    request: (options: GenerateOptions) => Promise<GenerationResult>,
+    reset: boolean = false
+  ): Promise<GenerationResult> => {
+    emit({ type: 'attemptAdded', attempt: { ...attempt, streaming: true }, reset });
+    try {
+      const result = await callModel(kind, () => measure(metrics, 'generate', () => request({
+        ...modelOptions(),
+        onPartialCode: (partial) => emit({ type: 'attemptChanged', round: attempt.round, changes: { code: partial } }),
+      })));
+      addUsage(metrics, result.usage);
+      emit({ type: 'usage', kind, usage: result.usage });
+      emit({ type: 'attemptChanged', round: attempt.round, changes: { code: result.code, streaming: false } });
+      return result;
+    } catch (e) {
+      emit({ type: 'attemptRemoved', round: attempt.round });
+      throw e;
+    }
+  };
+
+  // 複数ファイルの場合は input_1.xlsx ... の各ファイルを1回ずつ解析する
+  const analyzeWorkbooks = async (mounts: InputMount[]): Promise<{ contexts: WorkbookContext[]; primaryResult: ExtractResult }> => {
+    const primary = mounts[0];
+    const sources = mounts.length > 1 ? mounts.slice(1) : mounts;
+    log(`解析開始: ${sources.map(m => m.fileName).join(', ')}`, 'info');
+
+    const results = await measure(metrics, 'read', () => extractWorkbooks(sources.map(m => m.file)));
+    const contexts: WorkbookContext[] = sources.map((m, i) => ({
+      path: m.path,
+      fileName: m.fileName,
+      primary: m.file === primary.file,
+      profile: results[i].profile,
+    }));
+    results.forEach((result, i) => {
+      const prefix = sources.length > 1 ? `[${sources[i].path}] ` : '';
+      if (result.error) log(`${prefix}ブック構成の解析中に警告: ${result.error}`, 'warning');
+      result.profile.sheets.forEach(sheet => {
+        log(`${prefix}シート「${sheet.name}」: ${sheet.dimensions} / ヘッダー行 ${sheet.headerRow} / ${sheet.columns.length} 列${sheet.formulaCount > 0 ? ` / 数式 ${sheet.formulaCount} セル` : ''}`, 'info');
+      });
+    });
+    return { contexts, primaryResult: results[contexts.findIndex(c => c.primary)] };
+  };
+
+  // 確認の質問に回答した場合は、回答を踏まえた計画を改めて求める（2回目以降は質問を返さないようプロンプトで指示する）
+  const confirmPlan = async (stage: StageRun, reviewPlan: NonNullable<PipelineHooks['reviewPlan']>): Promise<ConfirmedPlan> => {
+    const label = stageLabel(toInstruction(stage));
+    let answers: PlanAnswer[] = [];
+    for (;;) {
+      setStatus(AppStatus.PLANNING);
+      log(`${label}${describeLlm(llm)} に作業計画を依頼中...`, 'info', { source: 'llm' });
+      const result = await callModel('plan', () => measure(metrics, 'plan', () => planExcelEdit(toInstruction(stage), stage.workbooks, answers, llm, modelOptions())));
+      addUsage(metrics, result.usage);
+      emit({ type: 'usage', kind: 'plan', usage: result.usage });
+      setStatus(AppStatus.AWAITING_PLAN);
+      log(result.draft.type === 'questions'
+        ? `${label}指示について ${result.draft.questions.length} 件の確認事項があります。回答すると作業計画を作成します。`
+        : `${label}作業計画を受信しました。確認すると、この計画に沿ってコードを生成します。`, 'warning', { source: 'llm', payload: { tokens: result.usage } });
+
+      const decision = await waitForUser(reviewPlan({ stage, draft: result.draft, answers }));
+      if (decision.type === 'answer') {
+        log(`確認事項への回答:\n${decision.answers.map(a => `${a.question} → ${a.answer}`).join('\n')}`, 'info');
+        answers = [...answers, ...decision.answers];
+        continue;
+      }
+      if (decision.type === 'confirm' && result.draft.type === 'plan') {
+        log(`${label}作業計画が確認されました。`, 'success');
+        return {
+          plan: result.draft.plan,
+          answers: decision.note ? [...answers, { question: '補足', answer: decision.note }] : answers,
+          confirmedAt: Date.now(),
+        };
+      }
+      throw new RunRejectedError("作業計画が却下されました。コードは生成されていません。");
+    }
+  };
+
+  // レビューモードでは承認されたコード（編集された場合はその内容）を実行する
+  const approve = async (stage: StageRun, code: string, round: number): Promise<string> => {
+    if (!hooks.approveCode) return code;
+    setStatus(AppStatus.AWAITING_APPROVAL);
+    log("レビューモード: コードを確認・編集し、承認すると実行されます。", 'warning');
+    const approved = await waitForUser(hooks.approveCode(stage, code));
+    if (approved === null) throw new RunRejectedError("コードが却下されました。実行は行われていません。");
+    if (approved !== code) {
+      emit({ type: 'attemptChanged', round, changes: { code: approved, edited: true } });
+      log(`試行 ${round} のコードが手動で編集されました:\n${formatDiff(diffLines(code, approved))}`, 'code');
+    }
+    log("コードが承認されました。", 'success');
+    return approved;
+  };
+
+  const generateStage = async (next: StageRun): Promise<PipelineResult> => {
+    const label = stageLabel(toInstruction(next));
+    emit({ type: 'stage', stage: next });
+    let current = next;
+    if (hooks.reviewPlan && !next.recipe && !next.taskPlan) {
+      current = { ...next, taskPlan: await confirmPlan(next, hooks.reviewPlan) };
+      emit({ type: 'stage', stage: current });
+    }
+
+    let code: string;
+    if (current.recipe) {
+      const step = current.recipe.steps[current.index];
+      code = step.script;
+      current = { ...current, taskPlan: step.plan, assertions: step.assertions ?? [] };
+      log(`${label}レシピ「${current.recipe!.name}」のコードを使用します（AI呼び出しなし）。`, 'info');
+      emit({ type: 'attemptAdded', attempt: { round: current.firstRound, code, stage: attemptStage(current), plan: step.plan }, reset: current.index === 0 });
+    } else {
+      setStatus(AppStatus.GENERATING_CODE);
+      log(`${label}${describeLlm(llm)} に指示を送信中...`, 'info', { source: 'llm' });
+      const stage = current;
+      const attempt: CodeAttempt = { round: stage.firstRound, code: "", stage: attemptStage(stage), plan: stage.taskPlan };
+      const result = await streamCode('generate', attempt, (options) => generateExcelEditCode(toInstruction(stage), stage.workbooks, llm, { ...options, plan: stage.taskPlan }), stage.index === 0);
+      code = result.code;
+      current = { ...stage, assertions: result.assertions };
+      log(`${label}Pythonコードが生成されました。`, 'success', { source: 'llm', payload: { tokens: result.usage } });
+    }
+    emit({ type: 'stage', stage: current });
+    emit({ type: 'code', code });
+    if (current.assertions.length > 0) {
+      log(`${label}出力の検証項目 (${current.assertions.length} 件):\n${current.assertions.map(a => `- ${a.sheet ? `[${a.sheet}] ` : ''}${a.description}`).join('\n')}`, 'info');
+    } else if (!current.recipe) {
+      log(`${label}AIが検証項目を出力しなかったため、出力の検証は行いません。`, 'warning');
+    }
+
+    code = await approve(current, code, current.firstRound);
+    return executeScript(current, code, current.firstRound, !current.recipe);
+  };
+
+  // 実行と同じワーカーで確認した検証項目の結果を試行に記録し、満たされなかった項目を返す。検証自体を実行できなかった場合は警告に留める
+  const verifyOutputs = (current: StageRun, round: number, { checks, checkError }: TransformationResult): AssertionResult[] => {
+    const label = stageLabel(toInstruction(current));
+    if (checkError) log(`${label}出力の検証を実行できませんでした: ${checkError}`, 'warning');
+    if (!checks) return [];
+    emit({ type: 'attemptChanged', round, changes: { checks } });
+    const failures = checks.filter(c => !c.passed);
+    log(`${label}出力の検証: ${checks.length} 件中 ${checks.length - failures.length} 件合格`, failures.length > 0 ? 'error' : 'success');
+    failures.forEach(f => log(`[出力の検証] ${formatAssertionResult(f)}`, 'error'));
+    return failures;
+  };
+
+  // repair が false の場合（手動編集コードの再実行）はこの手順で AI を呼び出さない
+  const executeScript = async (current: StageRun, script: string, startRound: number, repair: boolean): Promise<PipelineResult> => {
+    const label = stageLabel(toInstruction(current));
+    let code = script;
+    let transformation: TransformationResult | null = null;
+    let lastRound = startRound;
+    for (let round = startRound; !transformation; round++) {
+      lastRound = round;
+      setStatus(AppStatus.EXECUTING_CODE);
+      log(`${label}${round === current.firstRound ? "Pythonを実行中..." : `コードを実行中... (試行 ${round})`}`, 'info');
+
+      try {
+        // 最後の手順では、元の入力との差分も同じワーカーで計算する
+        const isLastStage = current.index === current.plan.steps.length - 1;
+        const produced = await runPythonTransformation(code, current.mounts, (msg, meta) => {
+          log(msg, meta?.payload?.stream === 'stderr' ? 'warning' : 'info', { source: 'pyodide', ...meta });
+        }, {
+          timeoutMs: runTimeoutMs,
+          signal,
+          policy: safetyPolicy,
+          onViolations: (violations) => {
+            violations.forEach(v => log(`[安全性チェック] ${formatViolation(v)}`, v.action === 'block' ? 'error' : 'warning'));
+          },
+          assertions: current.assertions,
+          compareWith: isLastStage ? current.inputs[0].file : undefined,
+          timed: (phase, task) => {
+            if (phase !== 'execute') setStatus(phase === 'verify' ? AppStatus.VERIFYING_OUTPUT : AppStatus.COMPARING_OUTPUT);
+            return measure(metrics, phase, task);
+          },
+        });
+        // 修復の余地がある間は検証の失敗を実行エラーと同様に修復へ回し、使い切った場合は出力を残してダウンロードを保留する
+        const failures = verifyOutputs(current, round, produced);
+        if (failures.length > 0) {
+          if (repair && round - current.firstRound < maxRepairRounds) throw new OutputAssertionError(failures, produced.outputs);
+          failedChecks = [...failedChecks, ...failures];
+          emit({ type: 'checksFailed', failures });
+          log(`${label}検証に失敗した出力のまま処理を続けます。ダウンロードの前に内容を確認してください。`, 'warning');
+        }
+        transformation = produced;
+      } catch (e) {
+        if (e instanceof ExecutionCancelledError) {
+          emit({ type: 'attemptChanged', round, changes: { error: e.message } });
+        }
+        if (!(e instanceof PythonExecutionError)) throw e;
+
+        const failedCode = code;
+        emit({ type: 'attemptChanged', round, changes: { error: e.traceback } });
+        const reason: RepairContext['reason'] = e instanceof SafetyViolationError ? 'policy' : e instanceof OutputAssertionError ? 'assertion' : 'runtime';
+        if (reason === 'runtime') {
+          const summary = e.traceback.trim().split('\n').pop() || e.message;
+          log(`試行 ${round} でエラーが発生しました: ${summary}`, 'error', { source: 'python', payload: { traceback: e.traceback, attempt: round } });
+        }
+        if (!repair || round - current.firstRound >= maxRepairRounds) throw e;
+        if (reason === 'policy' && safetyPolicy.onViolation === 'stop') throw e;
+
+        setStatus(AppStatus.REPAIRING_CODE);
+        log(`${label}${REPAIR_REASON_LABELS[reason]}をAIに送信してコードを修復しています (${round - current.firstRound + 1}/${maxRepairRounds})...`, 'warning', { source: 'llm', payload: { attempt: round - current.firstRound + 1 } });
+        const repaired = await streamCode(
+          'repair',
+          { round: round + 1, code: "", stage: attemptStage(current), plan: current.taskPlan },
+          (options) => repairExcelEditCode(toInstruction(current), current.workbooks, { reason, failedCode, traceback: e.traceback, stdout: e.stdout }, llm, { ...options, plan: current.taskPlan })
+        );
+        code = repaired.code;
+        log(`${label}修復したコードを受信しました。`, 'success', { source: 'llm', payload: { tokens: repaired.usage } });
+
+        const diff = diffLines(failedCode, code);
+        emit({ type: 'attemptChanged', round: round + 1, changes: { diff } });
+        emit({ type: 'code', code });
+        log(`試行 ${round} からの変更点:\n${formatDiff(diff)}`, 'code');
+
+        // レビューモードでは修復後のコードも承認を経てから実行する
+        code = await approve(current, code, round + 1);
+      }
+    }
+
+    const results = transformation.outputs;
+    // 出力が複数ある場合は output.xlsx（なければ先頭）をメインの出力とする
+    const mainOutput = results.find(o => o.name === OUTPUT_PATH) ?? results[0];
+    if (current.index < current.plan.steps.length - 1) {
+      log(`${label}完了。${mainOutput.name} を次の手順の入力にします。`, 'success');
+      if (results.length > 1) {
+        log(`${mainOutput.name} 以外の出力 (${results.filter(o => o !== mainOutput).map(o => o.name).join(', ')}) は次の手順に引き継がれません。`, 'warning');
+      }
+      const mounts = replacePrimaryInput(current.mounts, mainOutput.blob);
+      setStatus(AppStatus.READING_FILE);
+      const { contexts } = await analyzeWorkbooks(mounts);
+      return generateStage({
+        ...current, index: current.index + 1, firstRound: lastRound + 1, mounts, workbooks: contexts,
+        scripts: [...current.scripts, code], taskPlans: [...current.taskPlans, current.taskPlan], taskPlan: undefined,
+        assertionSets: [...current.assertionSets, current.assertions], assertions: [],
+      });
+    }
+
+    const run: CompletedRun = {
+      plan: current.plan,
+      scripts: [...current.scripts, code],
+      taskPlans: [...current.taskPlans, current.taskPlan],
+      assertionSets: [...current.assertionSets, current.assertions],
+      profile: current.inputProfile,
+      inputCount: countInputs(current.inputs),
+    };
+    emit({ type: 'outputs', outputs: results, run });
+    if (results.length > 1) {
+      log(`${results.length} 個の出力ファイルが生成されました: ${results.map(o => o.name).join(', ')}`, 'success');
+    }
+
+    // 差分の計算に失敗しても出力ファイル自体は有効なので、警告のみに留める
+    // 複数手順の場合も、アップロードされた元のファイルと最終的な出力を比較する。
+    // 通常は実行と同じワーカーで計算済みで、検証に失敗した出力を残した場合のみここで計算する
+    let workbookDiff: WorkbookDiff | null = null;
+    try {
+      if (transformation.compareError) throw new Error(transformation.compareError);
+      let comparison = transformation.comparison;
+      if (!comparison) {
+        setStatus(AppStatus.COMPARING_OUTPUT);
+        log(`入力と出力 (${mainOutput.name}) の差分を計算しています...`, 'info');
+        comparison = await measure(metrics, 'compare', () => compareWorkbooks(current.inputs[0].file, mainOutput.blob));
+      }
+      const { diff, fidelity } = comparison;
+      workbookDiff = diff;
+      emit({ type: 'diff', diff });
+      log(`差分: 値 ${diff.totals.value} 件 / 数式 ${diff.totals.formula} 件 / 書式 ${diff.totals.style} 件、シート追加 ${diff.addedSheets.length} / 削除 ${diff.removedSheets.length}`, 'info');
+      const losses = describeFidelity(fidelity);
+      if (losses.length > 0) {
+        log(`[書式保持チェック] 入力ブックの要素が出力で失われています:\n${losses.join('\n')}`, 'warning');
+        if (!preserveFormatting) log("書式・数式・グラフを残したい場合は「書式を保持して編集」を有効にして再実行してください。", 'warning');
+      } else {
+        log("[書式保持チェック] シート・書式・数式・入力規則・グラフは保持されています。", 'success');
+      }
+    } catch (e: any) {
+      log(`差分の計算に失敗しました: ${e.message}`, 'warning');
+    }
+
+    setStatus(AppStatus.COMPLETED);
+    log("すべての処理が完了しました！", 'success');
+    return { outputs: results, run, diff: workbookDiff, failedChecks };
+  };
+
+  // 読み込み済みの入力から処理する（再試行では読み込みをやり直さない）
+  const transform = async (mounts: InputMount[], { instruction, recipe }: PipelineSource): Promise<PipelineResult> => {
+    failedChecks = [];
+    setStatus(AppStatus.READING_FILE);
+    let analyzed: Awaited<ReturnType<typeof analyzeWorkbooks>>;
+    try {
+      analyzed = await analyzeWorkbooks(mounts);
+    } catch (e: any) {
+      throw new InputError(e.message);
+    }
+    const { contexts, primaryResult } = analyzed;
+
+    if (recipe) {
+      log(`レシピ「${recipe.name}」との互換性を確認しています...`, 'info');
+      const { errors, warnings } = checkRecipeCompatibility(recipe, primaryResult.profile, countInputs(mounts));
+      warnings.forEach(w => log(`[レシピ] ${w}`, 'warning'));
+      if (errors.length > 0) {
+        errors.forEach(err => log(`[レシピ] ${err}`, 'error'));
+        throw new InputError(`レシピ「${recipe.name}」はこのファイルに適用できません。${errors[0]}`);
+      }
+    }
+
+    // CSV の先頭セルは見出しであり指示ではないため、入力欄の指示のみを使う
+    const isCsv = mounts[0].format === 'csv';
+    const extracted = isCsv ? { ...primaryResult, a1: "", a1Comment: "", instructionSheet: null } : primaryResult;
+    const plan = recipe ? recipePlan(recipe) : resolveInstructions(extracted, instruction);
+    if (!plan) {
+      log(isCsv ? "警告: 指示が入力されていません。" : "警告: 指示が見つかりませんでした。", 'warning');
+      throw new InputError(isCsv
+        ? "CSVファイルには A1 セルの指示がないため、「指示」欄に指示内容を入力してからアップロードしてください。"
+        : "「指示」欄への入力、「指示」シート、A1セルのコメント、A1セルのいずれかに指示内容を書いてください。");
+    }
+    emit({ type: 'instructions', plan });
+    const sourceLabel = recipe ? `レシピ「${recipe.name}」` : plan.sheetName ? `シート「${plan.sheetName}」` : INSTRUCTION_SOURCE_LABELS[plan.source];
+    if (plan.steps.length > 1) {
+      log(`${sourceLabel}から ${plan.steps.length} 個の手順を検出:\n${plan.steps.map((s, i) => `${i + 1}. ${s}`).join('\n')}`, 'success');
+    } else {
+      log(`${sourceLabel}から指示を検出: "${plan.steps[0]}"`, 'success');
+    }
+
+    return generateStage({
+      plan, index: 0, firstRound: 1, inputs: mounts, mounts, workbooks: contexts,
+      inputProfile: primaryResult.profile, scripts: [], taskPlans: [], assertionSets: [], assertions: [], recipe: recipe ?? undefined,
+    });
+  };
+
+  // ファイルを読み込み（CSV・xls は xlsx に変換し）、primaryIndex のファイルをメインファイルとして処理する
+  const run = async (files: File[], primaryIndex: number, source: PipelineSource): Promise<PipelineResult> => {
+    let mounts: InputMount[];
+    setStatus(AppStatus.READING_FILE);
+    try {
+      const normalized = await measure(metrics, 'read', () => normalizeInputs(files, (msg) => log(msg, 'info', { source: 'pyodide' })));
+      mounts = planInputMounts(normalized, primaryIndex);
+    } catch (e: any) {
+      throw new InputError(e.message);
+    }
+    emit({ type: 'inputs', mounts });
+    return transform(mounts, source);
+  };
+
+  // 手順のコードを AI を呼び出さずに実行し直す（以降の手順は通常どおり生成する）。試行 stage.firstRound として記録する
+  const rerun = (stage: StageRun, script: string): Promise<PipelineResult> => {
+    failedChecks = [];
+    return executeScript(stage, script, stage.firstRound, false);
+  };
+
+  return { run, transform, rerun };
+};
+
+export type Pipeline = ReturnType<typeof createPipeline>;
@@ -0,0 +1,349 @@
+import { CodeTask, RepairContext } from './prompts';
+import { WorkbookContext } from './workbookProfile';
+import { ConfirmedPlan, PlanAnswer } from './taskPlan';
+import { LogPayload } from '../types';
+
+// AI に送る前の個人情報の置き換え。元の値はブラウザ内の対応表にだけ残し、応答に含まれるプレースホルダーは元の値に戻す
+//   off:    置き換えない
+//   redact: 検出した個人情報をプレースホルダーに置き換える
+//   strict: さらにサンプル値・標準出力を送らず、構造（シート・列・型）のみを送る。修復時のコード・エラーも構造だけに縮める
+export type PrivacyMode = 'off' | 'redact' | 'strict';
+
+export const PRIVACY_MODE_LABELS: Record<PrivacyMode, string> = {
+  off: '置き換えない',
+  redact: '個人情報を置き換える',
+  strict: '厳格（値を送らない）',
+};
+
+export type PiiCategory = 'name' | 'phone' | 'myNumber' | 'email' | 'address' | 'account';
+
+export const PII_CATEGORY_LABELS: Record<PiiCategory, string> = {
+  name: '氏名',
+  phone: '電話番号',
+  myNumber: 'マイナンバー',
+  email: 'メール',
+  address: '住所',
+  account: '口座番号',
+};
+
+export interface PrivacySettings {
+  mode: PrivacyMode;
+  // 送信のたびに内容を表示し、承認してから送る
+  confirmBeforeSend: boolean;
+}
+
+const PRIVACY_KEY = 'excel_autopilot_privacy_v1';
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = { mode: 'redact', confirmBeforeSend: false };
+
+export const loadPrivacySettings = (): PrivacySettings => {
+  try {
+    const stored = localStorage.getItem(PRIVACY_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        mode: parsed.mode in PRIVACY_MODE_LABELS ? parsed.mode : DEFAULT_PRIVACY_SETTINGS.mode,
+        confirmBeforeSend: parsed.confirmBeforeSend === true,
+      };
+    }
+  } catch (e) {}
+  return DEFAULT_PRIVACY_SETTINGS;
+};
+
+export const savePrivacySettings = (settings: PrivacySettings) => {
+  try {
+    localStorage.setItem(PRIVACY_KEY, JSON.stringify(settings));
+  } catch (e) {}
+};
+
+export interface Redaction {
+  placeholder: string;
+  value: string;
+  category: PiiCategory;
+}
+
+// AI に送る内容（監査ログと送信前の確認に使う）
+export interface OutboundPayload {
+  kind: CodeTask['kind'];
+  provider: string;
+  model: string;
+  mode: PrivacyMode;
+  systemInstruction: string;
+  prompt: string;
+  // Gemini プロキシの場合、実際に送るのはプロンプトではなくこの作業内容（サーバー側で prompt と同じ内容に組み立てる）
+  task: CodeTask;
+  // プロンプトに含まれるプレースホルダーの種類ごとの数
+  replaced: Partial<Record<PiiCategory, number>>;
+}
+
+export const PAYLOAD_KIND_LABELS: Record<CodeTask['kind'], string> = {
+  plan: '作業計画',
+  generate: '生成',
+  repair: '修復',
+};
+
+// このセッションで送信した内容（画面の監査ログ）
+export interface AuditEntry extends OutboundPayload {
+  sentAt: number;
+}
+
+// 元の値とプレースホルダーの対応表。ジョブの間は同じ値に同じプレースホルダーを使う（修復・次の手順でも一貫させる）
+export interface RedactionVault {
+  byValue: Map<string, Redaction>;
+  byPlaceholder: Map<string, Redaction>;
+}
+
+export const createRedactionVault = (): RedactionVault => ({ byValue: new Map(), byPlaceholder: new Map() });
+
+const PLACEHOLDER_PATTERN = new RegExp(`〔(${Object.values(PII_CATEGORY_LABELS).join('|')})_(\\d+)〕`, 'g');
+
+const register = (vault: RedactionVault, value: string, category: PiiCategory): string => {
+  const existing = vault.byValue.get(value);
+  if (existing) return existing.placeholder;
+  const index = [...vault.byValue.values()].filter(r => r.category === category).length + 1;
+  const redaction = { placeholder: `〔${PII_CATEGORY_LABELS[category]}_${index}〕`, value, category };
+  vault.byValue.set(value, redaction);
+  vault.byPlaceholder.set(redaction.placeholder, redaction);
+  return redaction.placeholder;
+};
+
+// マイナンバー（12桁）のチェックデジット
+const isMyNumber = (digits: string): boolean => {
+  if (!/^\d{12}$/.test(digits)) return false;
+  let sum = 0;
+  for (let n = 1; n <= 11; n++) {
+    sum += Number(digits[11 - n]) * (n <= 6 ? n + 1 : n - 5);
+  }
+  const remainder = sum % 11;
+  return Number(digits[11]) === (remainder <= 1 ? 0 : 11 - remainder);
+};
+
+const PREFECTURES = '北海道|東京都|大阪府|京都府|(?:青森|岩手|宮城|秋田|山形|福島|茨城|栃木|群馬|埼玉|千葉|神奈川|新潟|富山|石川|福井|山梨|長野|岐阜|静岡|愛知|三重|滋賀|兵庫|奈良|和歌山|鳥取|島根|岡山|広島|山口|徳島|香川|愛媛|高知|福岡|佐賀|長崎|熊本|大分|宮崎|鹿児島|沖縄)県';
+
+// 敬称の前にあっても氏名ではない語
+const NOT_NAMES = new Set(['お客', '顧客', '担当', '担当者', '利用者', '会員', '社員', '取引先', '先方', '皆', '各位', '御社', '貴社']);
+
+interface PiiPattern {
+  category: PiiCategory;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+// 具体的なものから順に適用する。都道府県名だけ（「東京都の行」など）は指示として必要なため、番地まである場合に限る
+const PII_PATTERNS: PiiPattern[] = [
+  { category: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { category: 'myNumber', pattern: /(?<!\d)\d{4}[- ]?\d{4}[- ]?\d{4}(?!\d)/g, accept: m => isMyNumber(m.replace(/\D/g, '')) },
+  {
+    category: 'phone',
+    pattern: /(?<![\d-])(?:\+81[- ]?|0)\d{1,4}[- (]?\d{1,4}[- )]?\d{3,4}(?![\d-])/g,
+    accept: m => { const digits = m.replace(/^\+81/, '0').replace(/\D/g, ''); return digits.length === 10 || digits.length === 11; },
+  },
+  { category: 'account', pattern: /(?<=(?:口座(?:番号)?|普通|当座)[\s:：]*)\d{7}(?!\d)/g },
+  { category: 'address', pattern: new RegExp(`(?:〒\\s?\\d{3}-?\\d{4}\\s*)?(?:${PREFECTURES})[^\\s、。,，]*?[0-9０-９一二三四五六七八九十]+(?:丁目|番地?|号|-|－)[^\\s、。,，]*`, 'g') },
+  { category: 'address', pattern: /〒\s?\d{3}-?\d{4}/g },
+  {
+    category: 'name',
+    pattern: /[一-龥々]{2,4}(?:[ 　][一-龥々]{1,4})?(?=さん|様|さま|氏|殿)/g,
+    accept: m => !NOT_NAMES.has(m),
+  },
+];
+
+// 見出しから、その列の値がすべて個人情報とみなせるもの
+const COLUMN_HINTS: { category: PiiCategory; pattern: RegExp }[] = [
+  { category: 'myNumber', pattern: /マイナンバー|個人番号/ },
+  { category: 'account', pattern: /口座/ },
+  { category: 'email', pattern: /メール|e-?mail/i },
+  { category: 'phone', pattern: /電話|携帯|TEL|FAX|phone/i },
+  { category: 'address', pattern: /住所|所在地|address/i },
+  { category: 'name', pattern: /氏名|名前|フリガナ|ふりがな|担当者|顧客名|社員名|会員名|契約者|^name$|full.?name/i },
+];
+
+export const hintedCategory = (columnName: string): PiiCategory | undefined =>
+  COLUMN_HINTS.find(h => h.pattern.test(columnName))?.category;
+
+// 個人情報とみなす列のサンプル値を対応表に登録する。1文字の値は他の語の一部を置き換えてしまうため登録しない
+const rememberWorkbookValues = (workbooks: WorkbookContext[], vault: RedactionVault) => {
+  workbooks.forEach(w => w.profile.sheets.forEach(sheet => sheet.columns.forEach(column => {
+    const category = hintedCategory(column.name);
+    if (!category) return;
+    column.samples.filter(s => s.trim().length >= 2).forEach(s => register(vault, s.trim(), category));
+  })));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 登録済みの値（長いものから）を置き換えた後、パターンで検出したものを置き換える
+export const redactText = (text: string, vault: RedactionVault): string => {
+  let result = text;
+  const known = [...vault.byValue.keys()].sort((a, b) => b.length - a.length);
+  if (known.length > 0) {
+    result = result.replace(new RegExp(known.map(escapeRegExp).join('|'), 'g'), value => vault.byValue.get(value)!.placeholder);
+  }
+  for (const { category, pattern, accept } of PII_PATTERNS) {
+    result = result.replace(pattern, match => accept && !accept(match) ? match : register(vault, match, category));
+  }
+  return result;
+};
+
+// AI の応答に含まれるプレースホルダーを元の値に戻す（対応表にないものはそのまま残す）
+export const restoreText = (text: string, vault: RedactionVault): string =>
+  text.replace(PLACEHOLDER_PATTERN, placeholder => vault.byPlaceholder.get(placeholder)?.value ?? placeholder);
+
+const STRICT_OMITTED = '(厳格モードのため送信しません)';
+
+const redactWorkbooks = (workbooks: WorkbookContext[], mode: PrivacyMode, vault: RedactionVault): WorkbookContext[] =>
+  workbooks.map(w => ({
+    ...w,
+    fileName: redactText(w.fileName, vault),
+    profile: {
+      ...w.profile,
+      activeSheet: redactText(w.profile.activeSheet, vault),
+      namedRanges: w.profile.namedRanges.map(n => redactText(n, vault)),
+      sheets: w.profile.sheets.map(sheet => ({
+        ...sheet,
+        name: redactText(sheet.name, vault),
+        columns: sheet.columns.map(column => ({
+          ...column,
+          name: redactText(column.name, vault),
+          samples: mode === 'strict' ? [] : column.samples.map(s => redactText(s, vault)),
+        })),
+      })),
+    },
+  }));
+
+const redactAnswers = (answers: PlanAnswer[], vault: RedactionVault): PlanAnswer[] =>
+  answers.map(a => ({ question: redactText(a.question, vault), answer: redactText(a.answer, vault) }));
+
+const redactPlan = (confirmed: ConfirmedPlan | undefined, vault: RedactionVault): ConfirmedPlan | undefined => confirmed && {
+  ...confirmed,
+  plan: {
+    summary: redactText(confirmed.plan.summary, vault),
+    steps: confirmed.plan.steps.map(s => redactText(s, vault)),
+    columns: confirmed.plan.columns.map(c => ({
+      ...c,
+      sheet: c.sheet === undefined ? undefined : redactText(c.sheet, vault),
+      name: redactText(c.name, vault),
+      change: redactText(c.change, vault),
+    })),
+    output: redactText(confirmed.plan.output, vault),
+  },
+  answers: redactAnswers(confirmed.answers, vault),
+};
+
+const STRICT_VALUE = '〔値〕';
+
+// 厳格モードでもそのまま送る文字列リテラル（空白を含まない英数字・記号のみ。書式やエンジン名、出力先など）
+const SAFE_LITERAL = /^[\w.\-%:/*{}[\],]*$/;
+const CODE_TOKEN = /(#[^\n]*)|([rRbBfFuU]{0,2})("""[\s\S]*?"""|'''[\s\S]*?'''|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')/g;
+const QUOTED = /'([^'\n]*)'|"([^"\n]*)"/g;
+const TRACEBACK_FRAME = /^\s*File "[^"]*", line \d+(?:, in \S+)?$/;
+const EXCEPTION_LINE = /^([A-Za-z_][\w.]*)(?::\s?(.*))?$/;
+
+// ブックの構造として AI に送っている名前（ファイル・シート・列・名前付き範囲）
+const structureNames = (workbooks: WorkbookContext[]): Set<string> => new Set(workbooks.flatMap(w => [
+  w.path,
+  w.fileName,
+  ...w.profile.namedRanges,
+  ...w.profile.sheets.flatMap(sheet => [sheet.name, ...sheet.columns.map(c => c.name)]),
+]).filter(name => name.length > 0));
+
+const keepLiteral = (body: string, names: Set<string>) => names.has(body) || SAFE_LITERAL.test(body);
+
+// 厳格モードのコード: コメントを除き、構造の名前と記号的なもの以外の文字列リテラルを 〔値〕 にする
+const strictCode = (code: string, names: Set<string>, vault: RedactionVault): string =>
+  redactText(code.replace(CODE_TOKEN, (_token, comment: string | undefined, prefix: string, literal: string) => {
+    if (comment !== undefined) return '';
+    const quote = literal.startsWith('"""') || literal.startsWith("'''") ? literal.slice(0, 3) : literal[0];
+    const body = literal.slice(quote.length, -quote.length);
+    return keepLiteral(body, names) ? `${prefix}${literal}` : `${prefix}${quote}${STRICT_VALUE}${quote}`;
+  }), vault);
+
+// 厳格モードのトレースバック: 呼び出し位置（ファイル・行番号）と例外の型だけを残す。メッセージからは構造の名前だけを拾う
+const strictTraceback = (traceback: string, names: Set<string>, vault: RedactionVault): string =>
+  traceback.split('\n').flatMap(line => {
+    if (/^(Traceback \(|During handling|The above exception)/.test(line) || TRACEBACK_FRAME.test(line)) return [line];
+    const match = /^\s/.test(line) ? null : line.match(EXCEPTION_LINE);
+    if (!match) return [];
+    const mentioned = [...names].filter(name => match[2]?.includes(name));
+    const columns = mentioned.length > 0 ? ` 含まれる名前: ${mentioned.map(name => redactText(name, vault)).join(', ')}` : '';
+    return [match[2] === undefined ? match[1] : `${match[1]}: ${STRICT_OMITTED}${columns}`];
+  }).join('\n');
+
+// 厳格モードの修復理由。検証結果は AI が作った検証項目だけを残し、確認した値は送らない。
+// 安全性チェックの違反内容はコードについてのものだが、引用された文字列はコードと同じ基準で縮める
+const strictRepairDetail = (context: RepairContext, names: Set<string>, vault: RedactionVault): string => {
+  switch (context.reason) {
+    case 'runtime':
+      return strictTraceback(context.traceback, names, vault);
+    case 'assertion':
+      return redactText(context.traceback.split('\n').map(line => {
+        const separator = line.indexOf(': ');
+        return `${separator >= 0 ? line.slice(0, separator) : line}: ${STRICT_OMITTED}`;
+      }).join('\n'), vault);
+    case 'policy':
+      return redactText(context.traceback.replace(QUOTED, (quoted, single?: string, double?: string) =>
+        keepLiteral(single ?? double ?? '', names) ? quoted : `'${STRICT_VALUE}'`), vault);
+  }
+};
+
+// AI に送る作業内容から個人情報を取り除く。off の場合はそのまま返す
+export const redactTask = (task: CodeTask, mode: PrivacyMode, vault: RedactionVault): CodeTask => {
+  if (mode === 'off') return task;
+  rememberWorkbookValues(task.workbooks, vault);
+  const instruction = {
+    ...task.instruction,
+    text: redactText(task.instruction.text, vault),
+    steps: task.instruction.steps.map(s => redactText(s, vault)),
+  };
+  const common = { instruction, workbooks: redactWorkbooks(task.workbooks, mode, vault), preserveFormatting: task.preserveFormatting, redacted: true };
+  switch (task.kind) {
+    case 'plan':
+      return { ...common, kind: 'plan', answers: redactAnswers(task.answers, vault) };
+    case 'generate':
+      return { ...common, kind: 'generate', plan: redactPlan(task.plan, vault) };
+    case 'repair': {
+      const names = structureNames(task.workbooks);
+      return {
+        ...common,
+        kind: 'repair',
+        plan: redactPlan(task.plan, vault),
+        context: {
+          ...task.context,
+          failedCode: mode === 'strict' ? strictCode(task.context.failedCode, names, vault) : redactText(task.context.failedCode, vault),
+          traceback: mode === 'strict' ? strictRepairDetail(task.context, names, vault) : redactText(task.context.traceback, vault),
+          // 標準出力にはデータの値がそのまま含まれることが多い
+          stdout: mode === 'strict' ? [STRICT_OMITTED] : task.context.stdout.map(line => redactText(line, vault)),
+        },
+      };
+    }
+  }
+};
+
+// 送信内容に含まれるプレースホルダーの種類ごとの数
+export const countPlaceholders = (text: string, vault: RedactionVault): Partial<Record<PiiCategory, number>> => {
+  const counts: Partial<Record<PiiCategory, number>> = {};
+  new Set(text.match(PLACEHOLDER_PATTERN) ?? []).forEach(placeholder => {
+    const redaction = vault.byPlaceholder.get(placeholder);
+    if (redaction) counts[redaction.category] = (counts[redaction.category] ?? 0) + 1;
+  });
+  return counts;
+};
+
+export const formatPlaceholderCounts = (counts: Partial<Record<PiiCategory, number>>): string => {
+  const parts = (Object.keys(counts) as PiiCategory[]).map(c => `${PII_CATEGORY_LABELS[c]} ${counts[c]}`);
+  return parts.length > 0 ? parts.join('・') : 'なし';
+};
+
+// ログの [送信記録] の本文（画面と CLI で共通）
+export const formatPayloadSummary = (payload: OutboundPayload): string =>
+  `[送信記録] ${PAYLOAD_KIND_LABELS[payload.kind]} / ${payload.provider} ${payload.model} / ${PRIVACY_MODE_LABELS[payload.mode]} / ${payload.prompt.length.toLocaleString()} 文字 / 置き換え: ${formatPlaceholderCounts(payload.replaced)}`;
+
+// ログに添付する送信記録（システム指示と作業内容は含めない）
+export const auditPayload = (payload: OutboundPayload): NonNullable<LogPayload['audit']> => ({
+  kind: payload.kind,
+  provider: payload.provider,
+  model: payload.model,
+  mode: payload.mode,
+  replaced: payload.replaced,
+  prompt: payload.prompt,
+});
@@ -0,0 +1,222 @@
+import { WorkbookContext, summarizeWorkbooks } from "./workbookProfile";
+import { StageInstruction, INSTRUCTION_SOURCE_LABELS } from "./instructions";
+import { PRESERVE_MODULE } from "./pyodideProtocol";
+import { HELPER_PACKAGE, HELPER_PACKAGE_VERSION, HELPER_API } from "./helperPackage";
+import { ConfirmedPlan, PlanAnswer, MAX_QUESTIONS, formatPlan } from "./taskPlan";
+import { MAX_ASSERTIONS } from "./assertions";
+
+// プロンプトの組み立て。ブラウザ（OpenAI互換・モック）と API ルート（Gemini プロキシ）の両方から使う
+
+export const SYSTEM_INSTRUCTION = `
+あなたは世界最高峰の「Excel自動編集エンジニア」です。Python、特に \`pandas\` と \`openpyxl\` ライブラリの扱いに精通しています。
+
+あなたの目的は、ユーザーの指示に基づいて、Excelファイルを操作するPythonコードを生成することです。指示は画面の入力欄、「指示」シート、A1セルのコメント、またはA1セルから与えられます。
+
+**重要ルール:**
+1.  **入力ファイル**: \`input.xlsx\` を読み込んでください。複数ファイルが渡された場合は \`input_1.xlsx\` ... \`input_n.xlsx\` として配置されます。
+2.  **出力ファイル**: **必ず \`output.xlsx\` という名前で保存してください。** 指示により出力を複数に分ける場合に限り、\`output_<名前>.xlsx\` の形式で複数保存できます。
+3.  **環境**: ブラウザ内のPython環境（Pyodide）で動作します。\`pandas\`、\`openpyxl\`、\`json\`、\`re\`、\`datetime\`、\`math\` と、ヘルパーライブラリ \`${HELPER_PACKAGE}\` が利用可能です。それ以外のモジュールのインポート、ネットワーク通信、\`eval\`/\`exec\`、\`output.xlsx\` 以外へのファイル書き込みは安全性チェックで拒否されます。
+4.  **注意点 (重要)**: 
+    - \`openpyxl.cell.text\` から \`CellRichText\` をインポートしないでください。
+    - データの正確性を最優先してください。
+    - 基本的に \`pandas\` を使用してデータを処理し、最後に \`output.xlsx\` へ保存してください。
+    - **読み取ったセルの値が空であった場合（NaNやNone）、書き込みや貼り付けの際には空欄（"" または None）として適切に扱ってください。**
+    - ヘッダー行の検出、和暦などの日付の変換、全角・半角の正規化、欠損値の書き込みは自前で実装せず、\`${HELPER_PACKAGE}\` の関数を使ってください。
+5.  **ヘルパーライブラリ \`${HELPER_PACKAGE}\` (v${HELPER_PACKAGE_VERSION})**: \`from ${HELPER_PACKAGE} import read_table, parse_jp_date\` のようにインポートします。
+${HELPER_API.map(f => `    - \`${f.signature}\`: ${f.description}`).join('\n')}
+6.  **言語**: ユーザーは日本人です。指示は日本語です。ログメッセージも日本語にしてください。
+
+**生成プロセスの要件:**
+- 指示を厳密に解釈してください。指示が複数の手順に分かれている場合は、指定された手順のみを実行してください。
+- 指示がA1セルにある場合、A1セル自体の指示内容は、そのまま残すか、データ行として扱わないように注意してください。
+- 最後に必ず \`output.xlsx\` を生成するコードを含めてください。
+`;
+
+export interface RepairContext {
+  // 'policy' の場合は安全性チェックの違反内容、'assertion' の場合は満たされなかった検証項目が traceback に入る
+  reason: 'runtime' | 'policy' | 'assertion';
+  failedCode: string;
+  traceback: string;
+  stdout: string[];
+}
+
+// AI に依頼する作業。Gemini プロキシにはプロンプト文字列ではなくこの内容を送り、サーバー側で組み立てる
+// preserveFormatting が真の場合は、pandas で書き直さずブックをその場で編集させる（書式保持モード）
+// 'plan' はコードを書く前の作業計画（または確認の質問）。plan には利用者が確認した計画が入る
+// redacted が真の場合、個人情報はプレースホルダーに置き換え済み（privacy.ts）
+export type CodeTask = (
+  | { kind: 'plan'; instruction: StageInstruction; workbooks: WorkbookContext[]; answers: PlanAnswer[] }
+  | { kind: 'generate'; instruction: StageInstruction; workbooks: WorkbookContext[]; plan?: ConfirmedPlan }
+  | { kind: 'repair'; instruction: StageInstruction; workbooks: WorkbookContext[]; context: RepairContext; plan?: ConfirmedPlan }
+) & { preserveFormatting?: boolean; redacted?: boolean };
+
+const MAX_FEEDBACK_CHARS = 4000;
+
+// トレースバックや標準出力が長すぎる場合は末尾（エラー発生箇所に近い側）を残す
+const tail = (text: string, maxChars: number = MAX_FEEDBACK_CHARS) =>
+  text.length > maxChars ? `...(省略)...\n${text.slice(-maxChars)}` : text;
+
+const describeInstruction = (instruction: StageInstruction): string => {
+  const label = INSTRUCTION_SOURCE_LABELS[instruction.source];
+  const notes = instruction.source === 'a1' ? [] : ['- A1セルは指示ではなくデータの一部として扱うこと。'];
+  if (instruction.source === 'sheet') notes.push('- 指示用のシート（「指示」など）は変更・削除しないこと。');
+  if (instruction.steps.length <= 1) {
+    return [`**指示内容 (${label}):** "${instruction.text}"`, ...notes].join('\n    ');
+  }
+  return [
+    `**全体の手順 (${label}):**`,
+    ...instruction.steps.map((step, i) => `${i + 1}. ${step}${i === instruction.index ? '  ← 今回' : ''}`),
+    `**今回実行する手順 (${instruction.index + 1}/${instruction.steps.length}):** "${instruction.text}"`,
+    instruction.index > 0
+      ? '- それより前の手順は適用済みで、その結果が input.xlsx です。今回の手順だけを実行すること。'
+      : '- 今回の手順だけを実行すること。後続の手順は別のスクリプトで実行される。',
+    ...notes,
+  ].join('\n    ');
+};
+
+// ヘルパーの実装は pythonScripts.ts の PRESERVE_MODULE_SOURCE
+const PRESERVE_MODE_NOTES = `
+    **書式保持モード（システム指示の「pandas を使用して保存」より優先）:**
+    - 入力ブックの書式・数式・グラフ・入力規則・条件付き書式・結合セルを残すため、pandas の to_excel / ExcelWriter で保存しないこと。
+    - \`from ${PRESERVE_MODULE} import ...\` で以下のヘルパーを使い、openpyxl でブックを開いたまま必要なセルだけを書き換えること。
+      - open_workbook(path="input.xlsx"): ブックを数式のまま開く。
+      - read_table(ws, header_row=1): 表を DataFrame で読む。index は Excel の行番号。数式セルは "=" で始まる文字列になる。
+      - find_column(ws, name, header_row=1): 見出しから列番号（1始まり）を返す。
+      - write_column(ws, name, values, header_row=1, keep_formulas=True): 列に書き込む。read_table から作った Series は index の行に書き込む。列がなければ右端に追加し、左隣の列の書式を引き継ぐ。
+      - append_rows(ws, rows, style_row=None): 行を末尾に追加し、最終行（または style_row）の書式を引き継ぐ。
+      - copy_style(source_cell, target_cell): セルの書式をコピーする。
+      - save_workbook(wb, path="output.xlsx"): output.xlsx に保存する。
+    - 数式の計算結果が必要な場合は openpyxl.load_workbook("input.xlsx", data_only=True) で別に開いて読むこと。
+    - 行の削除・挿入（delete_rows / insert_rows）は数式・結合セル・入力規則の参照がずれるため、指示で必要な場合に限ること。
+    - 既存のシートは削除・作り直しをしないこと。
+`;
+
+const modeNotes = (preserveFormatting?: boolean) => preserveFormatting ? PRESERVE_MODE_NOTES : '';
+
+// プレースホルダーの形式は privacy.ts の register
+const PRIVACY_NOTES = `
+    **個人情報の置き換え:**
+    - 「〔氏名_n〕」「〔電話番号_n〕」のように〔〕で囲まれた値は、個人情報を置き換えたプレースホルダーです。元の値は送信していません。
+    - 元の値を推測せず、コード中ではプレースホルダーをそのまま文字列として使うこと（表記を変えないこと）。実行前に元の値に戻されます。
+`;
+
+const privacyNotes = (redacted?: boolean) => redacted ? PRIVACY_NOTES : '';
+
+const indent = (text: string) => text.split('\n').map(line => `    ${line}`).join('\n');
+
+const planNotes = (confirmed?: ConfirmedPlan) => confirmed ? `
+    **利用者が確認した作業計画（この計画と確認事項に従うこと）:**
+${indent(formatPlan(confirmed))}
+` : '';
+
+const buildPlanPrompt = (instruction: StageInstruction, workbooks: WorkbookContext[], answers: PlanAnswer[], preserveFormatting?: boolean, redacted?: boolean): string => {
+  const answered = answers.length > 0;
+  return `
+    Excelファイルの自動編集を行う前に、作業計画を作成してください。今回はまだPythonコードを出力しないでください。
+    
+    ${describeInstruction(instruction)}
+    **ブック構成 (シート・ヘッダー行・列の型・サンプル値):**
+${summarizeWorkbooks(workbooks)}
+    ${answered ? `
+    **利用者への確認事項と回答:**
+${answers.map(a => `    - ${a.question} → ${a.answer}`).join('\n')}
+    ` : ''}${privacyNotes(redacted)}
+    **要件:**
+    - 指示とブック構成から、実行する処理の手順・参照または変更する列・出力の形（シート、行数の増減、列構成）を具体的に書くこと。
+    ${answered
+      ? '- 回答を踏まえ、必ず計画を返すこと。「(おまかせ)」の項目は妥当な解釈を選び、その内容を summary に書くこと。'
+      : `- 指示の解釈によって結果が大きく変わる場合（対象の列・シートが特定できない、条件や基準が不明確など）に限り、計画の代わりに ${MAX_QUESTIONS} 個以内の質問を返すこと。それ以外は計画を返すこと。`}
+    - 列名はブック構成に記載された見出しの表記をそのまま使うこと。
+    - 日本語で書くこと。
+    ${preserveFormatting ? '- 書式保持モードのため、ブックをその場で編集する前提で計画すること。\n' : ''}
+    ${answered ? '次の形式の' : '次のいずれかの'} JSON のみを \`\`\`json ... \`\`\` 形式で出力してください。
+    計画: {"type": "plan", "summary": "...", "steps": ["..."], "columns": [{"sheet": "...", "name": "...", "change": "..."}], "output": "..."}
+    ${answered ? '' : '質問: {"type": "questions", "questions": [{"question": "...", "options": ["...", "..."]}]}'}
+  `;
+};
+
+// 検証項目の形式は pyodideProtocol.ts の OutputAssertion、確認は pythonScripts.ts の ASSERTIONS_SCRIPT
+const ASSERTION_NOTES = `
+    **出力の検証項目:**
+    コードの後に、出力ブックが満たすべき条件を ${MAX_ASSERTIONS} 個以内で \`\`\`json ... \`\`\` 形式で出力してください。実行後に自動で確認し、満たさない場合は失敗として扱います。
+    {"assertions": [{"kind": "rowCount", "change": 0, "description": "行数が変わらない"}, {"kind": "noBlanks", "column": "顧客ID", "description": "顧客IDに空欄がない"}]}
+    - kind と追加の項目:
+      - rowCount: "change" に入力からの行数の増減（変化なしは 0）
+      - sheetExists: "sheet" にシート名
+      - columnExists / columnNumeric / noBlanks / unique: "column" に見出し（存在する・数値のみ・空欄なし・重複なし）
+      - sumPreserved: "column" に見出し（入力と出力で数値の総和が等しい）
+    - 対象のシートは "sheet" で指定する（省略時はアクティブシート）。行数と列は、ヘッダー行より下の表を対象とする。
+    - 指示とブック構成から確実に言える条件だけを書くこと。行数が指示やデータの内容によって決まらない場合は rowCount を含めないこと。
+    - description は日本語で簡潔に書くこと。
+`;
+
+const buildGeneratePrompt = (instruction: StageInstruction, workbooks: WorkbookContext[], plan?: ConfirmedPlan, preserveFormatting?: boolean, redacted?: boolean): string => {
+  return `
+    Excelファイルの自動編集用スクリプトを作成してください。
+    
+    ${describeInstruction(instruction)}
+    **ブック構成 (シート・ヘッダー行・列の型・サンプル値):**
+${summarizeWorkbooks(workbooks)}
+    ${planNotes(plan)}${privacyNotes(redacted)}
+    **要件:**
+    - 'input.xlsx' を読み込み、指示通りに加工して 'output.xlsx' に保存する。
+    - 表を読み込む際は、上記のヘッダー行を header に指定すること（例: ヘッダー行が2なら header=1）。
+    - 'openpyxl.cell.text' からの 'CellRichText' インポートは避けること。
+    - 進捗を日本語で print 出力すること。
+    ${modeNotes(preserveFormatting)}
+    Pythonコードを \`\`\`python ... \`\`\` 形式で出力してください。
+    ${ASSERTION_NOTES}
+  `;
+};
+
+const REPAIR_WORDING: Record<RepairContext['reason'], { failure: string; action: string; heading: string }> = {
+  runtime: { failure: '実行に失敗しました', action: 'エラー内容を分析し', heading: 'トレースバック' },
+  policy: { failure: '安全性ポリシーに違反しているため実行されませんでした', action: '違反内容をすべて解消し', heading: '安全性ポリシー違反' },
+  assertion: { failure: '実行は完了しましたが、出力が検証項目を満たしませんでした', action: '満たされなかった条件の原因を分析し', heading: '満たされなかった検証項目' },
+};
+
+const buildRepairPrompt = (instruction: StageInstruction, workbooks: WorkbookContext[], context: RepairContext, plan?: ConfirmedPlan, preserveFormatting?: boolean, redacted?: boolean): string => {
+  const wording = REPAIR_WORDING[context.reason];
+  return `
+    以下のPythonスクリプトは Excel ファイルの自動編集用に生成されたものですが、${wording.failure}。
+    ${wording.action}、修正したスクリプト全体を出力してください。
+    
+    ${describeInstruction(instruction)}
+    **ブック構成:**
+${summarizeWorkbooks(workbooks)}
+    ${planNotes(plan)}${privacyNotes(redacted)}
+    **失敗したスクリプト:**
+    \`\`\`python
+${context.failedCode}
+    \`\`\`
+    
+    **${wording.heading}:**
+    \`\`\`
+${tail(context.traceback)}
+    \`\`\`
+    
+    **実行時の標準出力:**
+    \`\`\`
+${tail(context.stdout.join('\n')) || '(出力なし)'}
+    \`\`\`
+    
+    **要件:**
+    - KeyError の場合は列名の表記ゆれ（空白・全角半角・ヘッダー行の位置）を疑うこと。
+    - dtype エラーの場合は数値変換前に欠損値や文字列を適切に処理すること。
+    ${context.reason === 'assertion' ? '- 検証項目は指示から導いた条件のため変更できない。出力がすべての条件を満たすようにスクリプトを修正すること。\n' : ''}    - 'input.xlsx' を読み込み、指示通りに加工して必ず 'output.xlsx' に保存する。
+    - 進捗を日本語で print 出力すること。
+    ${modeNotes(preserveFormatting)}
+    修正後のPythonコードのみを \`\`\`python ... \`\`\` 形式で出力してください。
+  `;
+};
+
+export const buildPrompt = (task: CodeTask): string => {
+  switch (task.kind) {
+    case 'plan':
+      return buildPlanPrompt(task.instruction, task.workbooks, task.answers, task.preserveFormatting, task.redacted);
+    case 'generate':
+      return buildGeneratePrompt(task.instruction, task.workbooks, task.plan, task.preserveFormatting, task.redacted);
+    case 'repair':
+      return buildRepairPrompt(task.instruction, task.workbooks, task.context, task.plan, task.preserveFormatting, task.redacted);
+  }
+};
@@ -0,0 +1,9 @@
+import { WorkerRequest } from './pyodideProtocol';
+import { servePyodide } from './pyodideEngine';
+
+// ブラウザ用のワーカーのエントリー（Vite がワーカーとしてバンドルする）。処理の本体は pyodideEngine.ts で、Node の CLI と共通
+const handleRequest = servePyodide((message, transfer) => self.postMessage(message, { transfer }));
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handleRequest(event.data);
+};
@@ -0,0 +1,248 @@
+import { WorkerRequest, WorkerResponse, RunResult, MountedFile, NormalizeResult, ConvertResult, PreviewSheetInfo, PreviewPage, previewPath, OUTPUT_PATTERN, EXTRACT_PATH, DIFF_BEFORE_PATH, DIFF_AFTER_PATH, ASSERT_BEFORE_PATH, ASSERT_AFTER_PATH, CONVERT_TARGET_PATH, VBA_SOURCE_PATH, HELPER_DIR, HELPER_TESTS_DIR, PRESERVE_MODULE, HelperTestReport } from './pyodideProtocol';
+import { EXTRACT_SCRIPT, CHECK_SCRIPT, DIFF_SCRIPT, FIDELITY_SCRIPT, CHANGE_LOG_SCRIPT, NORMALIZE_SCRIPT, CONVERT_SCRIPT, PREVIEW_OPEN_SCRIPT, PREVIEW_ROWS_SCRIPT, PRESERVE_MODULE_SOURCE, HELPER_TEST_SCRIPT, ASSERTIONS_SCRIPT } from './pythonScripts';
+import { HELPER_PACKAGE, HELPER_PACKAGE_VERSION, HELPER_PACKAGE_FILES, HELPER_PACKAGE_TESTS } from './helperPackage';
+import { InputFormat, OutputFormat, CsvEncoding } from './fileFormats';
+import { RawViolation } from './safetyPolicy';
+import { RUNTIME_MANIFEST, WHEELS_DIR, BOOT_PACKAGES, BOOT_WHEELS, BOOT_STEPS, RuntimeManifest, checkRuntimeManifest, resolveWheels } from './pyodideRuntime';
+
+// 1つのワーカーが1つのインタープリタを持つ。ジョブごとにワーカーを作り直すため、
+// グローバル変数や一時ファイルは次のジョブへ持ち越されない。
+let pyodide: any = null;
+// 'load' で読み込んだ runtime-manifest.json と、その配置先
+let runtime: { manifest: RuntimeManifest; indexURL: string } | null = null;
+
+// 応答の送信先。ブラウザでは Worker の self、Node の CLI では worker_threads の parentPort（servePyodide で設定する）
+export type PostResponse = (message: WorkerResponse, transfer: Transferable[]) => void;
+
+let send: PostResponse | null = null;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+  send?.(message, transfer);
+};
+
+// 補助スクリプトは独立した globals で実行し、ユーザースクリプトの名前空間を汚さない
+const runHelper = <T,>(script: string, variables: Record<string, unknown> = {}): T => {
+  const namespace = pyodide.toPy(variables);
+  try {
+    return JSON.parse(pyodide.runPython(script, { globals: namespace }));
+  } finally {
+    namespace.destroy();
+  }
+};
+
+// プレビュー用ワーカーでは開いたブックを呼び出しをまたいで保持するため、共有の名前空間を使う
+let previewNamespace: any = null;
+
+const runPreview = <T,>(script: string, variables: Record<string, unknown>): T => {
+  previewNamespace ??= pyodide.toPy({});
+  Object.entries(variables).forEach(([name, value]) => previewNamespace.set(name, value));
+  return JSON.parse(pyodide.runPython(script, { globals: previewNamespace }));
+};
+
+const check = (script: string, allowedImports: string[], allowedWritePaths: string[]): RawViolation[] =>
+  runHelper(CHECK_SCRIPT, {
+    source: script,
+    policy_json: JSON.stringify({ allowedImports, allowedWritePaths }),
+  });
+
+const readBuffer = (path: string): ArrayBuffer => {
+  const data: Uint8Array = pyodide.FS.readFile(path);
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+};
+
+// 同梱したホイールをネットワークを使わずにインストールする。ハッシュを確認していないものを PyPI から取得することはしない
+const installWheels = async (packages: string[]) => {
+  const micropip = pyodide.pyimport("micropip");
+  const names = resolveWheels(packages);
+  const missing = names.filter(name => !runtime?.manifest.wheels[name]);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(', ')} が実行環境に同梱されていません。npm run dev または npm run build で取得し直してください。`);
+  }
+  const urls = names.map(name => `${runtime!.indexURL}${WHEELS_DIR}${runtime!.manifest.wheels[name].file}`);
+  await micropip.install.callKwargs(urls, { deps: false });
+};
+
+// .xls の読み込みに必要なライブラリは、使用時にのみインストールする
+const ensurePackages = (packages: string[]) => installWheels(packages);
+
+const normalize = async (data: ArrayBuffer, format: InputFormat, sheetTitle: string): Promise<NormalizeResult> => {
+  if (format === 'xls') await ensurePackages(["xlrd"]);
+
+  const sourcePath = `convert_source.${format}`;
+  pyodide.FS.writeFile(sourcePath, new Uint8Array(data));
+  const { encoding } = runHelper<{ encoding: string | null }>(NORMALIZE_SCRIPT, { source_path: sourcePath, fmt: format, sheet_title: sheetTitle });
+  return { data: readBuffer(CONVERT_TARGET_PATH), encoding };
+};
+
+const convertOutput = async (
+  data: ArrayBuffer,
+  format: OutputFormat,
+  encoding: CsvEncoding,
+  vbaSource?: ArrayBuffer
+): Promise<ConvertResult> => {
+  const sourcePath = "convert_source.xlsx";
+  pyodide.FS.writeFile(sourcePath, new Uint8Array(data));
+  if (vbaSource) pyodide.FS.writeFile(VBA_SOURCE_PATH, new Uint8Array(vbaSource));
+  const { sheetCount } = runHelper<{ sheetCount: number }>(CONVERT_SCRIPT, {
+    source_path: sourcePath,
+    fmt: format,
+    encoding,
+    vba_path: vbaSource ? VBA_SOURCE_PATH : null,
+  });
+  return { data: readBuffer(CONVERT_TARGET_PATH), sheetCount };
+};
+
+const writeFiles = (dir: string, files: Record<string, string>) => {
+  Object.entries(files).forEach(([name, source]) => {
+    const path = `${dir}/${name}`;
+    pyodide.FS.mkdirTree(path.slice(0, path.lastIndexOf('/')));
+    pyodide.FS.writeFile(path, source);
+  });
+};
+
+const runHelperTests = (): HelperTestReport => {
+  writeFiles(HELPER_TESTS_DIR, HELPER_PACKAGE_TESTS);
+  return runHelper(HELPER_TEST_SCRIPT, { tests_dir: HELPER_TESTS_DIR });
+};
+
+const load = async (id: number, indexURL: string) => {
+  const progress = (message: string, index: number) =>
+    post({ id, type: 'progress', message, step: { index, total: BOOT_STEPS.length, label: BOOT_STEPS[index] } });
+
+  progress("Python実行環境(Pyodide)をロード中...", 0);
+  // 配置されていない場合、SPA のフォールバックで index.html が返ることがある
+  const manifest: RuntimeManifest | null = await fetch(`${indexURL}${RUNTIME_MANIFEST}`)
+    .then(response => response.ok ? response.json() : null)
+    .catch(() => null);
+  if (!manifest) {
+    throw new Error("Python実行環境が配置されていません。開発時は npm run dev、配布時は npm run build の開始時に取得されます。");
+  }
+  const mismatch = checkRuntimeManifest(manifest);
+  if (mismatch) throw new Error(mismatch);
+  runtime = { manifest, indexURL };
+  const { loadPyodide } = await import(/* @vite-ignore */ `${indexURL}pyodide.mjs`);
+  pyodide = await loadPyodide({ indexURL });
+
+  progress("必要なライブラリ(pandas)を読み込み中...", 1);
+  await pyodide.loadPackage(BOOT_PACKAGES);
+
+  progress("必要なライブラリ(openpyxl)をインストール中...", 2);
+  await installWheels(BOOT_WHEELS);
+
+  // ヘルパーは、生成コードから通常のモジュールとして import できるようにする
+  progress(`ヘルパーライブラリ(${HELPER_PACKAGE} ${HELPER_PACKAGE_VERSION})を配置中...`, 3);
+  writeFiles(HELPER_DIR, { [`${PRESERVE_MODULE}.py`]: PRESERVE_MODULE_SOURCE, ...HELPER_PACKAGE_FILES });
+  pyodide.runPython(`import sys; sys.path.append(${JSON.stringify(HELPER_DIR)})`);
+
+  post({ id, type: 'progress', message: "Python環境の準備が完了しました。" });
+};
+
+const run = async (id: number, script: string, inputs: MountedFile[]): Promise<RunResult> => {
+  inputs.forEach(input => pyodide.FS.writeFile(input.path, new Uint8Array(input.data)));
+
+  pyodide.setStdout({ batched: (message: string) => post({ id, type: 'stdout', stream: 'stdout', message }) });
+  pyodide.setStderr({ batched: (message: string) => post({ id, type: 'stdout', stream: 'stderr', message }) });
+
+  try {
+    await pyodide.runPythonAsync(script);
+  } catch (err: any) {
+    return { status: 'error', traceback: String(err?.message ?? err), outputs: [] };
+  }
+  const outputs = (pyodide.FS.readdir('.') as string[]).filter(name => OUTPUT_PATTERN.test(name)).sort();
+  return { status: 'ok', outputs };
+};
+
+const handleRequest = async (request: WorkerRequest) => {
+  const { id } = request;
+
+  try {
+    if (request.type !== 'load' && !pyodide) {
+      throw new Error("Python環境が初期化されていません。");
+    }
+
+    switch (request.type) {
+      case 'load':
+        await load(id, request.indexURL);
+        post({ id, type: 'result', payload: null });
+        break;
+      case 'extract':
+        pyodide.FS.writeFile(EXTRACT_PATH, new Uint8Array(request.input));
+        post({ id, type: 'result', payload: JSON.parse(await pyodide.runPythonAsync(EXTRACT_SCRIPT)) });
+        break;
+      case 'check':
+        post({ id, type: 'result', payload: check(request.script, request.allowedImports, request.allowedWritePaths) });
+        break;
+      case 'run':
+        post({ id, type: 'result', payload: await run(id, request.script, request.inputs) });
+        break;
+      case 'readFile': {
+        const buffer = readBuffer(request.path);
+        post({ id, type: 'result', payload: buffer }, [buffer]);
+        break;
+      }
+      case 'diff':
+        pyodide.FS.writeFile(DIFF_BEFORE_PATH, new Uint8Array(request.before));
+        pyodide.FS.writeFile(DIFF_AFTER_PATH, new Uint8Array(request.after));
+        post({ id, type: 'result', payload: runHelper(DIFF_SCRIPT, { max_changes: request.maxChanges }) });
+        break;
+      case 'fidelity':
+        post({ id, type: 'result', payload: runHelper(FIDELITY_SCRIPT) });
+        break;
+      case 'helperTests':
+        post({ id, type: 'result', payload: runHelperTests() });
+        break;
+      case 'assertions':
+        pyodide.FS.writeFile(ASSERT_BEFORE_PATH, new Uint8Array(request.before));
+        pyodide.FS.writeFile(ASSERT_AFTER_PATH, new Uint8Array(request.after));
+        post({ id, type: 'result', payload: runHelper(ASSERTIONS_SCRIPT, { assertions_json: JSON.stringify(request.assertions) }) });
+        break;
+      case 'normalize': {
+        const result = await normalize(request.data, request.format, request.sheetTitle);
+        post({ id, type: 'result', payload: result }, [result.data]);
+        break;
+      }
+      case 'convertOutput': {
+        const result = await convertOutput(request.data, request.format, request.encoding, request.vbaSource);
+        post({ id, type: 'result', payload: result }, [result.data]);
+        break;
+      }
+      case 'previewOpen': {
+        const path = previewPath(request.key);
+        pyodide.FS.writeFile(path, new Uint8Array(request.data));
+        try {
+          post({ id, type: 'result', payload: runPreview<{ sheets: PreviewSheetInfo[] }>(PREVIEW_OPEN_SCRIPT, { key: request.key, path }) });
+        } finally {
+          pyodide.FS.unlink(path);
+        }
+        break;
+      }
+      case 'previewRows':
+        post({ id, type: 'result', payload: runPreview<PreviewPage>(PREVIEW_ROWS_SCRIPT, {
+          key: request.key, sheet: request.sheet, start_row: request.startRow, row_count: request.rowCount,
+        }) });
+        break;
+      case 'previewClose':
+        if (previewNamespace) {
+          previewNamespace.set('key', request.key);
+          pyodide.runPython(`globals().get("_preview_books", {}).pop(key, None)`, { globals: previewNamespace });
+        }
+        post({ id, type: 'result', payload: null });
+        break;
+      case 'appendChangeLog': {
+        pyodide.FS.writeFile(DIFF_AFTER_PATH, new Uint8Array(request.output));
+        runHelper(CHANGE_LOG_SCRIPT, { changes_json: JSON.stringify(request.changes) });
+        const buffer = readBuffer(DIFF_AFTER_PATH);
+        post({ id, type: 'result', payload: buffer }, [buffer]);
+        break;
+      }
+    }
+  } catch (err: any) {
+    post({ id, type: 'error', message: String(err?.message ?? err) });
+  }
+};
+
+// ワーカーが受け取った要求を処理する関数を返す。1つのワーカーにつき1回だけ呼ぶ
+export const servePyodide = (postResponse: PostResponse) => {
+  send = postResponse;
+  return handleRequest;
+};
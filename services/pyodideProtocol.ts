@@ -0,0 +1,222 @@
+import { InputFormat, OutputFormat, CsvEncoding } from './fileFormats';
+import { BootStep } from './pyodideRuntime';
+
+// メインスレッドと Pyodide ワーカー間のメッセージ定義
+
+export type WorkerRequest =
+  // indexURL は自前のオリジンに配置した Pyodide（pyodideRuntime.ts の RUNTIME_DIR）の絶対 URL
+  | { id: number; type: 'load'; indexURL: string }
+  | { id: number; type: 'extract'; input: ArrayBuffer }
+  | { id: number; type: 'check'; script: string; allowedImports: string[]; allowedWritePaths: string[] }
+  | { id: number; type: 'run'; script: string; inputs: MountedFile[] }
+  | { id: number; type: 'readFile'; path: string }
+  | { id: number; type: 'diff'; before: ArrayBuffer; after: ArrayBuffer; maxChanges: number }
+  // 直前の 'diff' で配置した2つのブックを比較する
+  | { id: number; type: 'fidelity' }
+  | { id: number; type: 'helperTests' }
+  | { id: number; type: 'assertions'; before: ArrayBuffer; after: ArrayBuffer; assertions: OutputAssertion[] }
+  | { id: number; type: 'appendChangeLog'; output: ArrayBuffer; changes: CellChange[] }
+  | { id: number; type: 'normalize'; data: ArrayBuffer; format: InputFormat; sheetTitle: string }
+  | { id: number; type: 'convertOutput'; data: ArrayBuffer; format: OutputFormat; encoding: CsvEncoding; vbaSource?: ArrayBuffer }
+  | { id: number; type: 'previewOpen'; key: string; data: ArrayBuffer }
+  | { id: number; type: 'previewRows'; key: string; sheet: string; startRow: number; rowCount: number }
+  | { id: number; type: 'previewClose'; key: string };
+
+export type WorkerResponse =
+  // step は起動時（'load'）の進捗
+  | { id: number; type: 'progress'; message: string; step?: BootStep }
+  | { id: number; type: 'stdout'; stream: 'stdout' | 'stderr'; message: string }
+  | { id: number; type: 'result'; payload: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export interface NormalizeResult {
+  data: ArrayBuffer;
+  // CSV の場合に検出した文字コード
+  encoding: string | null;
+}
+
+export interface ConvertResult {
+  data: ArrayBuffer;
+  sheetCount: number;
+}
+
+export interface PreviewMerge {
+  // 1始まり。top/left のセルが結合範囲の値を持つ
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface PreviewSheetInfo {
+  name: string;
+  maxRow: number;
+  // プレビューの列数（上限で打ち切られる場合は maxColumn より小さい）
+  columnCount: number;
+  maxColumn: number;
+  // ピクセル単位の列幅
+  columnWidths: number[];
+  merges: PreviewMerge[];
+}
+
+export interface PreviewCell {
+  // 表示形式を適用した文字列
+  text: string;
+  kind: 'number' | 'text' | 'date' | 'boolean' | 'formula';
+  fill?: string;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface PreviewPage {
+  startRow: number;
+  // 空のセルは null
+  rows: (PreviewCell | null)[][];
+}
+
+export interface MountedFile {
+  path: string;
+  data: ArrayBuffer;
+}
+
+// 'run' の結果。Python 側の例外はワーカーの異常ではなく通常の結果として返す
+export interface RunResult {
+  status: 'ok' | 'error';
+  traceback?: string;
+  // スクリプトが書き出した output*.xlsx のファイル名
+  outputs: string[];
+}
+
+export interface SheetDimensionDiff {
+  sheet: string;
+  rowsBefore: number;
+  rowsAfter: number;
+  colsBefore: number;
+  colsAfter: number;
+}
+
+export interface CellChange {
+  sheet: string;
+  cell: string;
+  kind: 'value' | 'formula' | 'style';
+  before: string;
+  after: string;
+}
+
+export interface WorkbookDiff {
+  addedSheets: string[];
+  removedSheets: string[];
+  sheets: SheetDimensionDiff[];
+  changes: CellChange[];
+  // changes が上限で打ち切られた場合でも、totals は全件の件数を表す
+  totals: Record<CellChange['kind'], number>;
+  truncated: boolean;
+}
+
+// 入力にあって出力で減ったもの。sheet が null の項目はブック全体で数える
+export type FidelityKind = 'styles' | 'formulas' | 'validations' | 'conditionalFormats' | 'merges' | 'charts' | 'images' | 'definedNames';
+
+export interface FidelityIssue {
+  sheet: string | null;
+  kind: FidelityKind;
+  before: number;
+  after: number;
+}
+
+export interface FidelityReport {
+  lostSheets: string[];
+  issues: FidelityIssue[];
+}
+
+// 生成コードとともに AI が出力する、出力ブックに対する検証項目
+// sheet を省略した場合はアクティブシート。行数・列は autopilot.read_table で読んだ表（ヘッダー行の下）を対象にする
+export type OutputAssertion = { description: string; sheet?: string } & (
+  // 入力の同じシートからの行数の増減（0 は変化なし）
+  | { kind: 'rowCount'; change: number }
+  | { kind: 'sheetExists' }
+  | { kind: 'columnExists'; column: string }
+  // 数式のセルと空欄は対象外
+  | { kind: 'columnNumeric'; column: string }
+  | { kind: 'noBlanks'; column: string }
+  | { kind: 'unique'; column: string }
+  // 入力と出力で列の数値の合計が等しい（数式のセルは対象外）
+  | { kind: 'sumPreserved'; column: string }
+);
+
+export type OutputAssertionKind = OutputAssertion['kind'];
+
+export interface AssertionResult {
+  assertion: OutputAssertion;
+  passed: boolean;
+  // 失敗の理由、または確認した値
+  detail: string;
+}
+
+export interface HelperTestReport {
+  version: string;
+  testsRun: number;
+  failures: { test: string; traceback: string }[];
+  skipped: number;
+  // unittest の詳細出力（verbosity=2）
+  output: string;
+}
+
+export interface ColumnProfile {
+  name: string;
+  letter: string;
+  type: 'number' | 'text' | 'date' | 'boolean' | 'mixed' | 'empty';
+  nullRatio: number;
+  samples: string[];
+}
+
+export interface SheetProfile {
+  name: string;
+  dimensions: string;
+  maxRow: number;
+  maxColumn: number;
+  // 1始まり。A1 に指示がある場合、ヘッダーは2行目以降になることが多い
+  headerRow: number;
+  columns: ColumnProfile[];
+  mergedRanges: string[];
+  formulaCount: number;
+}
+
+export interface WorkbookProfile {
+  activeSheet: string;
+  sheets: SheetProfile[];
+  namedRanges: string[];
+}
+
+export interface ExtractResult {
+  a1: string;
+  // アクティブシートの A1 セルに付いたコメント・メモ
+  a1Comment: string;
+  // 「指示」シートがある場合、その行を番号順の手順として読み取ったもの
+  instructionSheet: { name: string; steps: string[] } | null;
+  // アクティブシートで検出したヘッダー行の列名
+  columns: string[];
+  profile: WorkbookProfile;
+  error?: string;
+}
+
+// ワーカー内のワークスペースで使用するファイル名
+export const INPUT_PATH = "input.xlsx";
+export const OUTPUT_PATH = "output.xlsx";
+export const OUTPUT_PATTERN = /^output.*\.xlsx$/;
+
+// 複数ファイルのジョブでは input_1.xlsx ... input_n.xlsx としても配置する
+export const numberedInputPath = (index: number) => `input_${index + 1}.xlsx`;
+export const EXTRACT_PATH = "input_temp.xlsx";
+export const DIFF_BEFORE_PATH = "diff_before.xlsx";
+export const DIFF_AFTER_PATH = "diff_after.xlsx";
+export const ASSERT_BEFORE_PATH = "assert_before.xlsx";
+export const ASSERT_AFTER_PATH = "assert_after.xlsx";
+export const CONVERT_TARGET_PATH = "convert_target";
+export const VBA_SOURCE_PATH = "vba_source.xlsm";
+
+// 書式保持モード用のヘルパーモジュールと autopilot パッケージ。ワークスペースの外に置き、起動時に sys.path へ追加する
+export const HELPER_DIR = "/autopilot_helpers";
+export const HELPER_TESTS_DIR = "/autopilot_tests";
+export const PRESERVE_MODULE = "xlpreserve";
+export const previewPath = (key: string) => `preview_${key}.xlsx`;
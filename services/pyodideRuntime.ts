@@ -0,0 +1,79 @@
+// 自前のオリジンから配信する Pyodide とホイールの定義。ブラウザ（ワーカー）とビルド時の取得処理（server/vendorPyodide.ts）の両方から使う
+// バージョンを上げた場合は、次回の dev / build で public/ 以下に取得し直される
+
+export const PYODIDE_VERSION = '0.25.1';
+
+// public/ からの相対パス（ビルド後はサイトのルートからの相対パス）
+export const RUNTIME_DIR = `pyodide/v${PYODIDE_VERSION}/`;
+export const RUNTIME_MANIFEST = 'runtime-manifest.json';
+export const WHEELS_DIR = 'wheels/';
+
+// Pyodide 本体のファイルと sha256。バージョンを上げた場合は配布物のハッシュに更新する
+// パッケージのハッシュは、このハッシュで確認した pyodide-lock.json の値と照合する
+export const CORE_FILES: Record<string, string> = {
+  'pyodide.mjs': '428dbd767948760ade231a6ce5ec3fd7e4f78a58fe65a6a14b02294d5628e6e6',
+  'pyodide.asm.js': '512042dfdd406971c6fc920b6932e1a8eb5dd2ab3521aa89a020980e4a08bd4b',
+  'pyodide.asm.wasm': 'aa920641c032c3db42eb1fb018eec611dbef96f0fa4dbdfa6fe3cb1b335aed3c',
+  'python_stdlib.zip': '52866039fa3097e549649b9a62ffae8a1125f01ace7b2d077f34e3cbaff8d0ca',
+  'pyodide-lock.json': '6526dae570ab7db75019fe2c7ccc6b7b82765c56417a498a7b57e1aaebec39f5',
+};
+
+// Pyodide の配布物に含まれるパッケージ。依存関係は pyodide-lock.json から解決する
+export const BOOT_PACKAGES = ['micropip', 'pandas'];
+
+// PyPI から取得する純 Python のホイール。requires は一緒にインストールするもの（micropip には依存関係を解決させない）
+// sha256 はホイールのハッシュ。取得時に照合し、一致しなければ public/ に書き込まない。実行時に PyPI から取得することはない
+export const PINNED_WHEELS: Record<string, { version: string; sha256: string; requires: string[] }> = {
+  'openpyxl': { version: '3.1.5', sha256: '5282c12b107bffeef825f4617dc029afaf41d0ea60823bbb665ef3079dc79de2', requires: ['et-xmlfile'] },
+  'et-xmlfile': { version: '2.0.0', sha256: '7a91720bc756843502c3b7504c77b8fe44217c85c537d85037f0f536151b2caa', requires: [] },
+  'xlrd': { version: '2.0.1', sha256: '6a33ee89877bd9abc1158129f6e94be74e2679636b8a205b43b85206c3f0bbdd', requires: [] },
+};
+
+export const BOOT_WHEELS = ['openpyxl'];
+
+// public/<RUNTIME_DIR>/runtime-manifest.json。取得が完了した時点で書き込む
+export interface RuntimeManifest {
+  pyodideVersion: string;
+  // ダウンロードしたファイル（RUNTIME_DIR からの相対パス）。サービスワーカーが事前にキャッシュする
+  files: string[];
+  // パッケージ名 → ホイールのファイル名（WHEELS_DIR からの相対パス）
+  wheels: Record<string, { version: string; file: string; sha256: string }>;
+  createdAt: string;
+}
+
+// 起動の手順（進捗表示用）
+export const BOOT_STEPS = ['Pyodide 本体', 'pandas ほか', 'openpyxl', 'ヘルパーライブラリ'] as const;
+
+export interface BootStep {
+  // 0始まり
+  index: number;
+  total: number;
+  label: string;
+}
+
+// 配置済みの実行環境がこのアプリのバージョンと一致するか。問題があれば理由を返す
+export const checkRuntimeManifest = (manifest: any): string | null => {
+  if (!manifest || typeof manifest.pyodideVersion !== 'string' || !manifest.wheels) {
+    return "Python実行環境の構成ファイルが正しくありません。";
+  }
+  if (manifest.pyodideVersion !== PYODIDE_VERSION) {
+    return `配置されている Pyodide (${manifest.pyodideVersion}) がアプリの想定 (${PYODIDE_VERSION}) と一致しません。再ビルドするか、ページを再読み込みしてください。`;
+  }
+  const outdated = BOOT_WHEELS.filter(name => manifest.wheels[name]?.version !== PINNED_WHEELS[name].version || manifest.wheels[name]?.sha256 !== PINNED_WHEELS[name].sha256);
+  if (outdated.length > 0) {
+    return `配置されているライブラリのバージョンが一致しません: ${outdated.join(', ')}`;
+  }
+  return null;
+};
+
+// requires を含めてインストールする順に並べる
+export const resolveWheels = (names: string[]): string[] => {
+  const resolved: string[] = [];
+  const visit = (name: string) => {
+    if (resolved.includes(name)) return;
+    (PINNED_WHEELS[name]?.requires ?? []).forEach(visit);
+    resolved.push(name);
+  };
+  names.forEach(visit);
+  return resolved;
+};
@@ -1,110 +1,532 @@
+import { WorkerRequest, WorkerResponse, RunResult, ExtractResult, WorkbookDiff, FidelityReport, CellChange, MountedFile, NormalizeResult, ConvertResult, PreviewSheetInfo, PreviewPage, HelperTestReport, OutputAssertion, AssertionResult, INPUT_PATH, OUTPUT_PATH, PRESERVE_MODULE, numberedInputPath } from './pyodideProtocol';
+import { HELPER_PACKAGE } from './helperPackage';
+import { InputFormat, OutputFormat, CsvEncoding, MIME_TYPES, detectInputFormat, needsNormalization, replaceExtension } from './fileFormats';
+import { SafetyPolicy, SafetyViolation, RawViolation, DEFAULT_SAFETY_POLICY, evaluateViolations, formatViolation } from './safetyPolicy';
+import { SAFETY_CHECK_CASES, SafetyCheckReport } from './safetyCheckCases';
+import { formatAssertionResult } from './assertions';
+import { LogCallback } from '../types';
+import { RUNTIME_DIR, BootStep } from './pyodideRuntime';
 
-// Define types for global Pyodide
-declare global {
-  interface Window {
-    loadPyodide: (config: any) => Promise<any>;
-    pyodideInstance: any;
+const XLSX_MIME = MIME_TYPES.xlsx;
+
+export const DEFAULT_RUN_TIMEOUT_MS = 120_000;
+
+// 自動修復ループに渡すため、トレースバックと標準出力を保持したまま投げるエラー
+export class PythonExecutionError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: 'runtime' | 'missing_output' | 'timeout' | 'policy' | 'assertion',
+    public readonly traceback: string,
+    public readonly stdout: string[]
+  ) {
+    super(message);
+    this.name = 'PythonExecutionError';
   }
 }
 
-let pyodideReadyPromise: Promise<any> | null = null;
+// 安全性チェックでブロックされたスクリプト。修復ループでは違反内容をトレースバックとして渡す
+export class SafetyViolationError extends PythonExecutionError {
+  constructor(public readonly violations: SafetyViolation[]) {
+    super(
+      `安全性チェックにより実行をブロックしました: ${violations.filter(v => v.action === 'block').map(formatViolation).join(' / ')}`,
+      'policy',
+      violations.map(formatViolation).join('\n'),
+      []
+    );
+    this.name = 'SafetyViolationError';
+  }
+}
 
-export const initPyodide = async (logCallback: (msg: string) => void) => {
-  if (window.pyodideInstance) return window.pyodideInstance;
+// 実行自体は成功したが、出力が検証項目を満たさなかった。outputs は検証に失敗した出力
+export class OutputAssertionError extends PythonExecutionError {
+  constructor(public readonly failures: AssertionResult[], public readonly outputs: OutputFile[]) {
+    super(
+      `出力の検証に ${failures.length} 件失敗しました: ${failures.map(formatAssertionResult).join(' / ')}`,
+      'assertion',
+      failures.map(formatAssertionResult).join('\n'),
+      []
+    );
+    this.name = 'OutputAssertionError';
+  }
+}
 
-  if (!pyodideReadyPromise) {
-    pyodideReadyPromise = (async () => {
-      logCallback("Python実行環境(Pyodide)をロード中...");
-      const pyodide = await window.loadPyodide({
-        indexURL: "https://cdn.jsdelivr.net/pyodide/v0.25.1/full/",
-      });
-      
-      logCallback("必要なライブラリ(pandas, openpyxl)をインストール中...");
-      await pyodide.loadPackage("micropip");
-      const micropip = pyodide.pyimport("micropip");
-      await micropip.install(["pandas", "openpyxl"]);
-      
-      logCallback("Python環境の準備が完了しました。");
-      window.pyodideInstance = pyodide;
-      return pyodide;
-    })();
+export class ExecutionCancelledError extends Error {
+  constructor() {
+    super("ユーザーによって実行がキャンセルされました。");
+    this.name = 'ExecutionCancelledError';
   }
-  return pyodideReadyPromise;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type RequestBody = DistributiveOmit<WorkerRequest, 'id'>;
+
+interface CallHandlers {
+  onProgress?: (message: string, step?: BootStep) => void;
+  onStdout?: (stream: 'stdout' | 'stderr', message: string) => void;
+  transfer?: Transferable[];
+}
+
+interface PendingCall extends CallHandlers {
+  resolve: (payload: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerHandle {
+  ready: Promise<void>;
+  call: <T>(request: RequestBody, handlers?: CallHandlers) => Promise<T>;
+  terminate: (reason: Error) => void;
+}
+
+// pyodideEngine.ts を動かすワーカー。ブラウザの Worker（pyodide.worker.ts）と、Node の worker_threads を包んだもの（cli/nodeHost.ts）
+export interface PythonWorker {
+  postMessage: (message: WorkerRequest, transfer: readonly Transferable[]) => void;
+  onmessage: ((event: { data: WorkerResponse }) => void) | null;
+  onerror: ((event: { message: string }) => void) | null;
+  terminate: () => void;
+}
+
+export interface PythonHost {
+  createWorker: () => PythonWorker;
+  // 'load' に渡す Pyodide の配置先（末尾は /）
+  indexURL: () => string;
+}
+
+let host: PythonHost = {
+  createWorker: () => new Worker(new URL('./pyodide.worker.ts', import.meta.url), { type: 'module' }),
+  // ワーカーから import できるよう絶対 URL にする（サブパスに配置した場合も index.html の位置を基準にする）
+  indexURL: () => new URL(RUNTIME_DIR, document.baseURI).href,
 };
 
-export const extractA1AndColumns = async (
-  file: File
-): Promise<{ a1: string; columns: string[] }> => {
-  const pyodide = window.pyodideInstance;
-  if (!pyodide) throw new Error("Python環境が初期化されていません。");
-
-  const arrayBuffer = await file.arrayBuffer();
-  pyodide.FS.writeFile("input_temp.xlsx", new Uint8Array(arrayBuffer));
-
-  const script = `
-import pandas as pd
-import openpyxl
-import json
-
-try:
-    # openpyxlでA1セルの生の値を取得
-    wb = openpyxl.load_workbook("input_temp.xlsx", data_only=True)
-    ws = wb.active
-    a1_val = ws['A1'].value
-
-    # pandasで列名を取得
-    df = pd.read_excel("input_temp.xlsx")
-    cols = list(df.columns)
-
-    result = {
-        "a1": str(a1_val) if a1_val is not None else "",
-        "columns": [str(c) for c in cols]
+// ワーカーを起動する前に呼ぶ（Node の CLI がファイルシステム上の Pyodide を使う場合）
+export const setPythonHost = (next: PythonHost) => {
+  host = next;
+};
+
+const spawnWorker = (logCallback?: (msg: string, step?: BootStep) => void): WorkerHandle => {
+  const worker = host.createWorker();
+  const pending = new Map<number, PendingCall>();
+  let nextId = 1;
+  let terminated = false;
+
+  const terminate = (reason: Error) => {
+    if (terminated) return;
+    terminated = true;
+    worker.terminate();
+    pending.forEach(p => p.reject(reason));
+    pending.clear();
+  };
+
+  worker.onmessage = (event) => {
+    const response = event.data;
+    const pendingCall = pending.get(response.id);
+    if (!pendingCall) return;
+
+    switch (response.type) {
+      case 'progress':
+        pendingCall.onProgress?.(response.message, response.step);
+        break;
+      case 'stdout':
+        pendingCall.onStdout?.(response.stream, response.message);
+        break;
+      case 'result':
+        pending.delete(response.id);
+        pendingCall.resolve(response.payload);
+        break;
+      case 'error':
+        pending.delete(response.id);
+        pendingCall.reject(new Error(response.message));
+        break;
     }
-except Exception as e:
-    result = {"a1": "", "columns": [], "error": str(e)}
+  };
+  worker.onerror = (event) => {
+    terminate(new Error(`Pythonワーカーで予期しないエラーが発生しました: ${event.message}`));
+  };
+
+  const call = <T,>(request: RequestBody, handlers: CallHandlers = {}) =>
+    new Promise<T>((resolve, reject) => {
+      if (terminated) {
+        reject(new Error("Pythonワーカーは既に終了しています。"));
+        return;
+      }
+      const id = nextId++;
+      pending.set(id, { ...handlers, resolve, reject });
+      worker.postMessage({ ...request, id }, handlers.transfer ?? []);
+    });
 
-json.dumps(result)
-`;
+  const ready = call<void>({ type: 'load', indexURL: host.indexURL() }, { onProgress: logCallback });
+  // 待機中のワーカーの起動失敗は、実際に使用するジョブ側で扱う
+  ready.catch(() => {});
 
-  const resultJson = await pyodide.runPythonAsync(script);
-  return JSON.parse(resultJson);
+  return { ready, call, terminate };
+};
+
+// 次のジョブ用に起動済みのワーカーを1つ待機させておく
+let standby: WorkerHandle | null = null;
+
+// ジョブごとに新しいインタープリタを使い、終了後は破棄して次の待機ワーカーを起動する
+const withFreshWorker = async <T,>(job: (handle: WorkerHandle) => Promise<T>): Promise<T> => {
+  const handle = standby ?? spawnWorker();
+  standby = null;
+  try {
+    return await job(handle);
+  } finally {
+    handle.terminate(new Error("Pythonワーカーは破棄されました。"));
+    standby = spawnWorker();
+  }
+};
+
+// step は起動の進捗（進捗バーの表示用）
+export const initPyodide = async (logCallback: (msg: string, step?: BootStep) => void) => {
+  if (!standby) standby = spawnWorker(logCallback);
+  await standby.ready;
+};
+
+// 同じジョブの複数ファイルは1つのワーカーで順に解析する
+export const extractWorkbooks = async (files: Blob[]): Promise<ExtractResult[]> => {
+  const inputs = await Promise.all(files.map(f => f.arrayBuffer()));
+
+  return withFreshWorker(async (handle) => {
+    await handle.ready;
+    const results: ExtractResult[] = [];
+    for (const input of inputs) {
+      results.push(await handle.call<ExtractResult>({ type: 'extract', input }, { transfer: [input] }));
+    }
+    return results;
+  });
+};
+
+export const extractA1AndColumns = async (file: Blob): Promise<ExtractResult> =>
+  (await extractWorkbooks([file]))[0];
+
+// 入力ファイルを xlsx として読める形に揃えたもの（xlsx / xlsm は元のまま）
+export interface NormalizedInput {
+  fileName: string;
+  file: Blob;
+  format: InputFormat;
+  encoding: string | null;
+}
+
+export interface InputMount extends NormalizedInput {
+  path: string;
+}
+
+export interface OutputFile {
+  name: string;
+  blob: Blob;
+}
+
+export const normalizeInputs = async (files: File[], logCallback: (msg: string) => void): Promise<NormalizedInput[]> => {
+  const formats = files.map(f => {
+    const format = detectInputFormat(f.name);
+    if (!format) throw new Error(`対応していないファイル形式です: ${f.name}`);
+    return format;
+  });
+  if (!formats.some(needsNormalization)) {
+    return files.map((file, i) => ({ fileName: file.name, file, format: formats[i], encoding: null }));
+  }
+
+  return withFreshWorker(async (handle) => {
+    await handle.ready;
+    const results: NormalizedInput[] = [];
+    for (const [i, file] of files.entries()) {
+      const format = formats[i];
+      if (!needsNormalization(format)) {
+        results.push({ fileName: file.name, file, format, encoding: null });
+        continue;
+      }
+      logCallback(`${file.name} を xlsx 形式に変換しています...`);
+      const data = await file.arrayBuffer();
+      const sheetTitle = file.name.replace(/\.[^/.]+$/, "");
+      const result = await handle.call<NormalizeResult>({ type: 'normalize', data, format, sheetTitle }, { transfer: [data] });
+      if (result.encoding) logCallback(`${file.name}: 文字コード ${result.encoding} として読み込みました。`);
+      results.push({ fileName: file.name, file: new Blob([result.data], { type: XLSX_MIME }), format, encoding: result.encoding });
+    }
+    return results;
+  });
+};
+
+// 複数手順の指示で、前の手順の出力をメインファイル（input.xlsx と対応する input_n.xlsx）として次の手順に渡す
+export const replacePrimaryInput = (mounts: InputMount[], file: Blob): InputMount[] =>
+  mounts.map(m => m.file === mounts[0].file ? { ...m, file } : m);
+
+// メインファイルは常に input.xlsx として配置し、複数ファイルの場合は全ファイルを input_1.xlsx ... にも配置する
+export const planInputMounts = (inputs: NormalizedInput[], primaryIndex: number = 0): InputMount[] => {
+  const mounts: InputMount[] = [{ ...inputs[primaryIndex], path: INPUT_PATH }];
+  if (inputs.length > 1) {
+    inputs.forEach((input, index) => mounts.push({ ...input, path: numberedInputPath(index) }));
+  }
+  return mounts;
+};
+
+export interface RunOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // 指定された場合、実行前に ast による静的チェックを行う
+  policy?: SafetyPolicy;
+  onViolations?: (violations: SafetyViolation[]) => void;
+  // 実行後に同じワーカーで続けて行う検証（比較元は inputs[0]）と差分の計算（比較元は compareWith）。
+  // pandas / openpyxl を別のワーカーで読み込み直さずに済む。検証に失敗した場合、差分は計算しない
+  assertions?: OutputAssertion[];
+  compareWith?: Blob;
+  // 段階ごとの処理時間を計測する
+  timed?: <T>(phase: 'execute' | 'verify' | 'compare', task: () => Promise<T>) => Promise<T>;
+}
+
+export interface TransformationResult {
+  outputs: OutputFile[];
+  // assertions を指定した場合の結果。検証・差分の計算自体が失敗した場合は *Error にメッセージを入れる
+  checks?: AssertionResult[];
+  checkError?: string;
+  comparison?: WorkbookComparison;
+  compareError?: string;
+}
+
+const MAX_DIFF_CHANGES = 5000;
+
+export interface WorkbookComparison {
+  diff: WorkbookDiff;
+  fidelity: FidelityReport;
+}
+
+const compareIn = async (handle: WorkerHandle, before: Blob, after: Blob): Promise<WorkbookComparison> => {
+  const [beforeBuffer, afterBuffer] = await Promise.all([before.arrayBuffer(), after.arrayBuffer()]);
+  const diff = await handle.call<WorkbookDiff>(
+    { type: 'diff', before: beforeBuffer, after: afterBuffer, maxChanges: MAX_DIFF_CHANGES },
+    { transfer: [beforeBuffer, afterBuffer] }
+  );
+  const fidelity = await handle.call<FidelityReport>({ type: 'fidelity' });
+  return { diff, fidelity };
+};
+
+const checkAssertionsIn = async (handle: WorkerHandle, before: Blob, after: Blob, assertions: OutputAssertion[]): Promise<AssertionResult[]> => {
+  const [beforeBuffer, afterBuffer] = await Promise.all([before.arrayBuffer(), after.arrayBuffer()]);
+  return handle.call<AssertionResult[]>(
+    { type: 'assertions', before: beforeBuffer, after: afterBuffer, assertions },
+    { transfer: [beforeBuffer, afterBuffer] }
+  );
 };
 
 export const runPythonTransformation = async (
   script: string,
-  inputFile: File,
+  inputs: InputMount[],
+  logCallback: LogCallback,
+  options: RunOptions = {}
+): Promise<TransformationResult> => {
+  const { timeoutMs = DEFAULT_RUN_TIMEOUT_MS, signal, policy, onViolations, assertions = [], compareWith, timed = (_phase, task) => task() } = options;
+  if (signal?.aborted) throw new ExecutionCancelledError();
+
+  // Mount files
+  logCallback(inputs.length > 1 ? `${inputs.length - 1} 個のファイルを仮想環境に準備中...` : "ファイルを仮想環境に準備中...");
+  const mounted: MountedFile[] = await Promise.all(inputs.map(async i => ({ path: i.path, data: await i.file.arrayBuffer() })));
+
+  return withFreshWorker(async (handle) => {
+    // キャンセル時はワーカーごと停止する（無限ループ中でも確実に止まる）
+    const onAbort = () => handle.terminate(new ExecutionCancelledError());
+    signal?.addEventListener('abort', onAbort);
+
+    // 標準出力をログにリダイレクト（修復プロンプト用に保持もする）
+    const stdout: string[] = [];
+    const onStdout = (stream: 'stdout' | 'stderr', msg: string) => {
+      stdout.push(msg);
+      logCallback(msg, { source: 'python', payload: { stream } });
+    };
+
+    // 制限時間はワーカーの準備から検証までのジョブ全体にかける。スクリプトの実行中に超えた場合のみ修復の対象とする
+    const seconds = Math.round(timeoutMs / 1000);
+    let phase: 'prepare' | 'run' | 'verify' = 'prepare';
+    const timer = setTimeout(() => {
+      switch (phase) {
+        case 'prepare':
+          handle.terminate(new Error(`Python実行環境の準備が ${seconds} 秒以内に完了しなかったため中断しました。`));
+          break;
+        case 'run':
+          handle.terminate(new PythonExecutionError(
+            `実行タイムアウト: ${seconds}秒以内に処理が完了しなかったため中断しました。`,
+            'timeout',
+            `TimeoutError: スクリプトの実行が ${seconds} 秒を超えました。無限ループや非常に重い処理が含まれていないか確認してください。`,
+            stdout
+          ));
+          break;
+        case 'verify':
+          handle.terminate(new Error(`制限時間 (${seconds}秒) を超えたため中断しました。`));
+          break;
+      }
+    }, timeoutMs);
+
+    try {
+      await handle.ready;
+
+      if (policy) {
+        logCallback("生成コードの安全性をチェックしています...");
+        const raw = await handle.call<RawViolation[]>({
+          type: 'check',
+          script,
+          // ヘルパーはワーカーに同梱したものなので、許可リストに関わらず使える
+          allowedImports: [...policy.allowedImports, PRESERVE_MODULE, HELPER_PACKAGE],
+          allowedWritePaths: policy.allowedWritePaths,
+        });
+        const violations = evaluateViolations(raw, policy);
+        if (violations.length > 0) onViolations?.(violations);
+        if (violations.some(v => v.action === 'block')) throw new SafetyViolationError(violations);
+      }
+
+      logCallback("Pythonスクリプトを実行しています...");
+      phase = 'run';
+      const result = await timed('execute', () => handle.call<RunResult>({ type: 'run', script, inputs: mounted }, { onStdout, transfer: mounted.map(m => m.data) }));
+
+      if (result.status === 'error') {
+        const traceback = result.traceback ?? "";
+        throw new PythonExecutionError(`実行エラー: ${traceback}`, 'runtime', traceback, stdout);
+      }
+
+      // Retrieve output
+      logCallback("出力ファイルを確認しています...");
+      if (result.outputs.length === 0) {
+        // もし output.xlsx が生成されなかった場合、致命的な指示不足として扱う
+        throw new PythonExecutionError(
+          "スクリプトは正常に終了しましたが、'output.xlsx' が生成されませんでした。Pythonコード内でファイルの保存処理（output.xlsxへの書き出し）が行われなかった可能性があります。指示内容を見直してもう一度お試しください。",
+          'missing_output',
+          "FileNotFoundError: スクリプト終了後に 'output.xlsx' が存在しません。",
+          stdout
+        );
+      }
+
+      const outputs: OutputFile[] = [];
+      for (const name of result.outputs) {
+        const fileData = await handle.call<ArrayBuffer>({ type: 'readFile', path: name });
+        outputs.push({ name, blob: new Blob([fileData], { type: XLSX_MIME }) });
+      }
+
+      phase = 'verify';
+      const transformation: TransformationResult = { outputs };
+      const mainOutput = outputs.find(o => o.name === OUTPUT_PATH) ?? outputs[0];
+      if (assertions.length > 0) {
+        try {
+          transformation.checks = await timed('verify', () => checkAssertionsIn(handle, inputs[0].file, mainOutput.blob, assertions));
+        } catch (e: any) {
+          if (e instanceof ExecutionCancelledError) throw e;
+          transformation.checkError = e.message;
+        }
+      }
+      if (compareWith && !transformation.checks?.some(c => !c.passed)) {
+        try {
+          transformation.comparison = await timed('compare', () => compareIn(handle, compareWith, mainOutput.blob));
+        } catch (e: any) {
+          if (e instanceof ExecutionCancelledError) throw e;
+          transformation.compareError = e.message;
+        }
+      }
+      return transformation;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  });
+};
+
+// セル単位の差分と、書式・数式・入力規則などの保持状況を1つのワーカーで続けて求める
+export const compareWorkbooks = async (before: Blob, after: Blob): Promise<WorkbookComparison> =>
+  withFreshWorker(async (handle) => {
+    await handle.ready;
+    return compareIn(handle, before, after);
+  });
+
+export const appendChangeLogSheet = async (output: Blob, changes: CellChange[]): Promise<Blob> => {
+  const buffer = await output.arrayBuffer();
+
+  return withFreshWorker(async (handle) => {
+    await handle.ready;
+    const result = await handle.call<ArrayBuffer>({ type: 'appendChangeLog', output: buffer, changes }, { transfer: [buffer] });
+    return new Blob([result], { type: XLSX_MIME });
+  });
+};
+
+// 同梱のヘルパーパッケージの単体テストを、実際の生成コードと同じ Pyodide 環境で実行する
+export const runHelperTests = async (): Promise<HelperTestReport> =>
+  withFreshWorker(async (handle) => {
+    await handle.ready;
+    return handle.call<HelperTestReport>({ type: 'helperTests' });
+  });
+
+// 静的チェックの回帰テスト。検出された規則の集合が期待どおりかを確かめる
+export const runSafetyCheckTests = async (): Promise<SafetyCheckReport> =>
+  withFreshWorker(async (handle) => {
+    await handle.ready;
+    const failures: SafetyCheckReport['failures'] = [];
+    for (const testCase of SAFETY_CHECK_CASES) {
+      const actual = await handle.call<RawViolation[]>({
+        type: 'check',
+        script: testCase.source,
+        allowedImports: DEFAULT_SAFETY_POLICY.allowedImports,
+        allowedWritePaths: DEFAULT_SAFETY_POLICY.allowedWritePaths,
+      });
+      const rules = new Set(actual.map(v => v.rule));
+      const matches = rules.size === new Set(testCase.rules).size && testCase.rules.every(rule => rules.has(rule));
+      if (!matches) failures.push({ test: testCase.name, expected: testCase.rules, actual });
+    }
+    return { testsRun: SAFETY_CHECK_CASES.length, failures };
+  });
+
+export interface ConvertOptions {
+  encoding: CsvEncoding;
+  // .xlsm 出力時に VBA プロジェクトを引き継ぐ元ファイル
+  vbaSource?: Blob;
+}
+
+export const convertOutputs = async (
+  outputs: OutputFile[],
+  format: OutputFormat,
+  options: ConvertOptions,
   logCallback: (msg: string) => void
-): Promise<Blob> => {
-  const pyodide = window.pyodideInstance;
-  if (!pyodide) throw new Error("Python環境が初期化されていません。");
-
-  // Mount file
-  logCallback("ファイルを仮想環境に準備中...");
-  const arrayBuffer = await inputFile.arrayBuffer();
-  pyodide.FS.writeFile("input.xlsx", new Uint8Array(arrayBuffer));
-
-  // 標準出力をログにリダイレクト
-  pyodide.setStdout({
-    batched: (msg: string) => logCallback(`[Python] ${msg}`),
+): Promise<OutputFile[]> => {
+  if (format === 'xlsx') return outputs;
+
+  return withFreshWorker(async (handle) => {
+    await handle.ready;
+    const converted: OutputFile[] = [];
+    for (const output of outputs) {
+      const data = await output.blob.arrayBuffer();
+      const vbaSource = options.vbaSource ? await options.vbaSource.arrayBuffer() : undefined;
+      const result = await handle.call<ConvertResult>(
+        { type: 'convertOutput', data, format, encoding: options.encoding, vbaSource },
+        { transfer: vbaSource ? [data, vbaSource] : [data] }
+      );
+      if (format === 'csv' && result.sheetCount > 1) {
+        logCallback(`${output.name} には ${result.sheetCount} シートありますが、CSV にはアクティブシートのみを書き出しました。`);
+      }
+      const mime = format === 'csv' ? `${MIME_TYPES.csv};charset=${options.encoding === 'cp932' ? 'shift_jis' : 'utf-8'}` : MIME_TYPES[format];
+      converted.push({ name: replaceExtension(output.name, format), blob: new Blob([result.data], { type: mime }) });
+    }
+    return converted;
   });
+};
 
-  logCallback("Pythonスクリプトを実行しています...");
-  try {
-    // 実行前に前回の出力があれば削除
-    try { pyodide.FS.unlink("output.xlsx"); } catch(e) {}
-    
-    await pyodide.runPythonAsync(script);
-  } catch (err: any) {
-    throw new Error(`実行エラー: ${err.message}`);
-  }
+export interface WorkbookPreview {
+  sheets: PreviewSheetInfo[];
+  readRows: (sheet: string, startRow: number, rowCount: number) => Promise<PreviewPage>;
+  close: () => void;
+}
 
-  // Retrieve output
-  logCallback("出力ファイルを確認しています...");
-  if (pyodide.FS.analyzePath("output.xlsx").exists) {
-    const fileData = pyodide.FS.readFile("output.xlsx");
-    return new Blob([fileData], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
-  } else {
-    // もし output.xlsx が生成されなかった場合、致命的な指示不足として扱う
-    throw new Error("スクリプトは正常に終了しましたが、'output.xlsx' が生成されませんでした。Pythonコード内でファイルの保存処理（output.xlsxへの書き出し）が行われなかった可能性があります。指示内容を見直してもう一度お試しください。");
+// プレビューはジョブ用とは別の常駐ワーカーで行い、開いたブックを保持したまま行単位で読み出す
+let previewWorker: WorkerHandle | null = null;
+let nextPreviewKey = 1;
+
+export const openWorkbookPreview = async (file: Blob): Promise<WorkbookPreview> => {
+  if (!previewWorker) {
+    const handle = spawnWorker();
+    previewWorker = handle;
+    handle.ready.catch(() => { if (previewWorker === handle) previewWorker = null; });
   }
+  const handle = previewWorker;
+  await handle.ready;
+
+  const key = String(nextPreviewKey++);
+  const data = await file.arrayBuffer();
+  const { sheets } = await handle.call<{ sheets: PreviewSheetInfo[] }>({ type: 'previewOpen', key, data }, { transfer: [data] });
+
+  return {
+    sheets,
+    readRows: (sheet, startRow, rowCount) => handle.call<PreviewPage>({ type: 'previewRows', key, sheet, startRow, rowCount }),
+    close: () => { handle.call({ type: 'previewClose', key }).catch(() => {}); },
+  };
 };
@@ -0,0 +1,1074 @@
+import { EXTRACT_PATH, DIFF_BEFORE_PATH, DIFF_AFTER_PATH, ASSERT_BEFORE_PATH, ASSERT_AFTER_PATH, CONVERT_TARGET_PATH, PRESERVE_MODULE } from './pyodideProtocol';
+import { INSTRUCTION_SHEET_NAMES, STEP_PATTERN_SOURCE } from './instructions';
+import { HELPER_PACKAGE } from './helperPackage';
+
+// プレビューで表示する列数の上限
+export const MAX_PREVIEW_COLUMNS = 100;
+
+// ワーカー内で実行する補助 Python スクリプト。いずれも最後の式で JSON 文字列を返す。
+
+// 指示の候補（A1セル・A1のコメント・「指示」シート）と、全シートの構成（ヘッダー行・列の型・結合セル・名前付き範囲など）を取得する
+export const EXTRACT_SCRIPT = `
+import openpyxl
+import json
+import re
+import datetime
+from openpyxl.utils import get_column_letter
+
+INSTRUCTION_SHEET_NAMES = ${JSON.stringify(INSTRUCTION_SHEET_NAMES)}
+# 「1. 」「(2)」「手順3：」「④」などの番号付き行
+STEP_PATTERN = re.compile(${JSON.stringify(STEP_PATTERN_SOURCE)}, re.IGNORECASE)
+HEADER_SCAN_ROWS = 20
+PROFILE_SCAN_ROWS = 1000
+SAMPLE_COUNT = 3
+SAMPLE_MAX_CHARS = 30
+
+def _value_type(value):
+    if isinstance(value, bool):
+        return "boolean"
+    if isinstance(value, (int, float)):
+        return "number"
+    if isinstance(value, (datetime.datetime, datetime.date, datetime.time)):
+        return "date"
+    return "text"
+
+def _detect_header_row(rows):
+    # A1 の指示だけが入った行は飛ばし、文字列セルが最も多い行をヘッダーとみなす
+    best_row, best_count = 1, 0
+    for index, row in enumerate(rows[:HEADER_SCAN_ROWS], start=1):
+        filled = [v for v in row if v is not None and str(v).strip() != ""]
+        text_count = sum(1 for v in filled if isinstance(v, str))
+        if len(filled) >= 2 and text_count > best_count:
+            best_row, best_count = index, text_count
+    return best_row
+
+def _profile_column(name, letter, values):
+    non_null = [v for v in values if v is not None and str(v).strip() != ""]
+    if not non_null:
+        col_type = "empty"
+    else:
+        counts = {}
+        for v in non_null:
+            t = _value_type(v)
+            counts[t] = counts.get(t, 0) + 1
+        dominant, dominant_count = max(counts.items(), key=lambda item: item[1])
+        col_type = dominant if dominant_count >= len(non_null) * 0.9 else "mixed"
+
+    samples = []
+    for v in non_null:
+        text = str(v)[:SAMPLE_MAX_CHARS]
+        if text not in samples:
+            samples.append(text)
+        if len(samples) >= SAMPLE_COUNT:
+            break
+
+    return {
+        "name": name,
+        "letter": letter,
+        "type": col_type,
+        "nullRatio": round(1 - len(non_null) / len(values), 3) if values else 1.0,
+        "samples": samples,
+    }
+
+def _profile_sheet(ws_values, ws_formulas):
+    rows = [list(r) for r in ws_values.iter_rows(max_row=min(ws_values.max_row, PROFILE_SCAN_ROWS), values_only=True)]
+    header_row = _detect_header_row(rows) if rows else 1
+    header = rows[header_row - 1] if rows else []
+    body = rows[header_row:]
+
+    columns = []
+    for index, name in enumerate(header):
+        letter = get_column_letter(index + 1)
+        values = [r[index] if index < len(r) else None for r in body]
+        columns.append(_profile_column(str(name) if name is not None else f"(列{letter})", letter, values))
+
+    formula_count = 0
+    for row in ws_formulas.iter_rows(values_only=True):
+        formula_count += sum(1 for v in row if isinstance(v, str) and v.startswith("="))
+
+    return {
+        "name": ws_values.title,
+        "dimensions": ws_values.dimensions,
+        "maxRow": ws_values.max_row,
+        "maxColumn": ws_values.max_column,
+        "headerRow": header_row,
+        "columns": columns,
+        "mergedRanges": [str(r) for r in ws_formulas.merged_cells.ranges],
+        "formulaCount": formula_count,
+    }
+
+def _find_instruction_sheet(wb):
+    names = {n.strip().lower() for n in INSTRUCTION_SHEET_NAMES}
+    return next((name for name in wb.sheetnames if name.strip().lower() in names), None)
+
+def _instruction_steps(ws):
+    # 番号付きの行があれば番号付きの行だけを、なければ空でない全行を手順とする（見出し行を除くため）
+    rows = []
+    for row in ws.iter_rows(values_only=True):
+        cells = [str(v).strip() for v in row if v is not None and str(v).strip() != ""]
+        if not cells:
+            continue
+        # 「番号 | 指示」の2列形式
+        if len(cells) >= 2 and re.fullmatch(r"[0-9０-９]+[.．]?", cells[0]):
+            rows.append((True, " ".join(cells[1:])))
+            continue
+        text = " ".join(cells)
+        match = STEP_PATTERN.match(text)
+        rows.append((bool(match), text[match.end():].strip() if match else text))
+    numbered = [text for is_numbered, text in rows if is_numbered and text]
+    return numbered if numbered else [text for _, text in rows if text]
+
+def _comment_text(cell):
+    comment = cell.comment
+    if comment is None:
+        return ""
+    text = comment.text or ""
+    # Excel のメモは先頭に「作成者:」の行が付く
+    if comment.author and text.startswith(comment.author + ":"):
+        text = text[len(comment.author) + 1:]
+    return text.strip()
+
+def _named_ranges(wb):
+    try:
+        return [f"{name}={d.attr_text}" for name, d in wb.defined_names.items()]
+    except AttributeError:
+        # openpyxl 3.0 系は DefinedNameList
+        return [f"{d.name}={d.attr_text}" for d in wb.defined_names.definedName]
+
+try:
+    # 値（数式は計算結果）と数式の両方を参照するため2回読み込む
+    wb = openpyxl.load_workbook("${EXTRACT_PATH}", data_only=True)
+    wb_formulas = openpyxl.load_workbook("${EXTRACT_PATH}")
+    instruction_sheet = _find_instruction_sheet(wb)
+    ws = wb.active
+    if ws.title == instruction_sheet:
+        ws = next((wb[name] for name in wb.sheetnames if name != instruction_sheet), ws)
+    a1_val = ws['A1'].value
+
+    # 指示シートはデータではないため構成情報には含めない
+    sheets = [_profile_sheet(wb[name], wb_formulas[name]) for name in wb.sheetnames if name != instruction_sheet]
+    active = next((s for s in sheets if s["name"] == ws.title), None)
+
+    result = {
+        "a1": str(a1_val) if a1_val is not None else "",
+        "a1Comment": _comment_text(wb_formulas[ws.title]['A1']),
+        "instructionSheet": {"name": instruction_sheet, "steps": _instruction_steps(wb[instruction_sheet])} if instruction_sheet else None,
+        "columns": [c["name"] for c in active["columns"]] if active else [],
+        "profile": {
+            "activeSheet": ws.title,
+            "sheets": sheets,
+            "namedRanges": _named_ranges(wb_formulas),
+        },
+    }
+except Exception as e:
+    result = {"a1": "", "a1Comment": "", "instructionSheet": None, "columns": [], "profile": {"activeSheet": "", "sheets": [], "namedRanges": []}, "error": str(e)}
+
+json.dumps(result, ensure_ascii=False)
+`;
+
+// 生成スクリプトを実行せずに ast で静的解析する。source / policy_json は呼び出し側が名前空間に設定する
+export const CHECK_SCRIPT = `
+import ast
+import fnmatch
+import json
+import re
+
+JS_MODULES = {"js", "pyodide", "pyodide_js", "micropip"}
+NET_MODULES = {"urllib", "urllib3", "http", "socket", "requests", "httpx", "aiohttp", "ftplib", "smtplib", "ssl"}
+NET_CALLS = {"pyfetch", "open_url", "urlopen", "fetch", "XMLHttpRequest"}
+DYNAMIC_CALLS = {"eval", "exec", "compile", "__import__", "globals", "locals", "vars"}
+ATTR_CALLS = {"getattr", "setattr", "delattr"}
+DYNAMIC_ATTRS = {"__builtins__", "__globals__", "__subclasses__", "__code__"}
+WRITE_CALLS = {"to_excel", "to_csv", "to_json", "to_parquet", "to_pickle", "to_html", "save", "ExcelWriter"}
+# pathlib.Path のメソッドで、書き込み先は呼び出し元のパス
+PATH_WRITE_CALLS = {"write_text", "write_bytes"}
+# list.remove や DataFrame.rename と区別するため、関数として呼ぶか、システム系モジュール・Path から呼ぶ場合のみ書き込みとみなす
+FILE_OP_CALLS = {"remove", "rename", "unlink"}
+PATH_CALLS = {"Path", "PurePath", "PosixPath"}
+# 許可したモジュールの属性（pd.io.common.os など）をたどって到達できてしまうため、属性の連鎖の途中に現れても検出する
+SYSTEM_MODULES = {"os", "sys", "shutil", "subprocess", "io", "pathlib", "builtins"}
+# ファイルではなくメモリ上のバッファ・ExcelWriter を作る呼び出し。これらへの書き込みはパスを確認しない
+BUFFER_CALLS = {"BytesIO", "StringIO", "ExcelWriter"}
+
+# f-string の埋め込みや連結のうち、値を特定できない部分
+UNKNOWN = chr(0)
+# 不明な部分はパス区切りを含まない名前の一部とみなし、これらを当てはめても許可パスに収まるかを確かめる
+UNKNOWN_SAMPLES = ("", "x", "1")
+URL_PATTERN = re.compile("^(?:https?|ftp|" + UNKNOWN + ")+://", re.IGNORECASE)
+FORMAT_FIELD = re.compile(r"\\{[^{}]*\\}")
+PERCENT_FIELD = re.compile(r"%[-#0 +]*\\d*(?:\\.\\d+)?[sdifr]")
+
+def _check(source, policy):
+    violations = []
+
+    def add(rule, node, message):
+        violations.append({"rule": rule, "line": getattr(node, "lineno", 0), "message": message})
+
+    try:
+        tree = ast.parse(source)
+    except SyntaxError as e:
+        return [{"rule": "syntax", "line": e.lineno or 0, "message": f"構文エラー: {e.msg}"}]
+
+    allowed_imports = set(policy["allowedImports"])
+    allowed_writes = policy["allowedWritePaths"]
+
+    # 一度だけ代入される変数（with ... as を含む）の値を記録し、変数経由の出力先も解決できるようにする
+    bindings = {}
+    stores = {}
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Name) and isinstance(node.ctx, ast.Store):
+            stores[node.id] = stores.get(node.id, 0) + 1
+        if isinstance(node, ast.Assign) and len(node.targets) == 1 and isinstance(node.targets[0], ast.Name):
+            bindings[node.targets[0].id] = node.value
+        elif isinstance(node, ast.withitem) and isinstance(node.optional_vars, ast.Name):
+            bindings[node.optional_vars.id] = node.context_expr
+
+    def bound(name):
+        return bindings.get(name) if stores.get(name) == 1 else None
+
+    def call_name(node):
+        if not isinstance(node, ast.Call):
+            return None
+        func = node.func
+        return func.id if isinstance(func, ast.Name) else func.attr if isinstance(func, ast.Attribute) else None
+
+    # 文字列の式を、値を特定できない部分を UNKNOWN に置き換えたテンプレートにする。文字列として解釈できなければ None
+    def template(node, seen=frozenset()):
+        if isinstance(node, ast.Constant):
+            return node.value if isinstance(node.value, str) else None
+        if isinstance(node, ast.Name):
+            value = bound(node.id)
+            return template(value, seen | {node.id}) if value is not None and node.id not in seen else None
+        if isinstance(node, ast.JoinedStr):
+            parts = []
+            for part in node.values:
+                value = template(part.value if isinstance(part, ast.FormattedValue) else part, seen)
+                parts.append(UNKNOWN if value is None else value)
+            return "".join(parts)
+        if isinstance(node, ast.BinOp) and isinstance(node.op, ast.Add):
+            left, right = template(node.left, seen), template(node.right, seen)
+            if left is None and right is None:
+                return None
+            return (UNKNOWN if left is None else left) + (UNKNOWN if right is None else right)
+        if isinstance(node, ast.BinOp) and isinstance(node.op, ast.Mod):
+            left = template(node.left, seen)
+            return PERCENT_FIELD.sub(UNKNOWN, left) if left is not None else None
+        if call_name(node) == "format" and isinstance(node.func, ast.Attribute):
+            base = template(node.func.value, seen)
+            return FORMAT_FIELD.sub(UNKNOWN, base) if base is not None else None
+        return None
+
+    def shown(path):
+        return path.replace(UNKNOWN, "{?}")
+
+    def write_allowed(path):
+        for sample in UNKNOWN_SAMPLES:
+            candidate = path.replace(UNKNOWN, sample)
+            if candidate.startswith("/") or ".." in candidate.split("/"):
+                return False
+            if not any(fnmatch.fnmatchcase(candidate, pattern) for pattern in allowed_writes):
+                return False
+        return True
+
+    # 属性の連鎖を名前の列にする。先頭が変数でない場合は "" を置く
+    def chain(node):
+        parts = []
+        while isinstance(node, ast.Attribute):
+            parts.append(node.attr)
+            node = node.value
+        parts.append(node.id if isinstance(node, ast.Name) else "")
+        return parts[::-1]
+
+    def path_receiver(func):
+        value = func.value if isinstance(func, ast.Attribute) else None
+        if isinstance(value, ast.Name) and bound(value.id) is not None:
+            value = bound(value.id)
+        return value if call_name(value) in PATH_CALLS else None
+
+    def is_buffer(node):
+        if isinstance(node, ast.Name):
+            node = bound(node.id)
+        return call_name(node) in BUFFER_CALLS
+
+    # 出力先を特定できない書き込みは、許可パス以外への書き込みと同じく違反とする
+    def check_write(node, target):
+        path = template(target) if target is not None else None
+        if path is None:
+            add("file-write", node, "書き込み先のパスを特定できません。出力先は文字列で指定してください")
+        elif not write_allowed(path):
+            add("file-write", node, f"'{shown(path)}' への書き込みは許可されていません")
+
+    # from ... import の場合は imported に取り込む名前を渡す
+    def check_module(node, name, imported=()):
+        root = name.split(".")[0]
+        if root in JS_MODULES:
+            add("js-access", node, f"'{name}' モジュールへのアクセスは禁止されています")
+        elif root in NET_MODULES:
+            add("network", node, f"ネットワーク系モジュール '{name}' は使用できません")
+        elif root not in allowed_imports:
+            add("disallowed-import", node, f"'{name}' のインポートは許可されていません")
+        else:
+            check_system(node, name.split(".")[1:] + list(imported))
+
+    def check_system(node, names):
+        module = next((n for n in names if n in SYSTEM_MODULES and n not in allowed_imports), None)
+        if module:
+            add("disallowed-import", node, f"'{module}' モジュールを経由したアクセスは許可されていません")
+
+    # 外側の属性アクセスで連鎖全体を確認し、内側のノードは重ねて報告しない
+    chained = set()
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Attribute) and id(node) not in chained:
+            inner = node.value
+            while isinstance(inner, ast.Attribute):
+                chained.add(id(inner))
+                inner = inner.value
+            check_system(node, chain(node)[1:])
+
+        if isinstance(node, ast.Import):
+            for alias in node.names:
+                check_module(node, alias.name)
+        elif isinstance(node, ast.ImportFrom):
+            check_module(node, node.module or "", [alias.name for alias in node.names])
+        elif isinstance(node, ast.Attribute) and node.attr in DYNAMIC_ATTRS:
+            add("dynamic-exec", node, f"'{node.attr}' へのアクセスは禁止されています")
+        elif isinstance(node, ast.Name) and node.id in DYNAMIC_ATTRS:
+            add("dynamic-exec", node, f"'{node.id}' へのアクセスは禁止されています")
+        elif isinstance(node, ast.Call):
+            name = call_name(node)
+
+            for arg in node.args + [kw.value for kw in node.keywords]:
+                value = template(arg)
+                if value and URL_PATTERN.match(value):
+                    add("network", node, f"URL '{shown(value)}' へのアクセスは禁止されています")
+
+            if name in DYNAMIC_CALLS:
+                add("dynamic-exec", node, f"'{name}()' による動的実行は禁止されています")
+            elif name in ATTR_CALLS:
+                add("dynamic-exec", node, f"'{name}()' による動的な属性アクセスは禁止されています")
+            elif name in NET_CALLS:
+                add("network", node, f"'{name}()' によるネットワーク通信は禁止されています")
+            elif name == "open":
+                path = node.args[0] if node.args else None
+                mode = node.args[1] if len(node.args) > 1 else None
+                for kw in node.keywords:
+                    if kw.arg == "file":
+                        path = kw.value
+                    elif kw.arg == "mode":
+                        mode = kw.value
+                # モードを特定できない場合は書き込みとみなす
+                mode_value = template(mode) if mode is not None else "r"
+                if mode_value is None or UNKNOWN in mode_value or any(m in mode_value for m in "wax+"):
+                    check_write(node, path)
+            elif name in PATH_WRITE_CALLS or (name in FILE_OP_CALLS and (
+                isinstance(node.func, ast.Name) or path_receiver(node.func) is not None or SYSTEM_MODULES & set(chain(node.func.value))
+            )):
+                receiver = path_receiver(node.func)
+                if receiver is not None or name in PATH_WRITE_CALLS:
+                    targets = [receiver.args[0] if receiver is not None and receiver.args else None]
+                    if name == "rename":
+                        targets += node.args[:1]
+                else:
+                    targets = node.args[:2] if name == "rename" else node.args[:1]
+                for target in targets or [None]:
+                    check_write(node, target)
+            elif name in WRITE_CALLS:
+                target = node.args[0] if node.args else None
+                for kw in node.keywords:
+                    if kw.arg in ("path", "path_or_buf", "excel_writer", "filename"):
+                        target = kw.value
+                # 出力先の指定がない to_csv() などは文字列を返すだけで、ファイルには書き込まない
+                unspecified = target is None or (isinstance(target, ast.Constant) and target.value is None)
+                if not unspecified and not is_buffer(target):
+                    check_write(node, target)
+
+    return violations
+
+json.dumps(_check(source, json.loads(policy_json)))
+`;
+
+// 入力・出力ブックをセル単位で比較する。max_changes は呼び出し側が名前空間に設定する
+export const DIFF_SCRIPT = `
+import json
+import openpyxl
+
+def _style_signature(cell):
+    font = cell.font
+    fill = cell.fill
+    return (
+        cell.number_format,
+        bool(font.b),
+        bool(font.i),
+        str(font.color.rgb) if font.color is not None else None,
+        fill.fill_type,
+        str(fill.fgColor.rgb) if fill.fgColor is not None else None,
+    )
+
+def _style_text(cell):
+    number_format, bold, italic, color, fill_type, fill_color = _style_signature(cell)
+    parts = [f"表示形式:{number_format}"]
+    if bold:
+        parts.append("太字")
+    if italic:
+        parts.append("斜体")
+    if color:
+        parts.append(f"文字色:{color}")
+    if fill_type:
+        parts.append(f"塗り:{fill_color}")
+    return " ".join(parts)
+
+def _text(value):
+    return "" if value is None else str(value)
+
+def _is_formula(value):
+    return isinstance(value, str) and value.startswith("=")
+
+def _cells(ws):
+    return {(cell.row, cell.column): cell for row in ws.iter_rows() for cell in row}
+
+def _diff(max_changes):
+    # data_only=False で読み込み、数式は計算結果ではなく式として比較する
+    before = openpyxl.load_workbook("${DIFF_BEFORE_PATH}")
+    after = openpyxl.load_workbook("${DIFF_AFTER_PATH}")
+
+    report = {
+        "addedSheets": [n for n in after.sheetnames if n not in before.sheetnames],
+        "removedSheets": [n for n in before.sheetnames if n not in after.sheetnames],
+        "sheets": [],
+        "changes": [],
+        "totals": {"value": 0, "formula": 0, "style": 0},
+        "truncated": False,
+    }
+
+    for name in [n for n in before.sheetnames if n in after.sheetnames]:
+        ws_before, ws_after = before[name], after[name]
+        report["sheets"].append({
+            "sheet": name,
+            "rowsBefore": ws_before.max_row,
+            "rowsAfter": ws_after.max_row,
+            "colsBefore": ws_before.max_column,
+            "colsAfter": ws_after.max_column,
+        })
+
+        cells_before, cells_after = _cells(ws_before), _cells(ws_after)
+        for key in sorted(set(cells_before) | set(cells_after)):
+            a, b = cells_before.get(key), cells_after.get(key)
+            value_a = a.value if a is not None else None
+            value_b = b.value if b is not None else None
+
+            if value_a != value_b:
+                kind = "formula" if _is_formula(value_a) or _is_formula(value_b) else "value"
+            elif a is not None and b is not None and value_a is not None and _style_signature(a) != _style_signature(b):
+                kind = "style"
+            else:
+                continue
+
+            report["totals"][kind] += 1
+            if len(report["changes"]) >= max_changes:
+                report["truncated"] = True
+                continue
+            cell = b if b is not None else a
+            report["changes"].append({
+                "sheet": name,
+                "cell": cell.coordinate,
+                "kind": kind,
+                "before": _style_text(a) if kind == "style" else _text(value_a),
+                "after": _style_text(b) if kind == "style" else _text(value_b),
+            })
+
+    return report
+
+json.dumps(_diff(max_changes))
+`;
+
+// 差分レポートを「変更履歴」シートとして出力ブックに追記する。changes_json は呼び出し側が設定する
+export const CHANGE_LOG_SCRIPT = `
+import json
+import openpyxl
+from openpyxl.styles import Font
+
+KIND_LABELS = {"value": "値", "formula": "数式", "style": "書式"}
+SHEET_TITLE = "変更履歴"
+
+wb = openpyxl.load_workbook("${DIFF_AFTER_PATH}")
+if SHEET_TITLE in wb.sheetnames:
+    del wb[SHEET_TITLE]
+ws = wb.create_sheet(SHEET_TITLE)
+ws.append(["シート", "セル", "種類", "変更前", "変更後"])
+for cell in ws[1]:
+    cell.font = Font(bold=True)
+for change in json.loads(changes_json):
+    ws.append([change["sheet"], change["cell"], KIND_LABELS.get(change["kind"], change["kind"]), change["before"], change["after"]])
+wb.save("${DIFF_AFTER_PATH}")
+
+json.dumps(True)
+`;
+
+// 'diff' で配置した入力・出力ブックを比べ、出力で失われた書式・数式・入力規則・グラフなどを数える
+export const FIDELITY_SCRIPT = `
+import json
+import re
+import zipfile
+import openpyxl
+
+def _is_formula(value):
+    return isinstance(value, str) and value.startswith("=")
+
+def _cells(ws):
+    return {(cell.row, cell.column): cell for row in ws.iter_rows() for cell in row}
+
+def _sheet_counts(ws):
+    return {
+        "validations": len(ws.data_validations.dataValidation),
+        "conditionalFormats": sum(len(cf.rules) for cf in ws.conditional_formatting),
+        "merges": len(ws.merged_cells.ranges),
+    }
+
+def _cell_counts(ws_before, ws_after):
+    # 同じ位置のセルを比べ、書式が既定に戻ったセルと数式が値に置き換わったセルを除いて数える
+    cells_after = _cells(ws_after)
+    styled = styles_kept = formulas = formulas_kept = 0
+    for row in ws_before.iter_rows():
+        for a in row:
+            if a.value is None:
+                continue
+            b = cells_after.get((a.row, a.column))
+            if a.has_style:
+                styled += 1
+                if b is None or b.value is None or b.has_style:
+                    styles_kept += 1
+            if _is_formula(a.value):
+                formulas += 1
+                if b is None or b.value is None or _is_formula(b.value):
+                    formulas_kept += 1
+    return {"styles": (styled, styles_kept), "formulas": (formulas, formulas_kept)}
+
+def _package_counts(path):
+    # グラフと画像はパッケージ内のパーツ数で数える
+    with zipfile.ZipFile(path) as z:
+        names = z.namelist()
+    return {
+        "charts": sum(1 for n in names if re.match(r"xl/charts/chart[0-9]+[.]xml$", n)),
+        "images": sum(1 for n in names if n.startswith("xl/media/")),
+    }
+
+def _fidelity():
+    before = openpyxl.load_workbook("${DIFF_BEFORE_PATH}")
+    after = openpyxl.load_workbook("${DIFF_AFTER_PATH}")
+    issues = []
+
+    def add(sheet, kind, count_before, count_after):
+        if count_after < count_before:
+            issues.append({"sheet": sheet, "kind": kind, "before": count_before, "after": count_after})
+
+    for name in [n for n in before.sheetnames if n in after.sheetnames]:
+        ws_before, ws_after = before[name], after[name]
+        for kind, (count_before, count_after) in _cell_counts(ws_before, ws_after).items():
+            add(name, kind, count_before, count_after)
+        counts_before, counts_after = _sheet_counts(ws_before), _sheet_counts(ws_after)
+        for kind in counts_before:
+            add(name, kind, counts_before[kind], counts_after[kind])
+
+    package_before, package_after = _package_counts("${DIFF_BEFORE_PATH}"), _package_counts("${DIFF_AFTER_PATH}")
+    for kind in package_before:
+        add(None, kind, package_before[kind], package_after[kind])
+    add(None, "definedNames", len(before.defined_names), len(after.defined_names))
+
+    return {
+        "lostSheets": [n for n in before.sheetnames if n not in after.sheetnames],
+        "issues": issues,
+    }
+
+json.dumps(_fidelity())
+`;
+
+// AI が出力した検証項目（OutputAssertion）を出力ブックに対して確認する。assertions_json は呼び出し側が設定する
+// 数式は計算結果を持たないことがあるため、数式のまま読み、数値・合計の確認では対象外とする
+export const ASSERTIONS_SCRIPT = `
+import json
+import math
+import numbers
+import openpyxl
+
+from ${HELPER_PACKAGE} import read_table, normalize_jp_text
+
+MAX_LISTED_ROWS = 5
+KINDS = {"rowCount", "sheetExists", "columnExists", "columnNumeric", "noBlanks", "unique", "sumPreserved"}
+
+def _is_blank(value):
+    if isinstance(value, float) and math.isnan(value):
+        return True
+    return value is None or (isinstance(value, str) and value.strip() == "")
+
+def _is_formula(value):
+    return isinstance(value, str) and value.startswith("=")
+
+def _is_number(value):
+    return isinstance(value, numbers.Number) and not isinstance(value, bool) and not (isinstance(value, float) and math.isnan(value))
+
+def _rows(label, rows):
+    listed = ", ".join(f"{row}行目" for row in rows[:MAX_LISTED_ROWS])
+    return f"{label}: {listed}" + (f" ほか {len(rows) - MAX_LISTED_ROWS} 件" if len(rows) > MAX_LISTED_ROWS else "")
+
+def _find_sheet(wb, name):
+    if not name:
+        return wb.active
+    return wb[name] if name in wb.sheetnames else None
+
+def _check(assertion, before, after, tables, values_sheet):
+    def table(ws):
+        if id(ws) not in tables:
+            tables[id(ws)] = read_table(ws)
+        return tables[id(ws)]
+
+    def column(df, name):
+        key = normalize_jp_text(name)
+        return df[key] if key in df.columns else None
+
+    # 数式のセルは保存時に計算された値に置き換える。計算結果が保存されていないセル（openpyxl で保存した数式など）は行番号を別に返す
+    def evaluated(ws, df, name):
+        key = normalize_jp_text(name)
+        position = list(df.columns).index(key) + 1
+        items, unknown = [], []
+        for row, v in df[key].items():
+            if _is_formula(v):
+                v = values_sheet(ws).cell(row, position).value
+                if v is None:
+                    unknown.append(row)
+                    continue
+            items.append((row, v))
+        return items, unknown
+
+    kind = assertion.get("kind")
+    if kind not in KINDS:
+        return False, f"未対応の検証項目です: {kind}"
+    sheet = assertion.get("sheet")
+    ws = _find_sheet(after, sheet)
+    if ws is None:
+        return False, f"出力にシート「{sheet}」がありません"
+    if kind == "sheetExists":
+        return True, f"シート「{ws.title}」があります"
+
+    # 新しく作られたシートなど、入力に同名のシートがない場合は入力のアクティブシートと比べる
+    ws_before = _find_sheet(before, sheet) or before.active
+    df = table(ws)
+    if kind == "rowCount":
+        rows_before = len(table(ws_before))
+        expected = rows_before + int(assertion.get("change", 0))
+        return len(df) == expected, f"行数 {rows_before} → {len(df)}（期待値 {expected}）"
+
+    name = assertion.get("column", "")
+    values = column(df, name)
+    if values is None:
+        return False, f"列「{name}」がありません"
+    if kind == "columnExists":
+        return True, f"列「{name}」があります"
+    if kind == "columnNumeric":
+        items, unknown = evaluated(ws, df, name)
+        bad = [row for row, v in items if not _is_blank(v) and not _is_number(v)]
+        detail = _rows("数値でないセル", bad) if bad else "数値以外の値はありません"
+        return not bad, detail + (f"（{_rows('計算結果のない数式は未検証', unknown)}）" if unknown else "")
+    if kind == "noBlanks":
+        blanks = [row for row, v in values.items() if _is_blank(v)]
+        return not blanks, _rows("空欄", blanks) if blanks else f"空欄はありません（{len(values)} 行）"
+    if kind == "unique":
+        seen, duplicates = set(), []
+        for row, v in values.items():
+            if _is_blank(v):
+                continue
+            if str(v) in seen:
+                duplicates.append(row)
+            seen.add(str(v))
+        return not duplicates, _rows("重複", duplicates) if duplicates else "重複はありません"
+    if kind == "sumPreserved":
+        df_before = table(ws_before)
+        if column(df_before, name) is None:
+            return False, f"入力に列「{name}」がありません"
+        items_before, unknown_before = evaluated(ws_before, df_before, name)
+        items_after, unknown_after = evaluated(ws, df, name)
+        # 合計が分からないため失敗とはせず、検証できなかったことを伝える
+        if unknown_before or unknown_after:
+            listed = "、".join(_rows(label, rows) for label, rows in (("入力", unknown_before), ("出力", unknown_after)) if rows)
+            return True, f"計算結果のない数式があるため合計を検証できません（{listed}）"
+        total_before = sum(float(v) for _, v in items_before if _is_number(v))
+        total_after = sum(float(v) for _, v in items_after if _is_number(v))
+        passed = math.isclose(total_before, total_after, rel_tol=1e-9, abs_tol=1e-6)
+        return passed, f"合計 {total_before:,.10g} → {total_after:,.10g}"
+
+def _run_assertions():
+    paths = ("${ASSERT_BEFORE_PATH}", "${ASSERT_AFTER_PATH}")
+    before, after = (openpyxl.load_workbook(path) for path in paths)
+    sources = {id(before): paths[0], id(after): paths[1]}
+    # 数式の計算結果（data_only=True で読める値）は、必要になった時点で別に読み込む
+    cached = {}
+
+    def values_sheet(ws):
+        key = id(ws.parent)
+        if key not in cached:
+            cached[key] = openpyxl.load_workbook(sources[key], data_only=True)
+        return cached[key][ws.title]
+
+    tables = {}
+    results = []
+    for assertion in json.loads(assertions_json):
+        try:
+            passed, detail = _check(assertion, before, after, tables, values_sheet)
+        except Exception as e:
+            passed, detail = False, f"検証中にエラーが発生しました: {e}"
+        results.append({"assertion": assertion, "passed": bool(passed), "detail": detail})
+    return results
+
+json.dumps(_run_assertions())
+`;
+
+// ヘルパーパッケージの単体テストを unittest で実行する。tests_dir は呼び出し側が設定する
+export const HELPER_TEST_SCRIPT = `
+import io
+import json
+import unittest
+
+import ${HELPER_PACKAGE}
+
+def _run_tests():
+    suite = unittest.TestLoader().discover(tests_dir, pattern="test_*.py", top_level_dir=tests_dir)
+    stream = io.StringIO()
+    result = unittest.TextTestRunner(stream=stream, verbosity=2).run(suite)
+    return {
+        "version": ${HELPER_PACKAGE}.__version__,
+        "testsRun": result.testsRun,
+        "failures": [{"test": test.id(), "traceback": tb} for test, tb in result.failures + result.errors],
+        "skipped": len(result.skipped),
+        "output": stream.getvalue(),
+    }
+
+json.dumps(_run_tests())
+`;
+
+// CSV / .xls を xlsx に変換する。source_path / fmt / sheet_title は呼び出し側が設定する
+export const NORMALIZE_SCRIPT = `
+import io
+import json
+import re
+import pandas as pd
+
+def _decode_csv(raw):
+    # 基幹システムの出力は Shift_JIS (CP932) が多いため、UTF-8 で読めなければ CP932 を試す
+    for encoding in ("utf-8-sig", "cp932"):
+        try:
+            return raw.decode(encoding), encoding
+        except UnicodeDecodeError:
+            continue
+    return raw.decode("latin-1"), "latin-1"
+
+def _infer_numeric(df):
+    # 先頭ゼロのコード値（例: 00123）は文字列のまま残し、それ以外の数値列のみ変換する
+    for col in df.columns:
+        values = df[col][df[col] != ""]
+        if values.empty or values.str.match(r"^0\\d").any():
+            continue
+        converted = pd.to_numeric(values, errors="coerce")
+        if converted.notna().all():
+            df[col] = pd.to_numeric(df[col].where(df[col] != "", None))
+    return df
+
+def _normalize():
+    encoding = None
+    if fmt == "csv":
+        with open(source_path, "rb") as f:
+            text, encoding = _decode_csv(f.read())
+        df = _infer_numeric(pd.read_csv(io.StringIO(text), dtype=str, keep_default_na=False))
+        sheets = {sheet_title: (df, True)}
+    else:
+        frames = pd.read_excel(source_path, sheet_name=None, header=None, engine="xlrd")
+        sheets = {name: (df, False) for name, df in frames.items()}
+
+    with pd.ExcelWriter("${CONVERT_TARGET_PATH}", engine="openpyxl") as writer:
+        for name, (df, header) in sheets.items():
+            df.to_excel(writer, sheet_name=re.sub(r"[\\[\\]:*?/\\\\]", "_", str(name))[:31] or "Sheet1", index=False, header=header)
+
+    return {"encoding": encoding}
+
+json.dumps(_normalize())
+`;
+
+// xlsx の出力を指定形式に変換する。source_path / fmt / encoding / vba_path は呼び出し側が設定する
+export const CONVERT_SCRIPT = `
+import csv
+import json
+import zipfile
+import openpyxl
+
+def _convert():
+    sheet_count = 1
+    if fmt == "xlsm":
+        wb = openpyxl.load_workbook(source_path, keep_vba=True)
+        # 生成コードが pandas 等で保存し VBA が失われた場合は、元ファイルの VBA プロジェクトを戻す
+        if wb.vba_archive is None and vba_path:
+            wb.vba_archive = zipfile.ZipFile(vba_path)
+        wb.save("${CONVERT_TARGET_PATH}")
+    elif fmt == "csv":
+        wb = openpyxl.load_workbook(source_path, data_only=True)
+        sheet_count = len(wb.sheetnames)
+        with open("${CONVERT_TARGET_PATH}", "w", encoding=encoding, errors="replace", newline="") as f:
+            writer = csv.writer(f)
+            for row in wb.active.iter_rows(values_only=True):
+                writer.writerow(["" if v is None else v for v in row])
+    return {"sheetCount": sheet_count}
+
+json.dumps(_convert())
+`;
+
+// プレビュー用にブックを開いたまま保持する。_preview_books はワーカー内で共有する名前空間に置く
+// （key / path は呼び出し側が設定する）
+export const PREVIEW_OPEN_SCRIPT = `
+import json
+import openpyxl
+from openpyxl.utils import get_column_letter
+
+MAX_PREVIEW_COLUMNS = ${MAX_PREVIEW_COLUMNS}
+MAX_PREVIEW_MERGES = 2000
+DEFAULT_COLUMN_WIDTH = 8.43
+
+if "_preview_books" not in globals():
+    _preview_books = {}
+
+# 数式は計算結果（キャッシュ値）を優先し、値がない場合は数式そのものを表示する
+wb_values = openpyxl.load_workbook(path, data_only=True)
+wb_formulas = openpyxl.load_workbook(path)
+_preview_books[key] = (wb_values, wb_formulas)
+
+def _column_widths(ws, count):
+    widths = []
+    for index in range(1, count + 1):
+        dim = ws.column_dimensions.get(get_column_letter(index))
+        width = dim.width if dim is not None and dim.width else DEFAULT_COLUMN_WIDTH
+        # Excel の文字数単位をおおよそのピクセル数に換算する
+        widths.append(max(32, min(400, int(width * 7 + 5))))
+    return widths
+
+sheets = []
+for ws in wb_formulas.worksheets:
+    column_count = min(ws.max_column, MAX_PREVIEW_COLUMNS)
+    merges = [
+        {"top": r.min_row, "left": r.min_col, "bottom": r.max_row, "right": r.max_col}
+        for r in list(ws.merged_cells.ranges)[:MAX_PREVIEW_MERGES]
+    ]
+    sheets.append({
+        "name": ws.title,
+        "maxRow": ws.max_row,
+        "columnCount": column_count,
+        "maxColumn": ws.max_column,
+        "columnWidths": _column_widths(ws, column_count),
+        "merges": merges,
+    })
+
+json.dumps({"sheets": sheets}, ensure_ascii=False)
+`;
+
+// 開いているブックから startRow 以降 rowCount 行を表示用に変換する（key / sheet / start_row / row_count は呼び出し側が設定する）
+export const PREVIEW_ROWS_SCRIPT = `
+import json
+import re
+import datetime
+
+def _rgb(color):
+    # テーマカラーやインデックスカラーは解決せず、ARGB 指定の色のみ扱う
+    rgb = getattr(color, "rgb", None) if color is not None else None
+    if isinstance(rgb, str) and len(rgb) == 8 and rgb not in ("00000000", "FF000000"):
+        return "#" + rgb[2:]
+    return None
+
+def _decimals(fmt):
+    match = re.search(r"\\.([0#]+)", fmt)
+    return len(match.group(1)) if match else 0
+
+def _format_number(value, fmt):
+    section = fmt.split(";")[0]
+    if section in ("", "General", "@"):
+        if isinstance(value, float) and value.is_integer() and abs(value) < 1e15:
+            return str(int(value))
+        return f"{value:.10g}" if isinstance(value, float) else str(value)
+    text_section = re.sub(r'"[^"]*"|\\\\.|\\[[^\\]]*\\]', "", section)
+    decimals = _decimals(text_section)
+    if "%" in text_section:
+        return f"{value * 100:,.{decimals}f}%" if "," in text_section else f"{value * 100:.{decimals}f}%"
+    body = f"{value:,.{decimals}f}" if "," in text_section else f"{value:.{decimals}f}"
+    prefix = "¥" if "¥" in section or "\\\\" in section else "$" if "$" in section else ""
+    return prefix + body
+
+def _format_date(value, fmt):
+    lowered = re.sub(r'"[^"]*"|\\[[^\\]]*\\]', "", fmt.lower())
+    if isinstance(value, datetime.time):
+        return value.strftime("%H:%M:%S" if "s" in lowered else "%H:%M")
+    has_time = "h" in lowered or "s" in lowered
+    has_date = "y" in lowered or "d" in lowered or ("m" in lowered and not has_time)
+    if not isinstance(value, datetime.datetime):
+        return value.strftime("%Y/%m/%d")
+    if has_time and not has_date:
+        return value.strftime("%H:%M")
+    # 表示形式が日付・時刻でない場合は、時刻があるときだけ時刻も表示する
+    if has_time or (not has_date and (value.hour or value.minute)):
+        return value.strftime("%Y/%m/%d %H:%M")
+    return value.strftime("%Y/%m/%d")
+
+def _cell(value_cell, formula_cell):
+    value = value_cell.value
+    formula = formula_cell.value if isinstance(formula_cell.value, str) and formula_cell.value.startswith("=") else None
+    if value is None and formula is None:
+        if _rgb(formula_cell.fill.fgColor) is None or formula_cell.fill.fill_type != "solid":
+            return None
+        text, kind = "", "text"
+    elif value is None:
+        text, kind = formula, "formula"
+    elif isinstance(value, bool):
+        text, kind = ("TRUE" if value else "FALSE"), "boolean"
+    elif isinstance(value, (int, float)):
+        text, kind = _format_number(value, formula_cell.number_format or "General"), "number"
+    elif isinstance(value, (datetime.datetime, datetime.date, datetime.time)):
+        text, kind = _format_date(value, formula_cell.number_format or ""), "date"
+    else:
+        text, kind = str(value), "text"
+
+    cell = {"text": text[:500], "kind": kind}
+    if formula_cell.fill is not None and formula_cell.fill.fill_type == "solid":
+        fill = _rgb(formula_cell.fill.fgColor)
+        if fill:
+            cell["fill"] = fill
+    font = formula_cell.font
+    if font is not None:
+        if font.b:
+            cell["bold"] = True
+        if font.i:
+            cell["italic"] = True
+        color = _rgb(font.color)
+        if color:
+            cell["color"] = color
+    return cell
+
+wb_values, wb_formulas = _preview_books[key]
+ws_values = wb_values[sheet]
+ws_formulas = wb_formulas[sheet]
+column_count = min(ws_formulas.max_column, MAX_PREVIEW_COLUMNS)
+end_row = min(ws_formulas.max_row, start_row + row_count - 1)
+
+rows = []
+if start_row <= end_row:
+    value_rows = ws_values.iter_rows(min_row=start_row, max_row=end_row, max_col=column_count)
+    formula_rows = ws_formulas.iter_rows(min_row=start_row, max_row=end_row, max_col=column_count)
+    for value_row, formula_row in zip(value_rows, formula_rows):
+        rows.append([_cell(v, f) for v, f in zip(value_row, formula_row)])
+
+json.dumps({"startRow": start_row, "rows": rows}, ensure_ascii=False)
+`;
+
+// 書式保持モードで生成コードが import するモジュール（${PRESERVE_MODULE}.py）。ワーカーの起動時にファイルとして配置する
+export const PRESERVE_MODULE_SOURCE = `
+"""書式保持モード用のヘルパー。
+
+input.xlsx を openpyxl で開いたまま必要なセルだけを書き換え、書式・数式・グラフ・入力規則を残して保存する。
+pandas の to_excel で書き直すと、これらはすべて失われる。
+"""
+import re
+from copy import copy
+
+import openpyxl
+import pandas as pd
+
+_OUTPUT_NAME = re.compile(r"^output(_[^/]+)?[.]xlsx$")
+
+def open_workbook(path="input.xlsx"):
+    """ブックを数式のまま開く。"""
+    return openpyxl.load_workbook(path)
+
+def _header_name(value, index):
+    return f"列{index + 1}" if value is None else str(value).strip()
+
+def read_table(ws, header_row=1):
+    """header_row から下の表を DataFrame として読む。index は Excel の行番号。"""
+    rows = list(ws.iter_rows(min_row=header_row, values_only=True))
+    if not rows:
+        return pd.DataFrame()
+    columns = [_header_name(v, i) for i, v in enumerate(rows[0])]
+    return pd.DataFrame(rows[1:], columns=columns, index=range(header_row + 1, header_row + len(rows)))
+
+def find_column(ws, name, header_row=1):
+    """見出しが name の列番号（1始まり）を返す。前後の空白は無視する。"""
+    target = str(name).strip()
+    for cell in ws[header_row]:
+        if cell.value is not None and str(cell.value).strip() == target:
+            return cell.column
+    raise KeyError(f"{header_row} 行目に列「{name}」が見つかりません")
+
+def copy_style(source, target):
+    """セルの書式（フォント・塗り・罫線・表示形式・配置・保護）をコピーする。"""
+    if source.has_style:
+        target._style = copy(source._style)
+
+def _to_cell_value(value):
+    if value is None or (pd.api.types.is_scalar(value) and pd.isna(value)):
+        return None
+    if isinstance(value, pd.Timestamp):
+        return value.to_pydatetime()
+    if hasattr(value, "item"):
+        return value.item()
+    return value
+
+def _is_formula(value):
+    return isinstance(value, str) and value.startswith("=")
+
+def write_column(ws, name, values, header_row=1, keep_formulas=True):
+    """列 name に values を書き込み、セルの書式はそのまま残す。
+
+    values が read_table の結果から作った Series の場合は index（Excel の行番号）の行に、
+    リストの場合は header_row の次の行から順に書き込む。
+    列がなければ右端に追加し、左隣の列の書式を引き継ぐ。keep_formulas が真の場合、数式セルは上書きしない。
+    """
+    try:
+        column = find_column(ws, name, header_row)
+        added = False
+    except KeyError:
+        column = ws.max_column + 1
+        added = True
+        header = ws.cell(header_row, column, name)
+        if column > 1:
+            copy_style(ws.cell(header_row, column - 1), header)
+
+    items = values.items() if isinstance(values, pd.Series) else enumerate(values, start=header_row + 1)
+    skipped = 0
+    for row, value in items:
+        cell = ws.cell(int(row), column)
+        if keep_formulas and _is_formula(cell.value):
+            skipped += 1
+            continue
+        if added and column > 1:
+            copy_style(ws.cell(int(row), column - 1), cell)
+        cell.value = _to_cell_value(value)
+    if skipped:
+        print(f"[${PRESERVE_MODULE}] 列「{name}」の数式セル {skipped} 個は上書きしませんでした。")
+    return column
+
+def append_rows(ws, rows, style_row=None):
+    """行を末尾に追加し、style_row（省略時は追加前の最終行）の書式と行の高さを引き継ぐ。
+
+    追加した最初の行番号を返す。
+    """
+    source = style_row or ws.max_row
+    if isinstance(rows, pd.DataFrame):
+        rows = rows.itertuples(index=False)
+    first = ws.max_row + 1
+    for values in rows:
+        ws.append([_to_cell_value(v) for v in values])
+        row = ws.max_row
+        for column in range(1, ws.max_column + 1):
+            copy_style(ws.cell(source, column), ws.cell(row, column))
+        height = ws.row_dimensions[source].height
+        if height is not None:
+            ws.row_dimensions[row].height = height
+    return first
+
+def save_workbook(wb, path="output.xlsx"):
+    """output.xlsx（または output_<名前>.xlsx）に保存する。"""
+    if not _OUTPUT_NAME.match(path):
+        raise ValueError(f"保存先は output.xlsx または output_<名前>.xlsx にしてください: {path}")
+    wb.save(path)
+`;
@@ -0,0 +1,177 @@
+import { getAllRecords, putRecord, deleteRecord } from './database';
+import { ColumnProfile, WorkbookProfile, OutputAssertion } from './pyodideProtocol';
+import { InstructionPlan, InstructionSource } from './instructions';
+import { ConfirmedPlan, isConfirmedPlan } from './taskPlan';
+import { isOutputAssertion } from './assertions';
+
+export interface RecipeSheet {
+  name: string;
+  headerRow: number;
+  columns: { name: string; type: ColumnProfile['type'] }[];
+}
+
+// 成功したスクリプトを指示・生成時の列構成とともに保存し、AI を呼び出さずに再利用する
+export interface Recipe {
+  id: string;
+  name: string;
+  source: InstructionSource;
+  // 複数手順の指示の場合は手順ごとのスクリプト。plan は生成前に確認した作業計画、assertions は出力の検証項目
+  steps: { instruction: string; script: string; plan?: ConfirmedPlan; assertions?: OutputAssertion[] }[];
+  // 生成時のメインファイルの列構成（互換性チェックに使用）
+  sheets: RecipeSheet[];
+  activeSheet: string;
+  inputCount: number;
+  model: string;
+  createdAt: number;
+}
+
+export interface RecipeCompatibility {
+  errors: string[];
+  warnings: string[];
+}
+
+const EXPORT_FORMAT = 'excel-autopilot-recipes';
+const EXPORT_VERSION = 1;
+
+// ヘッダーが空の列は "(列B)" のような仮の名前になるため、照合の対象外とする
+const isPlaceholderColumn = (name: string) => /^\(列[A-Z]+\)$/.test(name);
+
+export const createRecipe = (
+  name: string,
+  plan: InstructionPlan,
+  scripts: string[],
+  taskPlans: (ConfirmedPlan | undefined)[],
+  assertionSets: OutputAssertion[][],
+  profile: WorkbookProfile,
+  inputCount: number,
+  model: string
+): Recipe => ({
+  id: crypto.randomUUID(),
+  name,
+  source: plan.source,
+  steps: plan.steps.map((instruction, i) => ({ instruction, script: scripts[i], plan: taskPlans[i], assertions: assertionSets[i] })),
+  sheets: profile.sheets.map(sheet => ({
+    name: sheet.name,
+    headerRow: sheet.headerRow,
+    columns: sheet.columns.filter(c => !isPlaceholderColumn(c.name)).map(c => ({ name: c.name, type: c.type })),
+  })),
+  activeSheet: profile.activeSheet,
+  inputCount,
+  model,
+  createdAt: Date.now(),
+});
+
+// CLI の --script で渡されたスクリプト。列の互換性チェックは行わない
+export const scriptRecipe = (name: string, scripts: string[], instruction: string, inputCount: number): Recipe => ({
+  id: crypto.randomUUID(),
+  name,
+  source: 'prompt',
+  steps: scripts.map(script => ({ instruction, script })),
+  sheets: [],
+  activeSheet: '',
+  inputCount,
+  model: '',
+  createdAt: Date.now(),
+});
+
+export const recipePlan = (recipe: Recipe): InstructionPlan => ({
+  source: recipe.source,
+  steps: recipe.steps.map(s => s.instruction),
+});
+
+// 生成時に存在した列が新しいファイルにない場合はエラー、型やヘッダー行の違いは警告とする
+export const checkRecipeCompatibility = (recipe: Recipe, profile: WorkbookProfile, inputCount: number): RecipeCompatibility => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (recipe.inputCount !== inputCount) {
+    errors.push(`このレシピは ${recipe.inputCount} 個のファイルを前提としていますが、${inputCount} 個のファイルが選択されました。`);
+  }
+
+  recipe.sheets.forEach(expected => {
+    let actual = profile.sheets.find(s => s.name === expected.name);
+    // 単一シートのブックはシート名が変わっていてもアクティブシート同士を比較する
+    if (!actual && recipe.sheets.length === 1 && profile.sheets.length === 1) {
+      actual = profile.sheets[0];
+      warnings.push(`シート名が「${expected.name}」から「${actual.name}」に変わっています。`);
+    }
+    if (!actual) {
+      errors.push(`シート「${expected.name}」が見つかりません。`);
+      return;
+    }
+
+    const missing = expected.columns.filter(c => !actual!.columns.some(a => a.name === c.name));
+    if (missing.length > 0) {
+      errors.push(`シート「${actual.name}」に列 ${missing.map(c => `「${c.name}」`).join('')} がありません。`);
+    }
+    if (actual.headerRow !== expected.headerRow) {
+      warnings.push(`シート「${actual.name}」のヘッダー行が ${expected.headerRow} 行目から ${actual.headerRow} 行目に変わっています。`);
+    }
+    expected.columns.forEach(c => {
+      const column = actual!.columns.find(a => a.name === c.name);
+      if (column && column.type !== c.type && ![column.type, c.type].some(t => t === 'empty' || t === 'mixed')) {
+        warnings.push(`シート「${actual!.name}」の列「${c.name}」の型が ${c.type} から ${column.type} に変わっています。`);
+      }
+    });
+  });
+
+  return { errors, warnings };
+};
+
+export const loadRecipes = async (): Promise<Recipe[]> => {
+  const recipes = await getAllRecords<Recipe>('recipes');
+  return recipes.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveRecipe = (recipe: Recipe) => putRecord('recipes', recipe);
+
+export const deleteRecipe = (id: string) => deleteRecord('recipes', id);
+
+export const exportRecipes = (recipes: Recipe[]): Blob =>
+  new Blob([JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, recipes }, null, 2)], { type: 'application/json' });
+
+const COLUMN_TYPES: ColumnProfile['type'][] = ['number', 'text', 'date', 'boolean', 'mixed', 'empty'];
+
+// 互換性チェックで参照する項目を確認する
+const isRecipeSheet = (value: any): value is RecipeSheet =>
+  !!value && typeof value.name === 'string' && typeof value.headerRow === 'number' &&
+  Array.isArray(value.columns) && value.columns.every((c: any) => c && typeof c.name === 'string' && COLUMN_TYPES.includes(c.type));
+
+const isRecipe = (value: any): value is Recipe =>
+  value && typeof value.id === 'string' && typeof value.name === 'string' &&
+  Array.isArray(value.steps) && value.steps.length > 0 &&
+  value.steps.every((s: any) => typeof s.instruction === 'string' && typeof s.script === 'string' && (s.plan === undefined || isConfirmedPlan(s.plan)) &&
+    (s.assertions === undefined || (Array.isArray(s.assertions) && s.assertions.every(isOutputAssertion)))) &&
+  Array.isArray(value.sheets) && value.sheets.every(isRecipeSheet) && typeof value.inputCount === 'number';
+
+// 同じ id のレシピは上書きする（共有されたレシピの更新を取り込めるように）。形式の正しくないレシピが含まれる場合は1件も読み込まない
+export const importRecipes = async (json: string): Promise<Recipe[]> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("JSON として読み込めませんでした。");
+  }
+  if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.recipes)) {
+    throw new Error("レシピのエクスポートファイルではありません。");
+  }
+  if (parsed.version > EXPORT_VERSION) {
+    throw new Error("新しいバージョンで作成されたレシピファイルです。アプリを更新してください。");
+  }
+  const invalid = parsed.recipes.filter((r: any) => !isRecipe(r));
+  if (invalid.length > 0) {
+    const names = invalid.map((r: any) => typeof r?.name === 'string' ? `「${r.name}」` : '(名前なし)').join('');
+    throw new Error(`形式が正しくないレシピが ${invalid.length} 件含まれています: ${names}`);
+  }
+  const recipes: Recipe[] = parsed.recipes.map((r: Recipe) => ({
+    ...r,
+    source: r.source ?? 'prompt',
+    activeSheet: r.activeSheet ?? '',
+    model: r.model ?? '',
+    createdAt: typeof r.createdAt === 'number' ? r.createdAt : Date.now(),
+  }));
+  for (const recipe of recipes) {
+    await saveRecipe(recipe);
+  }
+  return recipes;
+};
@@ -0,0 +1,56 @@
+import { TokenUsage } from './llm';
+
+export type RunPhase = 'boot' | 'read' | 'plan' | 'generate' | 'execute' | 'verify' | 'compare';
+
+export const RUN_PHASE_LABELS: Record<RunPhase, string> = {
+  boot: 'Python起動',
+  read: '読み込み・解析',
+  plan: '作業計画',
+  generate: 'コード生成',
+  execute: '実行',
+  verify: '出力の検証',
+  compare: '差分計算',
+};
+
+// 1ジョブ分の処理時間と AI の使用量。手順が複数ある場合や修復を行った場合は合算する
+export interface RunMetrics {
+  startedAt: number;
+  finishedAt?: number;
+  // ミリ秒
+  timings: Record<RunPhase, number>;
+  usage: Required<TokenUsage>;
+  llmCalls: number;
+  // 使用量を返さなかった呼び出しがあった場合、usage は実際より少ない
+  usageIncomplete: boolean;
+}
+
+// Python の起動はページ読み込み時に1回だけ行われるため、その時間を各ジョブに含める
+export const createRunMetrics = (bootMs: number): RunMetrics => ({
+  startedAt: Date.now(),
+  timings: { boot: bootMs, read: 0, plan: 0, generate: 0, execute: 0, verify: 0, compare: 0 },
+  usage: { prompt: 0, completion: 0, total: 0 },
+  llmCalls: 0,
+  usageIncomplete: false,
+});
+
+export const addUsage = (metrics: RunMetrics | null, usage: TokenUsage | undefined) => {
+  if (!metrics) return;
+  metrics.llmCalls++;
+  if (!usage) {
+    metrics.usageIncomplete = true;
+    return;
+  }
+  metrics.usage.prompt += usage.prompt ?? 0;
+  metrics.usage.completion += usage.completion ?? 0;
+  metrics.usage.total += usage.total ?? (usage.prompt ?? 0) + (usage.completion ?? 0);
+};
+
+// 失敗した場合も経過時間は記録する
+export const measure = async <T>(metrics: RunMetrics | null, phase: RunPhase, task: () => Promise<T>): Promise<T> => {
+  const started = performance.now();
+  try {
+    return await task();
+  } finally {
+    if (metrics) metrics.timings[phase] += performance.now() - started;
+  }
+};
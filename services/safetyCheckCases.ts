@@ -0,0 +1,162 @@
+import { RawViolation } from './safetyPolicy';
+
+// 生成コードの静的チェック (CHECK_SCRIPT) の回帰テスト。DEFAULT_SAFETY_POLICY で検査し、検出された規則の集合を比べる
+export interface SafetyCheckCase {
+  name: string;
+  source: string;
+  // 検出されるべき規則（空なら違反なし）
+  rules: RawViolation['rule'][];
+}
+
+export interface SafetyCheckReport {
+  testsRun: number;
+  failures: { test: string; expected: RawViolation['rule'][]; actual: RawViolation[] }[];
+}
+
+export const SAFETY_CHECK_CASES: SafetyCheckCase[] = [
+  // 許可される書き込み
+  {
+    name: '文字列で指定した output.xlsx',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\ndf.to_excel("output.xlsx", index=False)`,
+    rules: [],
+  },
+  {
+    name: '定数の変数経由の出力先',
+    source: `import openpyxl\nOUTPUT = "output.xlsx"\nwb = openpyxl.load_workbook("input.xlsx")\nwb.save(OUTPUT)`,
+    rules: [],
+  },
+  {
+    name: 'f-string で名前を埋め込んだ output_<名前>.xlsx',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\nfor name, group in df.groupby("部署"):\n    group.to_excel(f"output_{name}.xlsx", index=False)`,
+    rules: [],
+  },
+  {
+    name: 'format で名前を埋め込んだ output_<名前>.xlsx',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\nfor i in range(3):\n    df.to_excel("output_{}.xlsx".format(i))`,
+    rules: [],
+  },
+  {
+    name: 'with で開いた ExcelWriter への書き込み',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\nwith pd.ExcelWriter("output.xlsx") as writer:\n    df.to_excel(writer, sheet_name="集計")`,
+    rules: [],
+  },
+  {
+    name: '出力先を指定しない to_csv()',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\ntext = df.to_csv(index=False)`,
+    rules: [],
+  },
+  {
+    name: '読み込みモードの open()',
+    source: `with open("input.xlsx", "rb") as f:\n    data = f.read()`,
+    rules: [],
+  },
+  {
+    name: 'リストの remove と DataFrame の rename',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\ncols = list(df.columns)\ncols.remove("備考")\ndf = df[cols].rename(columns={"氏名": "名前"})\ndf.to_excel("output.xlsx", index=False)`,
+    rules: [],
+  },
+  // 出力先を特定できない・許可パス以外への書き込み
+  {
+    name: 'f-string で上の階層を指す出力先',
+    source: `import pandas as pd\ndf = pd.read_excel("input.xlsx")\nname = df.columns[0]\ndf.to_excel(f"../{name}")`,
+    rules: ['file-write'],
+  },
+  {
+    name: '不明な変数との連結による出力先',
+    source: `import openpyxl\ndef save(wb, base):\n    wb.save(base + ".xlsx")`,
+    rules: ['file-write'],
+  },
+  {
+    name: '値を特定できない ExcelWriter の出力先',
+    source: `import pandas as pd\nimport json\nvar = json.loads('"output.xlsx"')\nwriter = pd.ExcelWriter(var)`,
+    rules: ['file-write'],
+  },
+  {
+    name: '絶対パスへの保存',
+    source: `import openpyxl\nwb = openpyxl.Workbook()\nwb.save("/tmp/output.xlsx")`,
+    rules: ['file-write'],
+  },
+  {
+    name: 'パターンに合っても上の階層に移るパス',
+    source: `import openpyxl\nwb = openpyxl.Workbook()\nwb.save("output_/../../etc/x.xlsx")`,
+    rules: ['file-write'],
+  },
+  {
+    name: '二度代入された変数の出力先',
+    source: `import openpyxl\nwb = openpyxl.Workbook()\npath = "output.xlsx"\npath = "../output.xlsx"\nwb.save(path)`,
+    rules: ['file-write'],
+  },
+  {
+    name: '書き込みモードの open()',
+    source: `with open("log.txt", "w") as f:\n    f.write("done")`,
+    rules: ['file-write'],
+  },
+  {
+    name: 'モードを特定できない open()',
+    source: `import json\nmode = json.loads('"w"')\nwith open("output.xlsx.bak", mode) as f:\n    f.write("x")`,
+    rules: ['file-write'],
+  },
+  {
+    name: 'Path の write_text',
+    source: `from pathlib import Path\nPath("log.txt").write_text("done")`,
+    rules: ['disallowed-import', 'file-write'],
+  },
+  // 許可したモジュールの属性をたどったシステム系モジュールへのアクセス
+  {
+    name: 'pandas 経由の os.remove',
+    source: `import pandas as pd\npd.io.common.os.remove("input.xlsx")`,
+    rules: ['disallowed-import', 'file-write'],
+  },
+  {
+    name: 'pandas 経由の os.system',
+    source: `import pandas as pd\npd.io.common.os.system("ls")`,
+    rules: ['disallowed-import'],
+  },
+  {
+    name: '許可したモジュールからの os の取り込み',
+    source: `from pandas.io.common import os\nos.rename("input.xlsx", "output.xlsx")`,
+    rules: ['disallowed-import', 'file-write'],
+  },
+  {
+    name: 'openpyxl 経由の Path の unlink',
+    source: `import openpyxl\np = openpyxl.reader.excel.pathlib.Path("input.xlsx")\np.unlink()`,
+    rules: ['disallowed-import', 'file-write'],
+  },
+  // 動的実行・動的な属性アクセス
+  {
+    name: '__builtins__ の参照',
+    source: `b = __builtins__\nprint(b)`,
+    rules: ['dynamic-exec'],
+  },
+  {
+    name: 'getattr による open の取得',
+    source: `f = getattr(__builtins__, "open")`,
+    rules: ['dynamic-exec'],
+  },
+  {
+    name: 'setattr',
+    source: `import pandas as pd\nsetattr(pd, "read_excel", print)`,
+    rules: ['dynamic-exec'],
+  },
+  {
+    name: 'vars() と globals()',
+    source: `v = vars()\ng = globals()["__name__"]`,
+    rules: ['dynamic-exec'],
+  },
+  // URL
+  {
+    name: '連結で組み立てた URL',
+    source: `import pandas as pd\nhost = "example.com"\ndf = pd.read_csv("https://" + host + "/data.csv")`,
+    rules: ['network'],
+  },
+  {
+    name: 'f-string で組み立てた URL',
+    source: `import pandas as pd\nimport json\nscheme = json.loads('"https"')\ndf = pd.read_csv(f"{scheme}://example.com/data.csv")`,
+    rules: ['network'],
+  },
+  {
+    name: 'キーワード引数の URL',
+    source: `import pandas as pd\ndf = pd.read_csv(filepath_or_buffer="http://example.com/data.csv")`,
+    rules: ['network'],
+  },
+];
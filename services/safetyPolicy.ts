@@ -0,0 +1,71 @@
+export type SafetyRuleId = 'disallowed-import' | 'js-access' | 'network' | 'dynamic-exec' | 'file-write';
+export type SafetyRuleAction = 'block' | 'warn' | 'off';
+
+export interface SafetyPolicy {
+  allowedImports: string[];
+  allowedWritePaths: string[];
+  rules: Record<SafetyRuleId, SafetyRuleAction>;
+  // ブロック対象の違反があった場合に実行を止めるか、違反内容を伝えて再生成するか
+  onViolation: 'stop' | 'regenerate';
+}
+
+// ワーカー内の ast チェッカーが返す生の違反情報
+export interface RawViolation {
+  rule: SafetyRuleId | 'syntax';
+  line: number;
+  message: string;
+}
+
+export interface SafetyViolation extends RawViolation {
+  action: Exclude<SafetyRuleAction, 'off'>;
+}
+
+export const SAFETY_RULE_LABELS: Record<SafetyRuleId, string> = {
+  'disallowed-import': '許可リスト外のインポート',
+  'js-access': 'js / pyodide モジュールへのアクセス',
+  'network': 'ネットワーク通信',
+  'dynamic-exec': 'eval / exec 等の動的実行',
+  'file-write': '許可パス以外・特定できないパスへの書き込み',
+};
+
+const POLICY_KEY = 'excel_autopilot_safety_policy_v1';
+
+export const DEFAULT_SAFETY_POLICY: SafetyPolicy = {
+  allowedImports: ['pandas', 'openpyxl', 'json', 're', 'datetime', 'math'],
+  allowedWritePaths: ['output.xlsx', 'output_*.xlsx'],
+  rules: {
+    'disallowed-import': 'block',
+    'js-access': 'block',
+    'network': 'block',
+    'dynamic-exec': 'block',
+    'file-write': 'block',
+  },
+  onViolation: 'regenerate',
+};
+
+export const loadSafetyPolicy = (): SafetyPolicy => {
+  try {
+    const stored = localStorage.getItem(POLICY_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return { ...DEFAULT_SAFETY_POLICY, ...parsed, rules: { ...DEFAULT_SAFETY_POLICY.rules, ...parsed.rules } };
+    }
+  } catch (e) {}
+  return DEFAULT_SAFETY_POLICY;
+};
+
+export const saveSafetyPolicy = (policy: SafetyPolicy) => {
+  try {
+    localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+  } catch (e) {}
+};
+
+// 構文エラーは実行しても必ず失敗するため、常にブロック扱いとする
+export const evaluateViolations = (raw: RawViolation[], policy: SafetyPolicy): SafetyViolation[] =>
+  raw.flatMap(v => {
+    const action = v.rule === 'syntax' ? 'block' : policy.rules[v.rule];
+    return action === 'off' ? [] : [{ ...v, action }];
+  });
+
+export const formatViolation = (v: SafetyViolation): string =>
+  `L${v.line} [${v.rule}] ${v.message}`;
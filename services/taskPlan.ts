@@ -0,0 +1,114 @@
+// コード生成前の作業計画。AI は計画か確認の質問のどちらかを JSON で返す
+
+export interface PlannedColumn {
+  sheet?: string;
+  name: string;
+  // 参照・変更・追加・削除など、その列に対して行うこと
+  change: string;
+}
+
+export interface TaskPlan {
+  summary: string;
+  steps: string[];
+  columns: PlannedColumn[];
+  // 期待される出力の形（シート・行数・列構成など）
+  output: string;
+}
+
+export interface ClarifyingQuestion {
+  question: string;
+  // 選択肢（自由回答のみの場合は空）
+  options: string[];
+}
+
+export interface PlanAnswer {
+  question: string;
+  answer: string;
+}
+
+export type PlanDraft =
+  | { type: 'plan'; plan: TaskPlan }
+  | { type: 'questions'; questions: ClarifyingQuestion[] };
+
+// 利用者が確認した計画。生成・修復のプロンプトに含め、生成されたコードと一緒に保存する
+export interface ConfirmedPlan {
+  plan: TaskPlan;
+  answers: PlanAnswer[];
+  confirmedAt: number;
+}
+
+export const MAX_QUESTIONS = 3;
+
+// 回答が空欄の質問は AI の判断に任せる
+export const UNANSWERED = '(おまかせ)';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isTaskPlan = (value: any): value is TaskPlan =>
+  !!value && isString(value.summary) && isStringArray(value.steps) && isString(value.output) &&
+  Array.isArray(value.columns) &&
+  value.columns.every((c: any) => c && isString(c.name) && isString(c.change) && (c.sheet === undefined || isString(c.sheet)));
+
+export const isPlanAnswers = (value: unknown): value is PlanAnswer[] =>
+  Array.isArray(value) && value.every(a => a && isString(a.question) && isString(a.answer));
+
+// API ルートとレシピの読み込みで、外部から渡された計画を確認する
+export const isConfirmedPlan = (value: any): value is ConfirmedPlan =>
+  !!value && isTaskPlan(value.plan) && isPlanAnswers(value.answers) && typeof value.confirmedAt === 'number';
+
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) return fenced[1].trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+};
+
+// AI の応答を解釈する。列の sheet が null の場合などは取り除いて受け入れる
+export const parsePlanDraft = (text: string): PlanDraft => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (e) {
+    throw new Error("AIの作業計画を JSON として読み取れませんでした。");
+  }
+
+  if (parsed?.type === 'questions' && Array.isArray(parsed.questions)) {
+    const questions: ClarifyingQuestion[] = parsed.questions
+      .filter((q: any) => q && isString(q.question) && q.question.trim())
+      .slice(0, MAX_QUESTIONS)
+      .map((q: any) => ({ question: q.question.trim(), options: isStringArray(q.options) ? q.options : [] }));
+    if (questions.length > 0) return { type: 'questions', questions };
+  }
+
+  if (parsed?.type === 'plan') {
+    const plan = {
+      summary: parsed.summary,
+      steps: parsed.steps,
+      columns: Array.isArray(parsed.columns)
+        ? parsed.columns.map((c: any) => ({ ...c, sheet: isString(c?.sheet) && c.sheet ? c.sheet : undefined }))
+        : [],
+      output: parsed.output,
+    };
+    if (isTaskPlan(plan)) return { type: 'plan', plan };
+  }
+
+  throw new Error("AIの作業計画の形式が正しくありません。");
+};
+
+// プロンプト・ログ・コード表示で共通の書式
+export const formatPlan = ({ plan, answers }: Pick<ConfirmedPlan, 'plan' | 'answers'>): string => [
+  `概要: ${plan.summary}`,
+  '手順:',
+  ...plan.steps.map((step, i) => `  ${i + 1}. ${step}`),
+  ...(plan.columns.length > 0
+    ? ['対象の列:', ...plan.columns.map(c => `  - ${c.sheet ? `${c.sheet}!` : ''}${c.name}: ${c.change}`)]
+    : []),
+  `出力: ${plan.output}`,
+  ...(answers.length > 0 ? ['確認事項:', ...answers.map(a => `  - ${a.question} → ${a.answer}`)] : []),
+].join('\n');
+
+// 履歴からコピーするスクリプトの先頭に付ける
+export const planComment = (confirmed: ConfirmedPlan): string =>
+  ['# 作業計画', ...formatPlan(confirmed).split('\n').map(line => `# ${line}`)].join('\n');
@@ -0,0 +1,31 @@
+import { UsageEvent, UsageSnapshot, UsageStore } from './types';
+
+// チーム向けの共有サーバーに記録する。期間の区切りと上限はサーバー側の設定に従う
+//   GET  {endpoint}/usage?user=<id>          → UsageSnapshot
+//   POST {endpoint}/usage  { user, ...UsageEvent } → UsageSnapshot
+export const createHttpUsageStore = (endpoint: string, userId: string): UsageStore => {
+  const request = async (path: string, init?: RequestInit): Promise<UsageSnapshot> => {
+    if (!endpoint) {
+      throw new Error("使用量サーバーのURLが設定されていません。使用量パネルで入力してください。");
+    }
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`使用量サーバーのエラー (HTTP ${response.status}): ${body || response.statusText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    id: 'http',
+    label: 'HTTPサーバー',
+    getSnapshot: () => request(`/usage?user=${encodeURIComponent(userId)}`),
+    record: (event: UsageEvent) => request('/usage', {
+      method: 'POST',
+      body: JSON.stringify({ user: userId, ...event }),
+    }),
+  };
+};
@@ -0,0 +1,60 @@
+import { UsageSettings, UsageSnapshot, UsageStore, UsageStoreId, ResetTimeZone } from './types';
+import { createLocalUsageStore } from './localUsageStore';
+import { createHttpUsageStore } from './httpUsageStore';
+
+export type { UsageDay, UsageEvent, UsageLimit, UsageSettings, UsageSnapshot, UsageStore, UsageStoreId, ResetTimeZone } from './types';
+export { recentPeriods } from './period';
+
+const SETTINGS_KEY = 'excel_autopilot_usage_settings_v1';
+
+export const USAGE_STORE_LABELS: Record<UsageStoreId, string> = {
+  local: 'このブラウザ (localStorage)',
+  http: 'HTTPサーバー (チーム共有)',
+};
+
+export const RESET_TIME_ZONE_LABELS: Record<ResetTimeZone, string> = {
+  local: 'ローカル時刻',
+  utc: 'UTC',
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  store: 'local',
+  endpoint: 'http://localhost:8787',
+  userId: '',
+  maxCalls: 50,
+  maxTokens: 0,
+  resetHour: 0,
+  resetTimeZone: 'local',
+};
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {}
+  return DEFAULT_USAGE_SETTINGS;
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {}
+};
+
+export const getUsageStore = (settings: UsageSettings): UsageStore => {
+  switch (settings.store) {
+    case 'http':
+      return createHttpUsageStore(settings.endpoint, settings.userId);
+    case 'local':
+    default:
+      return createLocalUsageStore(settings);
+  }
+};
+
+// 無制限の場合は null
+export const remainingCalls = (snapshot: UsageSnapshot): number | null =>
+  snapshot.limit.calls > 0 ? Math.max(0, snapshot.limit.calls - snapshot.calls) : null;
+
+export const isOverLimit = (snapshot: UsageSnapshot): boolean =>
+  (snapshot.limit.calls > 0 && snapshot.calls >= snapshot.limit.calls) ||
+  (snapshot.limit.tokens > 0 && snapshot.tokens >= snapshot.limit.tokens);
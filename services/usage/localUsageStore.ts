@@ -0,0 +1,64 @@
+import { UsageDay, UsageEvent, UsageSettings, UsageSnapshot, UsageStore } from './types';
+import { periodKey, nextReset } from './period';
+
+const STORAGE_KEY = 'excel_autopilot_usage_v6';
+// これより古い日の記録は削除する
+const HISTORY_DAYS = 30;
+
+const loadDays = (): UsageDay[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const days = JSON.parse(stored);
+      if (Array.isArray(days)) return days;
+    }
+  } catch (e) {}
+  return [];
+};
+
+const saveDays = (days: UsageDay[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(days.slice(-HISTORY_DAYS)));
+  } catch (e) {}
+};
+
+// このブラウザの localStorage に記録する（開発者ツールから消去できるため、共有環境では HTTP ストアを使う）
+export const createLocalUsageStore = (settings: UsageSettings): UsageStore => {
+  const snapshot = (days: UsageDay[]): UsageSnapshot => {
+    const now = Date.now();
+    const period = periodKey(now, settings.resetHour, settings.resetTimeZone);
+    const current = days.find(d => d.date === period);
+    return {
+      period,
+      resetsAt: nextReset(now, settings.resetHour, settings.resetTimeZone),
+      calls: current?.calls ?? 0,
+      tokens: current?.totalTokens ?? 0,
+      limit: { calls: settings.maxCalls, tokens: settings.maxTokens },
+      history: days.slice(-HISTORY_DAYS),
+    };
+  };
+
+  return {
+    id: 'local',
+    label: 'このブラウザ',
+    getSnapshot: async () => snapshot(loadDays()),
+    record: async (event: UsageEvent) => {
+      const days = loadDays();
+      const date = periodKey(event.at, settings.resetHour, settings.resetTimeZone);
+      let day = days.find(d => d.date === date);
+      if (!day) {
+        day = { date, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        days.push(day);
+        days.sort((a, b) => a.date.localeCompare(b.date));
+      }
+      const prompt = event.usage?.prompt ?? 0;
+      const completion = event.usage?.completion ?? 0;
+      day.calls++;
+      day.promptTokens += prompt;
+      day.completionTokens += completion;
+      day.totalTokens += event.usage?.total ?? prompt + completion;
+      saveDays(days);
+      return snapshot(days);
+    },
+  };
+};
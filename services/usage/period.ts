@@ -0,0 +1,33 @@
+import { ResetTimeZone } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// リセット時刻より前は前日の期間として扱う（例: 5時リセットなら 4:59 は前日分）
+export const periodKey = (time: number, resetHour: number, timeZone: ResetTimeZone): string => {
+  const shifted = new Date(time - resetHour * HOUR_MS);
+  return timeZone === 'utc'
+    ? `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`
+    : `${shifted.getFullYear()}-${pad(shifted.getMonth() + 1)}-${pad(shifted.getDate())}`;
+};
+
+export const nextReset = (time: number, resetHour: number, timeZone: ResetTimeZone): number => {
+  const d = new Date(time);
+  if (timeZone === 'utc') {
+    const today = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), resetHour);
+    return today > time ? today : today + DAY_MS;
+  }
+  const today = new Date(d.getFullYear(), d.getMonth(), d.getDate(), resetHour).getTime();
+  return today > time ? today : new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1, resetHour).getTime();
+};
+
+// period から n 日前までの期間キー（古い順）。グラフで記録のない日も表示するために使う
+export const recentPeriods = (period: string, days: number): string[] => {
+  const [y, m, d] = period.split('-').map(Number);
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(y, m - 1, d - (days - 1 - i)));
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  });
+};
@@ -0,0 +1,61 @@
+import { TokenUsage } from '../llm';
+
+export type UsageStoreId = 'local' | 'http';
+
+export type ResetTimeZone = 'local' | 'utc';
+
+export interface UsageSettings {
+  store: UsageStoreId;
+  // HTTP ストアのベースURL（例: http://localhost:8787）
+  endpoint: string;
+  // HTTP ストアでの利用者の識別子。上限は利用者ごとにサーバー側で管理される
+  userId: string;
+  // 以下はこのブラウザに記録する場合の上限（0 は無制限）
+  maxCalls: number;
+  maxTokens: number;
+  // 1日の区切りとなる時刻（0〜23時）
+  resetHour: number;
+  resetTimeZone: ResetTimeZone;
+}
+
+// 課金対象となる AI 呼び出し。失敗・中断した呼び出しは記録しない
+export interface UsageEvent {
+  kind: 'plan' | 'generate' | 'repair';
+  model: string;
+  usage?: TokenUsage;
+  at: number;
+}
+
+export interface UsageDay {
+  // 期間の開始日（YYYY-MM-DD）
+  date: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageLimit {
+  // 0 は無制限
+  calls: number;
+  tokens: number;
+}
+
+export interface UsageSnapshot {
+  // 現在の期間（YYYY-MM-DD）
+  period: string;
+  // 次にリセットされる時刻（ミリ秒）
+  resetsAt: number;
+  calls: number;
+  tokens: number;
+  limit: UsageLimit;
+  // 古い順。現在の期間を含む
+  history: UsageDay[];
+}
+
+export interface UsageStore {
+  readonly id: UsageStoreId;
+  readonly label: string;
+  getSnapshot(): Promise<UsageSnapshot>;
+  record(event: UsageEvent): Promise<UsageSnapshot>;
+}
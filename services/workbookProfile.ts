@@ -0,0 +1,118 @@
+import { WorkbookProfile, SheetProfile, ColumnProfile } from './pyodideProtocol';
+
+// プロンプトに含めるブック構成の上限（文字数）。日本語では概ね1文字≒1トークン
+export const PROFILE_CHAR_BUDGET = 3000;
+
+interface SummaryDetail {
+  samples: boolean;
+  maxColumns: number;
+}
+
+// 詳細度の高い順に試し、予算内に収まった最初の形式を採用する
+const DETAIL_LEVELS: SummaryDetail[] = [
+  { samples: true, maxColumns: 40 },
+  { samples: false, maxColumns: 40 },
+  { samples: false, maxColumns: 15 },
+];
+
+const TYPE_LABELS: Record<ColumnProfile['type'], string> = {
+  number: '数値',
+  text: '文字列',
+  date: '日付',
+  boolean: '真偽',
+  mixed: '混在',
+  empty: '空',
+};
+
+const summarizeColumn = (column: ColumnProfile, detail: SummaryDetail) => {
+  const parts = [`${column.letter}:${column.name}(${TYPE_LABELS[column.type]}`];
+  if (column.nullRatio > 0) parts.push(`,空${Math.round(column.nullRatio * 100)}%`);
+  parts.push(')');
+  if (detail.samples && column.samples.length > 0) parts.push(` 例:${column.samples.join('/')}`);
+  return parts.join('');
+};
+
+const summarizeSheet = (sheet: SheetProfile, isActive: boolean, detail: SummaryDetail) => {
+  const lines = [
+    `■ シート「${sheet.name}」${isActive ? '(アクティブ)' : ''} 範囲:${sheet.dimensions} ヘッダー行:${sheet.headerRow}` +
+      (sheet.formulaCount > 0 ? ` 数式:${sheet.formulaCount}セル` : ''),
+  ];
+  const columns = sheet.columns.slice(0, detail.maxColumns).map(c => `  - ${summarizeColumn(c, detail)}`);
+  lines.push(...columns);
+  if (sheet.columns.length > detail.maxColumns) {
+    lines.push(`  - ...他 ${sheet.columns.length - detail.maxColumns} 列`);
+  }
+  if (sheet.mergedRanges.length > 0) {
+    lines.push(`  結合セル: ${sheet.mergedRanges.slice(0, 10).join(', ')}${sheet.mergedRanges.length > 10 ? ' ...' : ''}`);
+  }
+  return lines.join('\n');
+};
+
+const render = (profile: WorkbookProfile, detail: SummaryDetail) => {
+  const blocks = profile.sheets.map(s => summarizeSheet(s, s.name === profile.activeSheet, detail));
+  if (profile.namedRanges.length > 0) {
+    blocks.push(`■ 名前付き範囲: ${profile.namedRanges.join(', ')}`);
+  }
+  return blocks.join('\n');
+};
+
+export const summarizeProfile = (profile: WorkbookProfile, budget: number = PROFILE_CHAR_BUDGET): string => {
+  if (profile.sheets.length === 0) return '(ブック構成を取得できませんでした)';
+
+  for (const detail of DETAIL_LEVELS) {
+    const text = render(profile, detail);
+    if (text.length <= budget) return text;
+  }
+
+  // 最小の詳細度でも収まらない場合は、アクティブシートを優先してシート単位で切り詰める
+  const minimal = DETAIL_LEVELS[DETAIL_LEVELS.length - 1];
+  const ordered = [...profile.sheets].sort((a, b) => Number(b.name === profile.activeSheet) - Number(a.name === profile.activeSheet));
+  const blocks: string[] = [];
+  let length = 0;
+  for (const sheet of ordered) {
+    const block = summarizeSheet(sheet, sheet.name === profile.activeSheet, minimal);
+    if (blocks.length > 0 && length + block.length > budget) break;
+    blocks.push(block);
+    length += block.length + 1;
+  }
+  if (blocks.length < ordered.length) {
+    blocks.push(`■ ...他 ${ordered.length - blocks.length} シート (${ordered.slice(blocks.length).map(s => s.name).join(', ')})`);
+  }
+  return blocks.join('\n').slice(0, budget);
+};
+
+// プロンプトに渡す入力ファイル1つ分の情報
+export interface WorkbookContext {
+  path: string;
+  fileName: string;
+  primary: boolean;
+  profile: WorkbookProfile;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isColumnProfile = (value: any): value is ColumnProfile =>
+  !!value && isString(value.name) && isString(value.letter) && value.type in TYPE_LABELS &&
+  typeof value.nullRatio === 'number' && isStringArray(value.samples);
+
+const isSheetProfile = (value: any): value is SheetProfile =>
+  !!value && isString(value.name) && isString(value.dimensions) && typeof value.headerRow === 'number' &&
+  typeof value.formulaCount === 'number' && Array.isArray(value.columns) && value.columns.every(isColumnProfile) &&
+  isStringArray(value.mergedRanges);
+
+// API ルートで、クライアントから渡されたブック構成を要約できる形か確認する
+export const isWorkbookContext = (value: any): value is WorkbookContext =>
+  !!value && isString(value.path) && isString(value.fileName) && typeof value.primary === 'boolean' &&
+  !!value.profile && isString(value.profile.activeSheet) && Array.isArray(value.profile.sheets) &&
+  value.profile.sheets.every(isSheetProfile) && isStringArray(value.profile.namedRanges);
+
+// 複数ファイルの場合は予算をファイル数で分配する
+export const summarizeWorkbooks = (workbooks: WorkbookContext[], budget: number = PROFILE_CHAR_BUDGET): string => {
+  if (workbooks.length === 1) return summarizeProfile(workbooks[0].profile, budget);
+
+  const perFile = Math.floor(budget / workbooks.length);
+  return workbooks
+    .map(w => `### ${w.path} (元ファイル名: ${w.fileName})${w.primary ? ' ※メイン。input.xlsx としても配置済み' : ''}\n${summarizeProfile(w.profile, perFile)}`)
+    .join('\n');
+};
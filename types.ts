@@ -1,18 +1,81 @@
+import { DiffLine } from './utils/codeDiff';
+import { ConfirmedPlan } from './services/taskPlan';
+import { AssertionResult } from './services/pyodideProtocol';
+import { PiiCategory, PrivacyMode } from './services/privacy';
+
 export enum AppStatus {
   IDLE = 'IDLE',
   BOOTING_PYTHON = 'BOOTING_PYTHON',
   READING_FILE = 'READING_FILE',
   ANALYZING_INSTRUCTION = 'ANALYZING_INSTRUCTION',
+  PLANNING = 'PLANNING',
+  // AI が返した作業計画（または確認の質問）を利用者が確認している
+  AWAITING_PLAN = 'AWAITING_PLAN',
   GENERATING_CODE = 'GENERATING_CODE',
+  AWAITING_APPROVAL = 'AWAITING_APPROVAL',
   EXECUTING_CODE = 'EXECUTING_CODE',
+  REPAIRING_CODE = 'REPAIRING_CODE',
+  VERIFYING_OUTPUT = 'VERIFYING_OUTPUT',
+  COMPARING_OUTPUT = 'COMPARING_OUTPUT',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
 }
 
+export type LogLevel = 'info' | 'success' | 'warning' | 'error' | 'code';
+
+// ログの発生元。llm は AI プロバイダーとの通信、python は生成コードの標準出力
+export type LogSource = 'app' | 'llm' | 'python' | 'pyodide';
+
+export interface LogPayload {
+  traceback?: string;
+  // 再試行・修復の何回目か
+  attempt?: number;
+  tokens?: { prompt?: number; completion?: number; total?: number };
+  stream?: 'stdout' | 'stderr';
+  // AI への送信記録。prompt は個人情報を置き換えた後の、実際に送信した内容
+  audit?: {
+    kind: string;
+    provider: string;
+    model: string;
+    mode: PrivacyMode;
+    replaced: Partial<Record<PiiCategory, number>>;
+    prompt: string;
+  };
+}
+
 export interface LogEntry {
   timestamp: Date;
   message: string;
-  type: 'info' | 'success' | 'warning' | 'error' | 'code';
+  type: LogLevel;
+  // 以前のバージョンで保存された履歴のログには無い
+  source?: LogSource;
+  stage?: AppStatus;
+  jobId?: string;
+  payload?: LogPayload;
+}
+
+export interface LogMeta {
+  source?: LogSource;
+  payload?: LogPayload;
+}
+
+export type LogCallback = (message: string, meta?: LogMeta) => void;
+
+export interface CodeAttempt {
+  round: number;
+  code: string;
+  error?: string;
+  diff?: DiffLine[];
+  // ユーザーがレビュー時に手動で編集したコードかどうか
+  edited?: boolean;
+  // 複数手順の指示の場合、何番目の手順（0始まり）のコードか
+  stage?: number;
+  // AI から受信中（code は途中までの内容）
+  streaming?: boolean;
+  // 生成前に確認した作業計画（計画の確認を行った場合のみ）
+  plan?: ConfirmedPlan;
+  // 出力の検証結果（検証項目がある手順で、実行に成功した場合のみ）
+  checks?: AssertionResult[];
 }
 
 export interface ExecutionResult {
@@ -0,0 +1,44 @@
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove';
+  text: string;
+}
+
+// 行単位の LCS による簡易 diff（生成スクリプト程度の行数を想定）
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const n = a.length;
+  const m = b.length;
+
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'remove', text: a[i++] });
+  while (j < m) result.push({ type: 'add', text: b[j++] });
+  return result;
+};
+
+// ログ表示用に変更行のみを "+ / -" 形式で整形
+export const formatDiff = (diff: DiffLine[]): string => {
+  const changed = diff.filter(line => line.type !== 'same');
+  if (changed.length === 0) return '(変更なし)';
+  return changed.map(line => `${line.type === 'add' ? '+' : '-'} ${line.text}`).join('\n');
+};
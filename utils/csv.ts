@@ -0,0 +1,9 @@
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(field => escapeCsvField(String(field))).join(',')).join('\r\n');
+
+// Excel で開いたときに文字化けしないよう UTF-8 BOM を付与する
+export const csvBlob = (rows: (string | number)[][]): Blob =>
+  new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
@@ -0,0 +1,21 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// 拡張子を除いたファイル名（例: "売上.xlsx" → "売上"）
+export const baseName = (fileName: string | undefined, fallback: string = "output") =>
+  fileName?.replace(/\.[^/.]+$/, "") || fallback;
+
+// "output.xlsx" → "<入力名>_編集済み.xlsx"、"output_東京.csv" → "<入力名>_東京.csv"
+export const outputDownloadName = (inputName: string | undefined, outputName: string) => {
+  const extension = outputName.match(/\.[^/.]+$/)?.[0] ?? '.xlsx';
+  const suffix = baseName(outputName, '').replace(/^output_?/, '');
+  return `${baseName(inputName)}_${suffix || '編集済み'}${extension}`;
+};
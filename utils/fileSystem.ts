@@ -0,0 +1,49 @@
+// File System Access API のうち、フォルダ選択のみを使う（Chromium 系のみ対応のため lib.dom に含まれない）
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export interface PickedFile {
+  file: File;
+  relativePath: string;
+}
+
+export const supportsDirectoryPicker = () => typeof window.showDirectoryPicker === 'function';
+
+const isFileHandle = (handle: FileSystemHandle): handle is FileSystemFileHandle => handle.kind === 'file';
+const isDirectoryHandle = (handle: FileSystemHandle): handle is FileSystemDirectoryHandle => handle.kind === 'directory';
+
+const collectFiles = async (dir: FileSystemDirectoryHandle, prefix: string, out: PickedFile[]) => {
+  for await (const entry of dir.values()) {
+    const path = `${prefix}${entry.name}`;
+    if (isFileHandle(entry)) {
+      out.push({ file: await entry.getFile(), relativePath: path });
+    } else if (isDirectoryHandle(entry)) {
+      await collectFiles(entry, `${path}/`, out);
+    }
+  }
+};
+
+// File System Access API でフォルダを選択し、サブフォルダを含む全ファイルを返す。キャンセル時は null
+export const pickDirectoryFiles = async (): Promise<PickedFile[] | null> => {
+  if (!window.showDirectoryPicker) throw new Error("このブラウザはフォルダの選択に対応していません。");
+  let dir: FileSystemDirectoryHandle;
+  try {
+    dir = await window.showDirectoryPicker();
+  } catch (e: any) {
+    if (e?.name === 'AbortError') return null;
+    throw e;
+  }
+  const files: PickedFile[] = [];
+  await collectFiles(dir, '', files);
+  return files;
+};
+
+// <input webkitdirectory> で選択されたファイル（フォルダ名を除いた相対パスにそろえる）
+export const fromDirectoryInput = (files: File[]): PickedFile[] =>
+  files.map(file => ({
+    file,
+    relativePath: (file.webkitRelativePath || file.name).split('/').slice(1).join('/') || file.name,
+  }));
@@ -0,0 +1,5 @@
+// ファイル内容の SHA-256（16進数）。同じ入力ファイルかどうかの確認に使う
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,68 @@
+import { AppStatus, LogEntry, LogLevel, LogSource } from '../types';
+
+export const LOG_LEVEL_LABELS: Record<LogLevel, string> = {
+  info: '情報',
+  success: '成功',
+  warning: '警告',
+  error: 'エラー',
+  code: 'コード',
+};
+
+export const LOG_SOURCE_LABELS: Record<LogSource, string> = {
+  app: 'アプリ',
+  llm: 'AI',
+  python: 'Python',
+  pyodide: 'Pyodide',
+};
+
+export const LOG_STAGE_LABELS: Record<AppStatus, string> = {
+  [AppStatus.IDLE]: '待機',
+  [AppStatus.BOOTING_PYTHON]: '起動',
+  [AppStatus.READING_FILE]: '読み込み',
+  [AppStatus.ANALYZING_INSTRUCTION]: '指示の解析',
+  [AppStatus.PLANNING]: '計画',
+  [AppStatus.AWAITING_PLAN]: '計画の確認',
+  [AppStatus.GENERATING_CODE]: '生成',
+  [AppStatus.AWAITING_APPROVAL]: 'レビュー',
+  [AppStatus.EXECUTING_CODE]: '実行',
+  [AppStatus.REPAIRING_CODE]: '修復',
+  [AppStatus.VERIFYING_OUTPUT]: '検証',
+  [AppStatus.COMPARING_OUTPUT]: '差分',
+  [AppStatus.COMPLETED]: '完了',
+  [AppStatus.ERROR]: 'エラー',
+};
+
+// 履歴から読み込んだログは timestamp が文字列やDateのコピーになっている場合がある
+const toDate = (timestamp: Date | string | number) => timestamp instanceof Date ? timestamp : new Date(timestamp);
+
+export const formatLogTime = (timestamp: Date | string | number) =>
+  toDate(timestamp).toLocaleTimeString('ja-JP', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const formatLogLine = (log: LogEntry) => {
+  const tags = [log.type, log.source ?? 'app', log.stage].filter(Boolean).join('/');
+  const lines = [`[${formatLogTime(log.timestamp)}] [${tags}] ${log.message}`];
+  if (log.payload?.traceback) lines.push(log.payload.traceback.replace(/^/gm, '    '));
+  return lines.join('\n');
+};
+
+export const formatLogsText = (logs: LogEntry[]) => logs.map(formatLogLine).join('\n');
+
+export interface LogBundleContext {
+  // 使用中の AI プロバイダーとモデル
+  llm?: string;
+  settings?: Record<string, unknown>;
+}
+
+// サポート窓口に添付する診断用の JSON。ログ本文に加えて実行環境の情報を含める
+export const buildLogBundle = (logs: LogEntry[], context: LogBundleContext = {}) => JSON.stringify({
+  format: 'excel-autopilot-log',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  environment: {
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    language: typeof navigator !== 'undefined' ? navigator.language : undefined,
+    crossOriginIsolated: typeof self !== 'undefined' ? self.crossOriginIsolated : undefined,
+  },
+  ...context,
+  logs: logs.map(log => ({ ...log, timestamp: toDate(log.timestamp).toISOString(), source: log.source ?? 'app' })),
+}, null, 2);
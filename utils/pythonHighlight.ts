@@ -0,0 +1,47 @@
+export type PythonTokenType = 'keyword' | 'builtin' | 'string' | 'comment' | 'number' | 'decorator' | 'plain';
+
+export interface PythonToken {
+  type: PythonTokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+  'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+const BUILTINS = new Set([
+  'print', 'len', 'range', 'str', 'int', 'float', 'list', 'dict', 'set', 'tuple', 'bool', 'enumerate',
+  'zip', 'isinstance', 'sum', 'min', 'max', 'sorted', 'open', 'round', 'abs', 'any', 'all', 'map', 'filter',
+]);
+
+// 1. コメント 2. 文字列（三重引用符・接頭辞付きを含む） 3. 数値 4. デコレータ 5. 識別子
+const TOKEN_PATTERN = /(#[^\n]*)|((?:[rbfuRBFU]{1,2})?(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?))|(\b\d+(?:\.\d+)?\b)|(@[A-Za-z_]\w*)|([A-Za-z_]\w*)/g;
+
+export const tokenizePython = (source: string): PythonToken[] => {
+  const tokens: PythonToken[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      tokens.push({ type: 'plain', text: source.slice(lastIndex, match.index) });
+    }
+    const [text, comment, string, number, decorator] = match;
+    let type: PythonTokenType = 'plain';
+    if (comment) type = 'comment';
+    else if (string) type = 'string';
+    else if (number) type = 'number';
+    else if (decorator) type = 'decorator';
+    else if (KEYWORDS.has(text)) type = 'keyword';
+    else if (BUILTINS.has(text)) type = 'builtin';
+    tokens.push({ type, text });
+    lastIndex = match.index + text.length;
+  }
+  if (lastIndex < source.length) {
+    tokens.push({ type: 'plain', text: source.slice(lastIndex) });
+  }
+  return tokens;
+};
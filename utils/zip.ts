@@ -0,0 +1,14 @@
+import { zipSync } from 'fflate';
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+export const zipBlobs = async (entries: ZipEntry[]): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  for (const entry of entries) {
+    files[entry.name] = new Uint8Array(await entry.blob.arrayBuffer());
+  }
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Node 用の CLI（cli/autopilot.ts）。Pyodide のワーカーは worker_threads で起動するため別のエントリーにする
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-cli',
+    rollupOptions: {
+      input: {
+        autopilot: 'cli/autopilot.ts',
+        'pyodide-worker': 'cli/pyodideWorker.ts',
+      },
+      output: {
+        entryFileNames: '[name].js',
+        chunkFileNames: 'assets/shared-[hash].js',
+        banner: (chunk) => chunk.name === 'autopilot' ? '#!/usr/bin/env node' : '',
+      },
+    },
+  },
+});
@@ -1,14 +1,15 @@
-
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevServer } from './server/viteApiPlugin';
+import { offlineSupport } from './server/offlinePlugin';
 
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    // プロンプトの指示に従い、process.env.API_KEY を直接利用可能にします
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
-  },
-  build: {
-    outDir: 'dist',
-  }
+export default defineConfig(({ mode }) => {
+  // API キーはサーバー側（/api/generate）でのみ使い、クライアントのバンドルには埋め込まない
+  const env = loadEnv(mode, process.cwd(), '');
+  return {
+    plugins: [react(), apiDevServer(env.GEMINI_API_KEY || env.API_KEY), offlineSupport(env)],
+    build: {
+      outDir: 'dist',
+    }
+  };
 });